@@ -14,29 +14,132 @@ import {
     TextEditor,
     CodeActionTriggerKind,
     CodeActionContext,
+    Disposable,
     Selection,
 } from 'vscode';
 import * as os from 'os';
+import * as path from 'path';
 import { getEolSetting, getIndentation } from './util';
 import Result from './common/result';
-import { formatDocument } from './document/documentAction';
+import { formatDocument, openFile, toTextEdits } from './document/documentAction';
 import { Logger } from './logging/log';
+import { showMemberPicker } from './ui/memberPicker';
+import { parseDocument } from './document/documentParser';
+import { findMemberAtOffset, findTypeAtOffset, getAccessibility, getAllTypes } from './parser/declarationFinder';
+import DeclarationParser from './parser/declarationParser';
+import { CompilationUnit, MemberDeclaration, ParameterDeclaration, TypeDeclaration, TypeKind } from './parser/declarations';
+import { getAssignmentTarget, getParameterName } from './generator/naming';
+import { addMembersFromParameters, addMembersToConstructor, getUnassignedParameters, getUninitializedMembers } from './generator/constructorGenerator';
+import { generateEqualityMembers } from './generator/equalityGenerator';
+import { generateDebuggerDisplay, generateToString } from './generator/displayGenerator';
+import { RecordLanguageVersion, convertClassToRecord, convertRecordToClass } from './generator/recordConverter';
+import { addBaseType, appendMembersToType } from './generator/typeGenerator';
+import { addUsingDirectives } from './generator/usingGenerator';
+import { SourceEdit, getLineIndentation, getLineStart } from './generator/sourceEdit';
+import { ExtractedType, extractType, getExtractableTypes } from './generator/typeExtractor';
+import { getPrimaryType } from './generator/typeRenamer';
+import { generateInterfaceMember, getInterfaceCandidates } from './generator/interfaceGenerator';
+import { addDependency, getSimpleTypeName, getWellKnownNamespace } from './generator/dependencyGenerator';
+import {
+    addNullChecks,
+    generateNullCheck,
+    generateThrowExpression,
+    getReferenceTypeNames,
+    getUncheckedParameters,
+    getValueTypeNames,
+    isNullCheckable,
+    isReferenceType,
+} from './generator/guardGenerator';
+import { collapseToAutoProperty, expandAutoProperty, isAutoProperty } from './generator/propertyConverter';
+import { implementNotifyPropertyChanged, isNotifyCandidate } from './generator/notifyPropertyChangedGenerator';
+import { addNestedBuilder, generateBuilderMembers, getBuilderName } from './generator/builderGenerator';
+import { PrimaryConstructorLanguageVersion, convertPrimaryConstructor, initializePrimaryConstructor } from './generator/primaryConstructorConverter';
+import FileHandler from './io/fileHandler';
+import CSharpFileCreator from './creator/cShaprFileCreator';
+import { TemplateType } from './template/templateType';
+import CsprojReader from './project/csprojReader';
+import GlobalUsingFinder from './project/globalUsings';
+import { isHashCodeSupported, isThrowIfNullSupported } from './project/targetFramework';
 
 export default class CodeActionProvider implements VSCodeCodeActionProvider {
     private _commandIds = {
         ctorFromProperties: 'csharpextensions.ctorFromProperties',
         bodyExpressionCtorFromProperties: 'csharpextensions.bodyExpressionCtorFromProperties',
+        ctorFromFields: 'csharpextensions.ctorFromFields',
+        bodyExpressionCtorFromFields: 'csharpextensions.bodyExpressionCtorFromFields',
+        addMembersToCtor: 'csharpextensions.addMembersToCtor',
+        equalityMembers: 'csharpextensions.equalityMembers',
+        equalityMembersWithOperators: 'csharpextensions.equalityMembersWithOperators',
+        toStringOverride: 'csharpextensions.toStringOverride',
+        debuggerDisplay: 'csharpextensions.debuggerDisplay',
+        classToRecord: 'csharpextensions.classToRecord',
+        recordToClass: 'csharpextensions.recordToClass',
+        moveTypeToFile: 'csharpextensions.moveTypeToFile',
+        renameFileToType: 'csharpextensions.renameFileToType',
+        extractInterface: 'csharpextensions.extractInterface',
+        addDependency: 'csharpextensions.addDependency',
+        propertiesFromCtorParameters: 'csharpextensions.propertiesFromCtorParameters',
+        fieldsFromCtorParameters: 'csharpextensions.fieldsFromCtorParameters',
+        primaryCtorFromProperties: 'csharpextensions.primaryCtorFromProperties',
+        primaryCtorToCtor: 'csharpextensions.primaryCtorToCtor',
+        nullChecks: 'csharpextensions.nullChecks',
+        propertyConversion: 'csharpextensions.propertyConversion',
+        notifyPropertyChanged: 'csharpextensions.notifyPropertyChanged',
+        builderFile: 'csharpextensions.builderFile',
+        nestedBuilder: 'csharpextensions.nestedBuilder',
     };
 
-    private static readonly ReadonlyRegex = new RegExp(/(public|private|protected)\s(\w+)\s(\w+)\s?{\s?(get;)\s?(private\s)?(set;)?\s?}/g);
-    private static readonly ClassRegex = new RegExp(/(private|internal|public|protected)\s?(static)?\sclass\s(\w*)/g);
+    private static readonly CtorTypeKinds: TypeKind[] = ['class', 'struct', 'record', 'record struct'];
+    private static readonly EqualityTypeKinds: TypeKind[] = ['class', 'struct'];
+    private static readonly DependencyTypeKinds: TypeKind[] = ['class', 'struct'];
+    private static readonly PrimaryCtorTypeKinds: TypeKind[] = ['class', 'struct'];
+    private static readonly BuilderTypeKinds: TypeKind[] = ['class', 'record'];
+    private static readonly ExcludedFolders = '**/{bin,obj}/**';
+
+    private readonly _templatesPath: string;
+
+    /**
+     * @param templatesPath The folder containing the templates of the extension
+     */
+    constructor(templatesPath: string) {
+        this._templatesPath = templatesPath;
+    }
 
-    constructor() {
-        commands.registerCommand(this._commandIds.ctorFromProperties, this.executeCtorFromProperties, this);
-        commands.registerCommand(this._commandIds.bodyExpressionCtorFromProperties, this.executeBodyExpressionCtorFromProperties, this);
+    /**
+     * Registers the commands executing the code actions
+     *
+     * @returns The disposable unregistering the commands
+     */
+    public register(): Disposable {
+        return Disposable.from(
+            commands.registerCommand(this._commandIds.ctorFromProperties, this.executeCtorFromProperties, this),
+            commands.registerCommand(this._commandIds.bodyExpressionCtorFromProperties, this.executeBodyExpressionCtorFromProperties, this),
+            commands.registerCommand(this._commandIds.ctorFromFields, this.executeCtorFromProperties, this),
+            commands.registerCommand(this._commandIds.bodyExpressionCtorFromFields, this.executeBodyExpressionCtorFromProperties, this),
+            commands.registerCommand(this._commandIds.addMembersToCtor, this.executeAddMembersToCtor, this),
+            commands.registerCommand(this._commandIds.equalityMembers, this.executeEqualityMembers, this),
+            commands.registerCommand(this._commandIds.equalityMembersWithOperators, this.executeEqualityMembers, this),
+            commands.registerCommand(this._commandIds.toStringOverride, this.executeToStringOverride, this),
+            commands.registerCommand(this._commandIds.debuggerDisplay, this.executeDebuggerDisplay, this),
+            commands.registerCommand(this._commandIds.classToRecord, this.executeConversion, this),
+            commands.registerCommand(this._commandIds.recordToClass, this.executeConversion, this),
+            commands.registerCommand(this._commandIds.moveTypeToFile, this.executeMoveTypeToFile, this),
+            commands.registerCommand(this._commandIds.renameFileToType, this.executeRenameFileToType, this),
+            commands.registerCommand(this._commandIds.extractInterface, this.executeExtractInterface, this),
+            commands.registerCommand(this._commandIds.addDependency, this.executeAddDependency, this),
+            commands.registerCommand(this._commandIds.propertiesFromCtorParameters, this.executeMembersFromCtorParameters, this),
+            commands.registerCommand(this._commandIds.fieldsFromCtorParameters, this.executeMembersFromCtorParameters, this),
+            commands.registerCommand(this._commandIds.primaryCtorFromProperties, this.executePrimaryCtorFromProperties, this),
+            commands.registerCommand(this._commandIds.primaryCtorToCtor, this.executeConversion, this),
+            commands.registerCommand(this._commandIds.nullChecks, this.executeNullChecks, this),
+            commands.registerCommand(this._commandIds.propertyConversion, this.executeConversion, this),
+            commands.registerCommand(this._commandIds.notifyPropertyChanged, this.executeNotifyPropertyChanged, this),
+            commands.registerCommand(this._commandIds.builderFile, this.executeBuilderFile, this),
+            commands.registerCommand(this._commandIds.nestedBuilder, this.executeConversion, this),
+        );
     }
 
-    public provideCodeActions(document: TextDocument, range: Range | Selection, context: CodeActionContext): CodeAction[] {
+    public async provideCodeActions(document: TextDocument, range: Range | Selection, context: CodeActionContext): Promise<CodeAction[]> {
         if (context.triggerKind !== CodeActionTriggerKind.Invoke) {
             return new Array<CodeAction>();
         }
@@ -51,16 +154,125 @@ export default class CodeActionProvider implements VSCodeCodeActionProvider {
         }
 
         const editor = resultEditor.value();
-        const ctorActionResult = this._buildCtorActions(document, editor, 'Initialize ctor from properties...', this._commandIds.ctorFromProperties);
+        const ctorActionResult = this._buildCtorActions(document, editor, 'Initialize ctor from properties...', this._commandIds.ctorFromProperties, 'property');
         if (ctorActionResult.isOk()) {
             codeActions.push(ctorActionResult.value());
         }
 
-        const bodyExpressionCtorAction = this._buildCtorActions(document, editor, 'Initialize body expression ctor from properties...', this._commandIds.bodyExpressionCtorFromProperties);
+        const bodyExpressionCtorAction = this._buildCtorActions(document, editor, 'Initialize body expression ctor from properties...', this._commandIds.bodyExpressionCtorFromProperties, 'property');
         if (bodyExpressionCtorAction.isOk()) {
             codeActions.push(bodyExpressionCtorAction.value());
         }
 
+        const ctorFromFieldsAction = this._buildCtorActions(document, editor, 'Initialize ctor from fields...', this._commandIds.ctorFromFields, 'field');
+        if (ctorFromFieldsAction.isOk()) {
+            codeActions.push(ctorFromFieldsAction.value());
+        }
+
+        const bodyExpressionCtorFromFieldsAction = this._buildCtorActions(document, editor, 'Initialize body expression ctor from fields...', this._commandIds.bodyExpressionCtorFromFields, 'field');
+        if (bodyExpressionCtorFromFieldsAction.isOk()) {
+            codeActions.push(bodyExpressionCtorFromFieldsAction.value());
+        }
+
+        const addMembersToCtorAction = this._buildAddMembersToCtorAction(document, editor);
+        if (addMembersToCtorAction.isOk()) {
+            codeActions.push(addMembersToCtorAction.value());
+        }
+
+        const propertiesFromCtorParametersAction = this._buildMembersFromCtorParametersAction(document, editor, 'Create and assign properties from parameters',
+            this._commandIds.propertiesFromCtorParameters, 'property');
+        if (propertiesFromCtorParametersAction.isOk()) {
+            codeActions.push(propertiesFromCtorParametersAction.value());
+        }
+
+        const fieldsFromCtorParametersAction = this._buildMembersFromCtorParametersAction(document, editor, 'Create and assign fields from parameters',
+            this._commandIds.fieldsFromCtorParameters, 'field');
+        if (fieldsFromCtorParametersAction.isOk()) {
+            codeActions.push(fieldsFromCtorParametersAction.value());
+        }
+
+        const primaryCtorFromPropertiesAction = this._buildPrimaryCtorFromPropertiesAction(document, editor);
+        if (primaryCtorFromPropertiesAction.isOk() && await this._supportsLanguageVersion(document, PrimaryConstructorLanguageVersion)) {
+            codeActions.push(primaryCtorFromPropertiesAction.value());
+        }
+
+        const primaryCtorConversionAction = this._buildPrimaryCtorConversionAction(document, editor);
+        if (primaryCtorConversionAction.isOk()) {
+            codeActions.push(primaryCtorConversionAction.value());
+        }
+
+        const nullChecksAction = this._buildNullChecksAction(document, editor);
+        if (nullChecksAction.isOk()) {
+            codeActions.push(nullChecksAction.value());
+        }
+
+        const propertyConversionAction = this._buildPropertyConversionAction(document, editor);
+        if (propertyConversionAction.isOk()) {
+            codeActions.push(propertyConversionAction.value());
+        }
+
+        const notifyPropertyChangedAction = this._buildNotifyPropertyChangedAction(document, editor);
+        if (notifyPropertyChangedAction.isOk()) {
+            codeActions.push(notifyPropertyChangedAction.value());
+        }
+
+        const equalityAction = this._buildEqualityAction(document, editor, 'Generate Equals and GetHashCode...', this._commandIds.equalityMembers, false);
+        if (equalityAction.isOk()) {
+            codeActions.push(equalityAction.value());
+        }
+
+        const equalityWithOperatorsAction = this._buildEqualityAction(document, editor, 'Generate Equals, GetHashCode and operators...', this._commandIds.equalityMembersWithOperators, true);
+        if (equalityWithOperatorsAction.isOk()) {
+            codeActions.push(equalityWithOperatorsAction.value());
+        }
+
+        const toStringAction = this._buildDisplayAction(document, editor, 'Generate ToString override...', this._commandIds.toStringOverride,
+            type => !type.members.some(member => member.kind === 'method' && member.name === 'ToString' && !member.parameters.length));
+        if (toStringAction.isOk()) {
+            codeActions.push(toStringAction.value());
+        }
+
+        const debuggerDisplayAction = this._buildDisplayAction(document, editor, 'Add DebuggerDisplay attribute...', this._commandIds.debuggerDisplay,
+            type => !type.attributes.some(attribute => /^(System\.Diagnostics\.)?DebuggerDisplay(Attribute)?\b/.test(attribute.text)));
+        if (debuggerDisplayAction.isOk()) {
+            codeActions.push(debuggerDisplayAction.value());
+        }
+
+        const recordConversionAction = await this._buildRecordConversionAction(document, editor);
+        if (recordConversionAction.isOk()) {
+            codeActions.push(recordConversionAction.value());
+        }
+
+        const moveTypeToFileAction = this._buildMoveTypeToFileAction(document, editor);
+        if (moveTypeToFileAction.isOk()) {
+            codeActions.push(moveTypeToFileAction.value());
+        }
+
+        const renameFileToTypeAction = this._buildRenameFileToTypeAction(document, editor);
+        if (renameFileToTypeAction.isOk()) {
+            codeActions.push(renameFileToTypeAction.value());
+        }
+
+        const extractInterfaceAction = this._buildExtractInterfaceAction(document, editor);
+        if (extractInterfaceAction.isOk()) {
+            codeActions.push(extractInterfaceAction.value());
+        }
+
+        const addDependencyAction = this._buildAddDependencyAction(document, editor);
+        if (addDependencyAction.isOk()) {
+            codeActions.push(addDependencyAction.value());
+        }
+
+        const builderFileAction = this._buildBuilderFileAction(document, editor);
+        if (builderFileAction.isOk()) {
+            codeActions.push(builderFileAction.value());
+        }
+
+        const nestedBuilderAction = this._buildNestedBuilderAction(document, editor);
+        if (nestedBuilderAction.isOk()) {
+            codeActions.push(nestedBuilderAction.value());
+        }
+
         return codeActions;
     }
 
@@ -74,36 +286,47 @@ export default class CodeActionProvider implements VSCodeCodeActionProvider {
         return Result.ok<TextEditor>(editor);
     }
 
-    private camelize(str: string) {
-        return str.replace(/(?:^\w|[A-Z]|\b\w|\s+)/g, function (match, index) {
-            if (+match === 0) return ''; // or if (/\s+/.test(match)) for white spaces
-
-            return index === 0 ? match.toLowerCase() : match.toUpperCase();
-        });
-    }
-
     private async executeCtorFromProperties(args: ConstructorFromPropertiesArgument) {
         const configuration = workspace.getConfiguration();
         const eol = getEolSetting(configuration.get('file.eol', os.EOL));
         const tabSize = configuration.get('editor.tabSize', 4);
         const ctorParams = new Array<string>();
-        const indentationLevel = args.isFileScopedNamespace ? 1 : 2;
+        const indentationLevel = args.classDefinition.depth + 1;
+        const privateMemberPrefix = configuration.get('csharpextensions.privateMemberPrefix', '');
+        const useThisForCtorAssignments = configuration.get('csharpextensions.useThisForCtorAssignments', true);
 
         if (!args.properties)
             return;
 
-        args.properties.forEach((p) => {
-            ctorParams.push(`${p.type} ${this.camelize(p.name)}`);
+        const properties = await this._pickCtorMembers(args);
+        if (!properties?.length)
+            return;
+
+        properties.forEach((p) => {
+            ctorParams.push(`${p.type} ${getParameterName(p.name, privateMemberPrefix)}`);
         });
 
-        const assignments = args.properties
-            .map(prop => `${this._getIndentation(tabSize, (indentationLevel + 1))}this.${prop.name} = ${this.camelize(prop.name)};${eol}`);
+        const nullCheckables = this._getNullCheckedMembers(args.document, properties, false);
+        const useThrowIfNull = nullCheckables.length > 0 && await this._isThrowIfNullSupported(args.document);
+        const nullChecked = useThrowIfNull ? nullCheckables : this._getNullCheckedMembers(args.document, properties, true);
+        const nullChecks = useThrowIfNull
+            ? nullChecked.map(prop => `${this._getIndentation(tabSize, (indentationLevel + 1))}${generateNullCheck(getParameterName(prop.name, privateMemberPrefix), true)}${eol}`)
+            : [];
+
+        const assignments = properties
+            .map(prop => {
+                const parameterName = getParameterName(prop.name, privateMemberPrefix);
+                const target = getAssignmentTarget(prop.name, parameterName, useThisForCtorAssignments);
+                const value = nullChecked.includes(prop) && !useThrowIfNull ? generateThrowExpression(parameterName) : parameterName;
+
+                return `${this._getIndentation(tabSize, (indentationLevel + 1))}${target} = ${value};${eol}`;
+            });
 
         const { modifier, className } = args.classDefinition;
 
-        const firstPropertyLine = args.properties.sort((a, b) => a.lineNumber - b.lineNumber)[0].lineNumber;
+        const firstPropertyLine = Math.min(...properties.map(p => p.lineNumber));
         const constructorIndentation = this._getIndentation(tabSize, (indentationLevel));
-        const ctorStatement = `${constructorIndentation}${modifier} ${className}(${ctorParams.join(', ')})${eol}${constructorIndentation}{${eol}${assignments.join('')}${constructorIndentation}}${eol}${eol}`;
+        const ctorStatement = `${constructorIndentation}${modifier} ${className}(${ctorParams.join(', ')})${eol}${constructorIndentation}{${eol}${nullChecks.join('')}${nullChecks.length ? eol : ''}${assignments.join('')}${constructorIndentation}}${eol}${eol}`;
 
         const edit = new WorkspaceEdit();
         const edits = new Array<TextEdit>();
@@ -113,6 +336,9 @@ export default class CodeActionProvider implements VSCodeCodeActionProvider {
         const ctorEdit = new TextEdit(range, ctorStatement);
 
         edits.push(ctorEdit);
+        if (nullChecked.length) {
+            edits.push(...await this._buildSystemUsingEdits(args.document, eol));
+        }
         edit.set(args.document.uri, edits);
 
         await workspace.applyEdit(edit);
@@ -128,24 +354,35 @@ export default class CodeActionProvider implements VSCodeCodeActionProvider {
         const eol = getEolSetting(configuration.get('file.eol', os.EOL));
         const tabSize = configuration.get('editor.tabSize', 4);
         const ctorParams = new Array<string>();
-        const indentationLevel = args.isFileScopedNamespace ? 1 : 2;
+        const indentationLevel = args.classDefinition.depth + 1;
+        const privateMemberPrefix = configuration.get('csharpextensions.privateMemberPrefix', '');
+        const useThisForCtorAssignments = configuration.get('csharpextensions.useThisForCtorAssignments', true);
 
         if (!args.properties)
             return;
 
-        args.properties.forEach((p) => {
-            ctorParams.push(`${p.type} ${this.camelize(p.name)}`);
+        const properties = await this._pickCtorMembers(args);
+        if (!properties?.length)
+            return;
+
+        properties.forEach((p) => {
+            ctorParams.push(`${p.type} ${getParameterName(p.name, privateMemberPrefix)}`);
         });
 
-        const tupleLeft = args.properties
-            .map(prop => `this.${prop.name}`).join(' , ');
-        const tupleRight = args.properties
-            .map(prop => `${this.camelize(prop.name)}`).join(' , ');
-        const assignment = args.properties.length === 1 ? `${tupleLeft} = ${tupleRight}` : `(${tupleLeft}) = (${tupleRight})`;
+        const tupleLeft = properties
+            .map(prop => getAssignmentTarget(prop.name, getParameterName(prop.name, privateMemberPrefix), useThisForCtorAssignments)).join(' , ');
+        const nullChecked = this._getNullCheckedMembers(args.document, properties, true);
+        const tupleRight = properties
+            .map(prop => {
+                const parameterName = getParameterName(prop.name, privateMemberPrefix);
+
+                return nullChecked.includes(prop) ? generateThrowExpression(parameterName) : parameterName;
+            }).join(' , ');
+        const assignment = properties.length === 1 ? `${tupleLeft} = ${tupleRight}` : `(${tupleLeft}) = (${tupleRight})`;
 
         const { modifier, className } = args.classDefinition;
 
-        const firstPropertyLine = args.properties.sort((a, b) => a.lineNumber - b.lineNumber)[0].lineNumber;
+        const firstPropertyLine = Math.min(...properties.map(p => p.lineNumber));
         const constructorIndentation = this._getIndentation(tabSize, (indentationLevel));
         const ctorStatement = `${constructorIndentation}${modifier} ${className}(${ctorParams.join(', ')})${eol}${this._getIndentation(tabSize, (indentationLevel + 1))}=> ${assignment};${eol}${eol}`;
 
@@ -157,6 +394,9 @@ export default class CodeActionProvider implements VSCodeCodeActionProvider {
         const ctorEdit = new TextEdit(range, ctorStatement);
 
         edits.push(ctorEdit);
+        if (nullChecked.length) {
+            edits.push(...await this._buildSystemUsingEdits(args.document, eol));
+        }
         edit.set(args.document.uri, edits);
 
         await workspace.applyEdit(edit);
@@ -167,129 +407,1340 @@ export default class CodeActionProvider implements VSCodeCodeActionProvider {
         }
     }
 
-    private _getIndentation(tabSize: number, indentation: number): string {
-        return getIndentation(tabSize, indentation);
+    private async executeAddMembersToCtor(args: AddMembersToConstructorArgument) {
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+        const tabSize = configuration.get('editor.tabSize', 4);
+        const privateMemberPrefix = configuration.get('csharpextensions.privateMemberPrefix', '');
+        const useThisForCtorAssignments = configuration.get('csharpextensions.useThisForCtorAssignments', true);
+
+        const candidates = [...args.properties].sort((a, b) => a.lineNumber - b.lineNumber);
+        const members = await showMemberPicker('Select the members to add to the constructor', candidates, () => true);
+        if (!members?.length)
+            return;
+
+        if (args.document.version !== args.version) {
+            Logger.error('The document changed while selecting the members, the constructor has not been updated');
+
+            return;
+        }
+
+        const sourceEdits = addMembersToConstructor(args.unit, args.constructor, members, {
+            eol,
+            indentation: this._getIndentation(tabSize, 1),
+            privateMemberPrefix,
+            useThisForCtorAssignments,
+        });
+
+        await this._applySourceEdits(args.document, sourceEdits);
     }
 
-    private async formatDocument(documentUri: Uri) {
+    private async executeMembersFromCtorParameters(args: MembersFromConstructorParametersArgument) {
+        const configuration = workspace.getConfiguration();
+
+        if (args.document.version !== args.version) {
+            Logger.error('The document changed since the constructor has been parsed, no member has been created');
+
+            return;
+        }
+
+        const sourceEdits = addMembersFromParameters(args.unit, args.type, args.constructor, args.parameters, args.memberKind, {
+            eol: getEolSetting(configuration.get('file.eol', os.EOL)),
+            indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+            privateMemberPrefix: configuration.get('csharpextensions.privateMemberPrefix', ''),
+            useThisForCtorAssignments: configuration.get('csharpextensions.useThisForCtorAssignments', true),
+        });
+
+        await this._applySourceEdits(args.document, sourceEdits);
+    }
+
+    private async executePrimaryCtorFromProperties(args: TypeMembersArgument) {
+        const { document, unit, type } = args;
+        const candidates = [...args.properties].sort((a, b) => a.lineNumber - b.lineNumber);
+        const members = await showMemberPicker('Select the members to initialize', candidates, p => p.kind === 'property');
+        if (!members?.length)
+            return;
+
+        if (document.version !== args.version) {
+            Logger.error('The document changed while selecting the members, the primary constructor has not been added');
+
+            return;
+        }
+
+        const privateMemberPrefix = workspace.getConfiguration().get('csharpextensions.privateMemberPrefix', '');
+        const memberNames = members.map(member => member.name);
+        const initializationResult = initializePrimaryConstructor(unit, type, type.members.filter(member => memberNames.includes(member.name)), privateMemberPrefix);
+        if (initializationResult.isErr()) {
+            window.showErrorMessage(initializationResult.info() ?? `The primary constructor of ${type.name} could not be added`);
+
+            return;
+        }
+
+        await this._applySourceEdits(document, initializationResult.value());
+    }
+
+    private async executeNullChecks(args: NullChecksArgument) {
+        const { document, unit } = args;
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+
+        if (document.version !== args.version) {
+            Logger.error('The document changed since the parameters have been parsed, no null check has been added');
+
+            return;
+        }
+
+        const nullChecksResult = addNullChecks(unit, args.member, args.parameters, {
+            eol,
+            indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+            useThrowIfNull: await this._isThrowIfNullSupported(document),
+        });
+        if (nullChecksResult.isErr()) {
+            window.showErrorMessage(nullChecksResult.info() ?? `The null checks of ${args.member.name} could not be added`);
+
+            return;
+        }
+
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+
+        await this._applySourceEdits(document, [
+            ...addUsingDirectives(unit, ['System'], globalUsings, eol),
+            ...nullChecksResult.value(),
+        ]);
+    }
+
+    private async executeNotifyPropertyChanged(args: TypeMembersArgument) {
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+        const { document, unit, type } = args;
+
+        const candidates = [...args.properties].sort((a, b) => a.lineNumber - b.lineNumber);
+        const properties = await showMemberPicker('Select the properties raising PropertyChanged', candidates, () => true);
+        if (!properties)
+            return;
+
+        if (document.version !== args.version) {
+            Logger.error('The document changed while selecting the properties, INotifyPropertyChanged has not been implemented');
+
+            return;
+        }
+
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+        const propertyNames = properties.map(property => property.name);
+
+        const implementationResult = implementNotifyPropertyChanged(unit, type, type.members.filter(member => propertyNames.includes(member.name)), {
+            eol,
+            indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+            privateMemberPrefix: configuration.get('csharpextensions.privateMemberPrefix', ''),
+            nullable: await csprojReader?.isNullableEnabled() === true,
+        });
+        if (implementationResult.isErr()) {
+            window.showErrorMessage(implementationResult.info() ?? `INotifyPropertyChanged could not be implemented by ${type.name}`);
+
+            return;
+        }
+
+        const { edits, namespaces } = implementationResult.value();
+
+        await this._applySourceEdits(document, [...addUsingDirectives(unit, namespaces, globalUsings, eol), ...edits]);
+    }
+
+    private async executeEqualityMembers(args: EqualityMembersArgument) {
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+        const tabSize = configuration.get('editor.tabSize', 4);
+        const { document, unit, type } = args;
+
+        const candidates = [...args.properties].sort((a, b) => a.lineNumber - b.lineNumber);
+        const members = await showMemberPicker('Select the members to compare', candidates, () => true);
+        if (!members?.length)
+            return;
+
+        if (document.version !== args.version) {
+            Logger.error('The document changed while selecting the members, the equality members have not been generated');
+
+            return;
+        }
+
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+        const targetFramework = await csprojReader?.getTargetFramework();
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+
+        const typeName = type.typeParameters ? `${type.name}<${type.typeParameters}>` : type.name;
+        const generated = generateEqualityMembers(typeName, type.kind === 'struct', members, {
+            eol,
+            memberIndentation: this._getIndentation(tabSize, type.depth + 1),
+            indentation: this._getIndentation(tabSize, 1),
+            useHashCode: isHashCodeSupported(targetFramework),
+            generateOperators: args.generateOperators,
+        });
+
+        const sourceEdits = new Array<SourceEdit>(...addUsingDirectives(unit, generated.namespaces, globalUsings, eol));
+
+        const equatable = `IEquatable<${typeName}>`;
+        const isEquatable = type.baseTypes
+            .map(baseType => baseType.replace(/\s/g, '').replace(/^System\./, ''))
+            .includes(equatable.replace(/\s/g, ''));
+        if (!isEquatable) {
+            sourceEdits.push(addBaseType(unit, type, equatable));
+        }
+
+        const membersEdit = appendMembersToType(unit, type, generated.members, eol);
+        if (membersEdit) {
+            sourceEdits.push(membersEdit);
+        }
+
+        await this._applySourceEdits(document, sourceEdits);
+    }
+
+    private async executeToStringOverride(args: TypeMembersArgument) {
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+        const tabSize = configuration.get('editor.tabSize', 4);
+        const { document, unit, type } = args;
+
+        const members = await this._pickDisplayMembers(args);
+        if (!members)
+            return;
+
+        const toString = generateToString(type.name, members, {
+            eol,
+            memberIndentation: this._getIndentation(tabSize, type.depth + 1),
+            indentation: this._getIndentation(tabSize, 1),
+        });
+
+        const membersEdit = appendMembersToType(unit, type, [toString], eol);
+        if (!membersEdit)
+            return;
+
+        await this._applySourceEdits(document, [membersEdit]);
+    }
+
+    private async executeDebuggerDisplay(args: TypeMembersArgument) {
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+        const { document, unit, type } = args;
+
+        const members = await this._pickDisplayMembers(args);
+        if (!members?.length)
+            return;
+
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+
+        const headerLineStart = getLineStart(unit.source, type.headerStart);
+        const attribute = `${getLineIndentation(unit.source, type.headerStart)}${generateDebuggerDisplay(members)}${eol}`;
+
+        await this._applySourceEdits(document, [
+            ...addUsingDirectives(unit, ['System.Diagnostics'], globalUsings, eol),
+            { start: headerLineStart, end: headerLineStart, text: attribute },
+        ]);
+    }
+
+    private async executeConversion(args: ConversionArgument) {
+        if (args.document.version !== args.version) {
+            Logger.error('The document changed since the conversion has been computed, nothing has been converted');
+
+            return;
+        }
+
+        await this._applySourceEdits(args.document, args.edits);
+    }
+
+    private async executeMoveTypeToFile(args: MoveTypeToFileArgument) {
+        const { document, typeName, extracted } = args;
+
+        if (document.version !== args.version) {
+            Logger.error('The document changed since the type has been extracted, nothing has been moved');
+
+            return;
+        }
+
+        const filePath = path.join(path.dirname(document.fileName), `${typeName}.cs`);
+        if (await FileHandler.fileExists(filePath)) {
+            window.showErrorMessage(`The file ${path.basename(filePath)} already exists`);
+
+            return;
+        }
+
+        // A single edit, so that undoing the move removes the new file along with restoring the type
+        const uri = Uri.file(filePath);
+        const edit = new WorkspaceEdit();
+        edit.set(document.uri, toTextEdits(document, extracted.edits));
+        edit.createFile(uri);
+        edit.insert(uri, new Position(0, 0), extracted.content);
+
+        if (!await workspace.applyEdit(edit)) {
+            window.showErrorMessage(`${typeName} could not be moved to ${path.basename(filePath)}`);
+
+            return;
+        }
+
         try {
-            await formatDocument(documentUri);
+            await openFile(filePath, undefined);
         } catch (err) {
-            Logger.error(`Error trying to format document - ${err}`);
+            Logger.error(`Error trying to open the file path ${filePath}: ${err}`);
         }
     }
 
-    private _buildCtorActions(document: TextDocument, editor: TextEditor, actionTitle: string, command: string): Result<CodeAction> {
-        return this._findCtorDefinitionAndProperties(document, editor)
-            .AndThenSync(classDefinition => {
-                const parameter: ConstructorFromPropertiesArgument = {
-                    properties: classDefinition.properties,
-                    classDefinition: classDefinition.classDefinition,
-                    document: document,
-                    isFileScopedNamespace: classDefinition.isFileScoped,
-                };
+    private async executeRenameFileToType(args: RenameFileToTypeArgument) {
+        const { document, typeName } = args;
+        const newUri = Uri.file(path.join(path.dirname(document.fileName), `${typeName}.cs`));
 
-                const codeAction = new CodeAction(actionTitle, CodeActionKind.RefactorExtract);
+        if (await FileHandler.fileExists(newUri.fsPath)) {
+            window.showErrorMessage(`The file ${path.basename(newUri.fsPath)} already exists`);
 
-                codeAction.command = {
-                    title: codeAction.title,
-                    command,
-                    arguments: [parameter]
-                };
+            return;
+        }
 
-                return Result.ok<CodeAction>(codeAction);
-            });
+        const edit = new WorkspaceEdit();
+        edit.renameFile(document.uri, newUri);
+
+        await workspace.applyEdit(edit);
     }
 
-    private _findCtorDefinitionAndProperties(document: TextDocument, editor: TextEditor): Result<CSharpClass> {
-        const position = editor.selection.active;
-
-        return this._findFileScopedNamespace(document)
-            .AndThenSync((isFileScoped) => this._findClassFromLine(document, position.line)
-                .AndThenSync((withinClass) => {
-                    const properties = new Array<CSharpPropertyDefinition>();
-                    let lineNo = 0;
-
-                    while (lineNo < document.lineCount) {
-                        const textLine = document.lineAt(lineNo);
-
-                        const match = Array.from(textLine.text.trim().matchAll(CodeActionProvider.ReadonlyRegex));
-                        if (match.length > 0) {
-                            const resultFoundClass = this._findClassFromLine(document, lineNo);
-
-                            if (resultFoundClass.isOk() && resultFoundClass.value().className === withinClass.className) {
-                                const prop: CSharpPropertyDefinition = {
-                                    lineNumber: lineNo,
-                                    class: resultFoundClass.value(),
-                                    modifier: match[0][1],
-                                    type: match[0][2],
-                                    name: match[0][3],
-                                    statement: match[0][0]
-                                };
-
-                                properties.push(prop);
-                            }
-                        }
-
-                        lineNo++;
-                    }
-
-                    if (!properties.length) {
-                        return Result.error<CSharpClass>('NotFoundError', 'Properties not found');
-                    }
-
-                    return Result.ok<CSharpClass>({ properties, classDefinition: withinClass, isFileScoped });
-                }));
-    }
-
-    private _findFileScopedNamespace(document: TextDocument): Result<boolean> {
-        let lineNo = 0;
-        let isFileScopedNamespace = false;
-        while (lineNo < document.lineCount) {
-            const line = document.lineAt(lineNo);
-            if (line.text.trim().startsWith('namespace')) {
-                if (line.text.trim().endsWith(';')) {
-                    isFileScopedNamespace = true;
-                }
+    private async executeExtractInterface(args: ExtractInterfaceArgument) {
+        const { document, unit, type } = args;
 
-                return Result.ok<boolean>(isFileScopedNamespace);
-            }
+        const candidates = args.members.map(member => ({ name: this._getMemberLabel(member), type: member.type, member }));
+        const picked = await showMemberPicker('Select the members of the interface', candidates, c => !c.member.modifiers.includes('override'));
+        if (!picked?.length)
+            return;
+
+        if (document.version !== args.version) {
+            Logger.error('The document changed while selecting the members, the interface has not been extracted');
+
+            return;
+        }
+
+        const interfaceName = `I${type.name}`;
+        const typeParameters = type.typeParameters ? `<${type.typeParameters}>` : '';
+        const constraints = type.constraintClauses.length ? ` ${type.constraintClauses.join(' ')}` : '';
+        const pathWithoutExtension = path.join(path.dirname(document.fileName), interfaceName);
+
+        const createdFileResult = await CSharpFileCreator.createFromSettings(TemplateType.Inteface, this._templatesPath, pathWithoutExtension,
+            `${interfaceName}${typeParameters}${constraints}`);
+        if (createdFileResult.isErr()) {
+            Logger.error(createdFileResult.info() ?? `Error trying to create ${interfaceName}`);
+            window.showErrorMessage(createdFileResult.info() ?? `${interfaceName} could not be created`);
 
-            lineNo++;
+            return;
+        }
+
+        await this._applySourceEdits(document, [addBaseType(unit, type, `${interfaceName}${typeParameters}`)]);
+
+        const createdFile = createdFileResult.value();
+        const uri = await openFile(createdFile.filePath, undefined);
+        const interfaceDocument = await workspace.openTextDocument(uri);
+        const cursorLine = interfaceDocument.lineAt(createdFile.cursorPositionArray?.[0] ?? 0);
+
+        if (createdFile.cursorPositionArray && !cursorLine.text.trim()) {
+            const eol = getEolSetting(workspace.getConfiguration().get('file.eol', os.EOL));
+            const declarations = picked.map(c => generateInterfaceMember(unit, c.member)).join(`${eol}${cursorLine.text}`);
+            const usingEdits = addUsingDirectives(parseDocument(interfaceDocument), await this._getTypeNamespaces(document, unit, type), [], eol);
+            const edit = new WorkspaceEdit();
+            edit.set(uri, toTextEdits(interfaceDocument, [
+                ...usingEdits,
+                { start: interfaceDocument.offsetAt(cursorLine.range.end), end: interfaceDocument.offsetAt(cursorLine.range.end), text: declarations },
+            ]));
+
+            await workspace.applyEdit(edit);
         }
 
-        return Result.error<boolean>('NameSpaceNotFoundError', 'Class does not have a namespace');
+        await this.formatDocument(uri);
     }
 
-    private _findClassFromLine(document: TextDocument, lineNo: number): Result<CSharpClassDefinition> {
-        if (!lineNo) lineNo = document.lineCount - 1;
-        if (lineNo >= document.lineCount) lineNo = document.lineCount - 1;
+    private async executeAddDependency(args: AddDependencyArgument) {
+        const { document, unit, type } = args;
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+        const tabSize = configuration.get('editor.tabSize', 4);
+
+        const dependencyType = (await window.showInputBox({
+            title: `Add dependency to ${type.name}`,
+            prompt: 'The type of the dependency to inject through the constructor',
+            placeHolder: `ILogger<${type.name}>`,
+            validateInput: value => /^[\p{L}_][\p{L}\p{N}_.]*(<.+>)?\??$/u.test(value.trim()) ? undefined : 'Not a valid type name',
+        }))?.trim();
+        if (!dependencyType)
+            return;
 
-        while (lineNo >= 0) {
-            const line = document.lineAt(lineNo);
-            const match = Array.from(line.text.trim().matchAll(CodeActionProvider.ClassRegex));
+        if (document.version !== args.version) {
+            Logger.error('The document changed while typing the dependency, the dependency has not been added');
 
-            if (match.length > 0) {
+            return;
+        }
 
-                return Result.ok<CSharpClassDefinition>({
-                    startLine: lineNo,
-                    endLine: -1,
-                    className: match[0][3],
-                    modifier: match[0][1],
-                    statement: match[0][0]
-                });
-            }
+        const dependencyResult = addDependency(unit, type, dependencyType, {
+            eol,
+            indentation: this._getIndentation(tabSize, 1),
+            privateMemberPrefix: configuration.get('csharpextensions.privateMemberPrefix', ''),
+            useThisForCtorAssignments: configuration.get('csharpextensions.useThisForCtorAssignments', true),
+        });
+        if (dependencyResult.isErr()) {
+            window.showErrorMessage(dependencyResult.info() ?? `${dependencyType} could not be added to ${type.name}`);
 
-            lineNo--;
+            return;
         }
 
-        return Result.error<CSharpClassDefinition>('ClassNotFoundError', 'Class definition not found');
+        const namespace = getWellKnownNamespace(dependencyType) ?? await this._findTypeNamespace(getSimpleTypeName(dependencyType));
+        const csprojReader = namespace ? await CsprojReader.createFromPath(document.fileName) : undefined;
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+
+        await this._applySourceEdits(document, [
+            ...(namespace ? addUsingDirectives(unit, [namespace], globalUsings, eol) : []),
+            ...dependencyResult.value(),
+        ]);
     }
-}
 
-interface ConstructorFromPropertiesArgument {
-    document: TextDocument,
-    classDefinition: CSharpClassDefinition,
+    private async executeBuilderFile(args: BuilderArgument) {
+        const { document, unit, type } = args;
+
+        if (document.version !== args.version) {
+            Logger.error('The document changed since the type has been parsed, the builder has not been generated');
+
+            return;
+        }
+
+        const configuration = workspace.getConfiguration();
+        const eol = getEolSetting(configuration.get('file.eol', os.EOL));
+
+        const builderName = getBuilderName(type);
+        const typeParameters = type.typeParameters ? `<${type.typeParameters}>` : '';
+        const constraints = type.constraintClauses.length ? ` ${type.constraintClauses.join(' ')}` : '';
+        const pathWithoutExtension = path.join(path.dirname(document.fileName), builderName);
+
+        const createdFileResult = await CSharpFileCreator.createFromSettings(TemplateType.Class, this._templatesPath, pathWithoutExtension,
+            `${builderName}${typeParameters}${constraints}`);
+        if (createdFileResult.isErr()) {
+            Logger.error(createdFileResult.info() ?? `Error trying to create ${builderName}`);
+            window.showErrorMessage(createdFileResult.info() ?? `${builderName} could not be created`);
+
+            return;
+        }
+
+        const createdFile = createdFileResult.value();
+        const uri = await openFile(createdFile.filePath, undefined);
+        const builderDocument = await workspace.openTextDocument(uri);
+        const cursorLine = builderDocument.lineAt(createdFile.cursorPositionArray?.[0] ?? 0);
+
+        if (createdFile.cursorPositionArray && !cursorLine.text.trim()) {
+            const membersResult = generateBuilderMembers(type, {
+                eol,
+                indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+                memberIndentation: cursorLine.text,
+                privateMemberPrefix: configuration.get('csharpextensions.privateMemberPrefix', ''),
+                useThisForCtorAssignments: configuration.get('csharpextensions.useThisForCtorAssignments', true),
+                isNested: false,
+            });
+
+            const builderUnit = parseDocument(builderDocument);
+
+            const edit = new WorkspaceEdit();
+            edit.set(uri, toTextEdits(builderDocument, [
+                ...addUsingDirectives(builderUnit, await this._getTypeNamespaces(document, unit, type), [], eol),
+                ...membersResult.isOk() ? [{ start: builderDocument.offsetAt(cursorLine.range.start), end: builderDocument.offsetAt(cursorLine.range.end), text: membersResult.value().join(`${eol}${eol}`) }] : [],
+            ]));
+
+            await workspace.applyEdit(edit);
+        }
+
+        await this.formatDocument(uri);
+    }
+
+    // The namespaces a file generated from a type needs: the ones the type uses and its own, the global usings excepted
+    private async _getTypeNamespaces(document: TextDocument, unit: CompilationUnit, type: TypeDeclaration): Promise<string[]> {
+        const namespaces = [
+            ...unit.usings.filter(using => !using.alias && !using.isStatic && !using.isGlobal).map(using => using.name),
+            ...(type.namespace ? [type.namespace] : []),
+        ];
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+
+        return namespaces.filter(namespace => !globalUsings.includes(namespace));
+    }
+
+    // The namespace of a type declared in the workspace, found through the file named after it
+    private async _findTypeNamespace(typeName: string): Promise<string | undefined> {
+        const files = await workspace.findFiles(`**/${typeName}.cs`, CodeActionProvider.ExcludedFolders, 10);
+
+        for (const file of files) {
+            try {
+                const type = getAllTypes(DeclarationParser.parse(await FileHandler.read(file.fsPath))).find(t => t.name === typeName);
+                if (type?.namespace) {
+                    return type.namespace;
+                }
+            } catch (err) {
+                Logger.error(`Error trying to read ${file.fsPath} - ${err}`);
+            }
+        }
+
+        return undefined;
+    }
+
+    private _getMemberLabel(member: MemberDeclaration): string {
+        switch (member.kind) {
+            case 'method':
+                return `${member.name}(${member.parameters.map(parameter => parameter.type).join(', ')})`;
+            case 'indexer':
+                return `this[${member.parameters.map(parameter => parameter.type).join(', ')}]`;
+            default:
+                return member.name;
+        }
+    }
+
+    private async _pickDisplayMembers(args: TypeMembersArgument): Promise<CSharpPropertyDefinition[] | undefined> {
+        const candidates = [...args.properties].sort((a, b) => a.lineNumber - b.lineNumber);
+        const members = await showMemberPicker('Select the members to display', candidates, p => p.kind === 'property');
+
+        if (members && args.document.version !== args.version) {
+            Logger.error('The document changed while selecting the members, nothing has been generated');
+
+            return undefined;
+        }
+
+        return members;
+    }
+
+    private async _applySourceEdits(document: TextDocument, sourceEdits: SourceEdit[]) {
+        const edit = new WorkspaceEdit();
+        edit.set(document.uri, toTextEdits(document, sourceEdits));
+
+        await workspace.applyEdit(edit);
+
+        const reFormatAfterChange = workspace.getConfiguration().get('csharpextensions.reFormatAfterChange', true);
+        if (reFormatAfterChange) {
+            await this.formatDocument(document.uri);
+        }
+    }
+
+    // The members the generated constructors check against null, when enabled
+    // The throw expressions only compile with the members known to be reference types
+    private _getNullCheckedMembers(document: TextDocument, members: CSharpPropertyDefinition[], useThrowExpressions: boolean): CSharpPropertyDefinition[] {
+        if (!workspace.getConfiguration().get('csharpextensions.generateNullChecks', false)) {
+            return [];
+        }
+
+        const unit = parseDocument(document);
+        const type = getAllTypes(unit).find(t => t.name === members[0]?.class.className);
+        const valueTypes = type ? getValueTypeNames(unit, type) : [];
+        const referenceTypes = getReferenceTypeNames(unit);
+
+        return members.filter(member => isNullCheckable(member.type, valueTypes) && (!useThrowExpressions || isReferenceType(member.type, referenceTypes)));
+    }
+
+    // Primary constructors require C# 12, i.e. .NET 8 or a LangVersion of 12
+    private async _supportsLanguageVersion(document: TextDocument, requiredVersion: number): Promise<boolean> {
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+        const languageVersion = await csprojReader?.getLanguageVersion();
+
+        return languageVersion !== undefined && languageVersion >= requiredVersion;
+    }
+
+    private async _isThrowIfNullSupported(document: TextDocument): Promise<boolean> {
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+
+        return isThrowIfNullSupported(await csprojReader?.getTargetFramework());
+    }
+
+    private async _buildSystemUsingEdits(document: TextDocument, eol: string): Promise<TextEdit[]> {
+        const csprojReader = await CsprojReader.createFromPath(document.fileName);
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+
+        return toTextEdits(document, addUsingDirectives(parseDocument(document), ['System'], globalUsings, eol));
+    }
+
+    private async _pickCtorMembers(args: ConstructorFromPropertiesArgument): Promise<CSharpPropertyDefinition[] | undefined> {
+        const candidates = [...args.properties].sort((a, b) => a.lineNumber - b.lineNumber);
+        const members = await showMemberPicker('Select the constructor members', candidates, p => p.kind === args.memberKind);
+
+        if (members && args.document.version !== args.version) {
+            Logger.error('The document changed while selecting the members, the constructor has not been generated');
+
+            return undefined;
+        }
+
+        return members;
+    }
+
+    private _getIndentation(tabSize: number, indentation: number): string {
+        return getIndentation(tabSize, indentation);
+    }
+
+    private async formatDocument(documentUri: Uri) {
+        try {
+            await formatDocument(documentUri);
+        } catch (err) {
+            Logger.error(`Error trying to format document - ${err}`);
+        }
+    }
+
+    private _buildCtorActions(document: TextDocument, editor: TextEditor, actionTitle: string, command: string, memberKind: CSharpMemberKind): Result<CodeAction> {
+        return this._findCtorDefinitionAndProperties(document, editor)
+            .AndThenSync(classDefinition => {
+                if (!classDefinition.properties.some(p => p.kind === memberKind)) {
+                    return Result.error<CodeAction>('NotFoundError', `No ${memberKind} found`);
+                }
+
+                const parameter: ConstructorFromPropertiesArgument = {
+                    properties: classDefinition.properties,
+                    classDefinition: classDefinition.classDefinition,
+                    document: document,
+                    version: document.version,
+                    memberKind,
+                };
+
+                const codeAction = new CodeAction(actionTitle, CodeActionKind.RefactorExtract);
+
+                codeAction.command = {
+                    title: codeAction.title,
+                    command,
+                    arguments: [parameter]
+                };
+
+                return Result.ok<CodeAction>(codeAction);
+            });
+    }
+
+    private _buildAddMembersToCtorAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const offset = document.offsetAt(editor.selection.active);
+        const type = findTypeAtOffset(unit, offset, CodeActionProvider.CtorTypeKinds);
+
+        if (!type) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        const constructors = type.members.filter(member => member.kind === 'constructor' && !member.modifiers.includes('static'));
+        if (!constructors.length) {
+            return Result.error<CodeAction>('NotFoundError', 'Constructor not found');
+        }
+
+        // The constructor under the cursor, otherwise the one with the most parameters
+        const constructor = constructors.find(ctor => offset >= ctor.fullStart && offset <= ctor.end)
+            ?? constructors.reduce((a, b) => b.parameters.length > a.parameters.length ? b : a);
+
+        return this._findCtorCandidates(document, unit, type)
+            .AndThenSync(classDefinition => {
+                const properties = getUninitializedMembers(unit, constructor, classDefinition.properties);
+                if (!properties.length) {
+                    return Result.error<CodeAction>('NotFoundError', 'Every member is already initialized by the constructor');
+                }
+
+                const parameter: AddMembersToConstructorArgument = {
+                    document,
+                    version: document.version,
+                    unit,
+                    constructor,
+                    properties,
+                };
+
+                const codeAction = new CodeAction('Add missing members to constructor...', CodeActionKind.RefactorRewrite);
+
+                codeAction.command = {
+                    title: codeAction.title,
+                    command: this._commandIds.addMembersToCtor,
+                    arguments: [parameter]
+                };
+
+                return Result.ok<CodeAction>(codeAction);
+            });
+    }
+
+    private _buildMembersFromCtorParametersAction(document: TextDocument, editor: TextEditor, actionTitle: string, command: string, memberKind: CSharpMemberKind): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const offset = document.offsetAt(editor.selection.active);
+        const type = findTypeAtOffset(unit, offset, CodeActionProvider.CtorTypeKinds);
+        const constructor = type ? findMemberAtOffset(type, offset, ['constructor']) : undefined;
+
+        if (!type || !constructor || constructor.modifiers.includes('static')) {
+            return Result.error<CodeAction>('NotFoundError', 'Constructor not found');
+        }
+
+        const privateMemberPrefix = workspace.getConfiguration().get('csharpextensions.privateMemberPrefix', '');
+        const parameters = getUnassignedParameters(unit, constructor, privateMemberPrefix);
+        if (!parameters.length) {
+            return Result.error<CodeAction>('NotFoundError', 'Every parameter is already assigned by the constructor');
+        }
+
+        const parameter: MembersFromConstructorParametersArgument = {
+            document,
+            version: document.version,
+            unit,
+            type,
+            constructor,
+            parameters,
+            memberKind,
+        };
+
+        const codeAction = new CodeAction(actionTitle, CodeActionKind.RefactorRewrite);
+
+        codeAction.command = {
+            title: codeAction.title,
+            command,
+            arguments: [parameter]
+        };
+
+        return Result.ok<CodeAction>(codeAction);
+    }
+
+    private _buildNullChecksAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const offset = document.offsetAt(editor.selection.active);
+        const type = findTypeAtOffset(unit, offset);
+        const member = type ? findMemberAtOffset(type, offset, ['constructor', 'method']) : undefined;
+
+        if (!type || !member?.body) {
+            return Result.error<CodeAction>('NotFoundError', 'Constructor or method not found');
+        }
+
+        const parameters = getUncheckedParameters(unit, type, member);
+        if (!parameters.length) {
+            return Result.error<CodeAction>('NotFoundError', 'Every parameter is already checked against null');
+        }
+
+        const parameter: NullChecksArgument = {
+            document,
+            version: document.version,
+            unit,
+            member,
+            parameters,
+        };
+
+        const codeAction = new CodeAction('Add null checks for parameters', CodeActionKind.RefactorRewrite);
+
+        codeAction.command = {
+            title: codeAction.title,
+            command: this._commandIds.nullChecks,
+            arguments: [parameter]
+        };
+
+        return Result.ok<CodeAction>(codeAction);
+    }
+
+    private _buildNotifyPropertyChangedAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), ['class']);
+
+        if (!type || type.modifiers.includes('static')) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        return this._findMembers(document, unit, type, member => isNotifyCandidate(type, member))
+            .AndThenSync(classDefinition => {
+                const parameter: TypeMembersArgument = {
+                    document,
+                    version: document.version,
+                    unit,
+                    type,
+                    properties: classDefinition.properties,
+                };
+
+                const codeAction = new CodeAction('Implement INotifyPropertyChanged...', CodeActionKind.RefactorRewrite);
+
+                codeAction.command = {
+                    title: codeAction.title,
+                    command: this._commandIds.notifyPropertyChanged,
+                    arguments: [parameter]
+                };
+
+                return Result.ok<CodeAction>(codeAction);
+            });
+    }
+
+    private _buildEqualityAction(document: TextDocument, editor: TextEditor, actionTitle: string, command: string, generateOperators: boolean): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.EqualityTypeKinds);
+
+        if (!type) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        const isAlreadyDefined = type.members.some(member => member.kind === 'method'
+            && ((member.name === 'GetHashCode' && !member.parameters.length)
+                || (member.name === 'Equals' && member.parameters.length === 1 && ['object', 'object?'].includes(member.parameters[0].type))));
+        if (isAlreadyDefined) {
+            return Result.error<CodeAction>('AlreadyDefinedError', 'Equals or GetHashCode is already defined');
+        }
+
+        return this._findMembers(document, unit, type, member => this._isEqualityCandidate(member))
+            .AndThenSync(classDefinition => {
+                const parameter: EqualityMembersArgument = {
+                    document,
+                    version: document.version,
+                    unit,
+                    type,
+                    properties: classDefinition.properties,
+                    generateOperators,
+                };
+
+                const codeAction = new CodeAction(actionTitle, CodeActionKind.RefactorRewrite);
+
+                codeAction.command = {
+                    title: codeAction.title,
+                    command,
+                    arguments: [parameter]
+                };
+
+                return Result.ok<CodeAction>(codeAction);
+            });
+    }
+
+    private _buildDisplayAction(document: TextDocument, editor: TextEditor, actionTitle: string, command: string, isApplicable: (type: TypeDeclaration) => boolean): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.CtorTypeKinds);
+
+        if (!type) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        if (!isApplicable(type)) {
+            return Result.error<CodeAction>('AlreadyDefinedError', `${actionTitle} is not applicable to ${type.name}`);
+        }
+
+        return this._findCtorCandidates(document, unit, type)
+            .AndThenSync(classDefinition => {
+                const parameter: TypeMembersArgument = {
+                    document,
+                    version: document.version,
+                    unit,
+                    type,
+                    properties: classDefinition.properties,
+                };
+
+                const codeAction = new CodeAction(actionTitle, CodeActionKind.RefactorRewrite);
+
+                codeAction.command = {
+                    title: codeAction.title,
+                    command,
+                    arguments: [parameter]
+                };
+
+                return Result.ok<CodeAction>(codeAction);
+            });
+    }
+
+    private async _buildRecordConversionAction(document: TextDocument, editor: TextEditor): Promise<Result<CodeAction>> {
+        const configuration = workspace.getConfiguration();
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), ['class', 'record']);
+
+        if (!type) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class or record definition not found');
+        }
+
+        const isClass = type.kind === 'class';
+        if (isClass && !await this._supportsLanguageVersion(document, RecordLanguageVersion)) {
+            return Result.error<CodeAction>('RecordConversionError', 'The project does not support records');
+        }
+
+        const conversionResult = isClass
+            ? convertClassToRecord(unit, type)
+            : convertRecordToClass(unit, type, {
+                eol: getEolSetting(configuration.get('file.eol', os.EOL)),
+                indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+                useThisForCtorAssignments: configuration.get('csharpextensions.useThisForCtorAssignments', true),
+            });
+
+        return conversionResult.AndThenSync(edits => {
+            const parameter: ConversionArgument = {
+                document,
+                version: document.version,
+                edits,
+            };
+
+            const codeAction = new CodeAction(isClass ? 'Convert to positional record' : 'Convert to class', CodeActionKind.RefactorRewrite);
+
+            codeAction.command = {
+                title: codeAction.title,
+                command: isClass ? this._commandIds.classToRecord : this._commandIds.recordToClass,
+                arguments: [parameter]
+            };
+
+            return Result.ok<CodeAction>(codeAction);
+        });
+    }
+
+    private _buildPrimaryCtorFromPropertiesAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.PrimaryCtorTypeKinds);
+
+        if (!type || type.parameters || type.modifiers.includes('static')) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        if (type.members.some(member => member.kind === 'constructor' && !member.modifiers.includes('static'))) {
+            return Result.error<CodeAction>('AlreadyDefinedError', `${type.name} already declares a constructor`);
+        }
+
+        return this._findMembers(document, unit, type, member => this._isCtorCandidate(member) && member.initializer === undefined)
+            .AndThenSync(classDefinition => {
+                const parameter: TypeMembersArgument = {
+                    document,
+                    version: document.version,
+                    unit,
+                    type,
+                    properties: classDefinition.properties,
+                };
+
+                const codeAction = new CodeAction('Initialize primary constructor from properties...', CodeActionKind.RefactorRewrite);
+
+                codeAction.command = {
+                    title: codeAction.title,
+                    command: this._commandIds.primaryCtorFromProperties,
+                    arguments: [parameter]
+                };
+
+                return Result.ok<CodeAction>(codeAction);
+            });
+    }
+
+    private _buildPrimaryCtorConversionAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const configuration = workspace.getConfiguration();
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.PrimaryCtorTypeKinds);
+
+        if (!type?.parameters) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'No primary constructor found');
+        }
+
+        const conversionResult = convertPrimaryConstructor(unit, type, {
+            eol: getEolSetting(configuration.get('file.eol', os.EOL)),
+            indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+            privateMemberPrefix: configuration.get('csharpextensions.privateMemberPrefix', ''),
+            useThisForCtorAssignments: configuration.get('csharpextensions.useThisForCtorAssignments', true),
+        });
+
+        return conversionResult.AndThenSync(edits => {
+            const parameter: ConversionArgument = {
+                document,
+                version: document.version,
+                edits,
+            };
+
+            const codeAction = new CodeAction('Convert primary constructor to regular constructor', CodeActionKind.RefactorRewrite);
+
+            codeAction.command = {
+                title: codeAction.title,
+                command: this._commandIds.primaryCtorToCtor,
+                arguments: [parameter]
+            };
+
+            return Result.ok<CodeAction>(codeAction);
+        });
+    }
+
+    private _buildPropertyConversionAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const configuration = workspace.getConfiguration();
+        const unit = parseDocument(document);
+        const offset = document.offsetAt(editor.selection.active);
+        const type = findTypeAtOffset(unit, offset, CodeActionProvider.CtorTypeKinds);
+        const property = type ? findMemberAtOffset(type, offset, ['property']) : undefined;
+
+        if (!type || !property) {
+            return Result.error<CodeAction>('NotFoundError', 'Property not found');
+        }
+
+        const isAuto = isAutoProperty(type, property);
+        const conversionResult = isAuto
+            ? expandAutoProperty(unit, type, property, {
+                eol: getEolSetting(configuration.get('file.eol', os.EOL)),
+                indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+                privateMemberPrefix: configuration.get('csharpextensions.privateMemberPrefix', ''),
+            })
+            : collapseToAutoProperty(unit, type, property);
+
+        return conversionResult.AndThenSync(edits => {
+            const parameter: ConversionArgument = {
+                document,
+                version: document.version,
+                edits,
+            };
+
+            const codeAction = new CodeAction(isAuto ? 'Convert to full property' : 'Convert to auto-property', CodeActionKind.RefactorRewrite);
+
+            codeAction.command = {
+                title: codeAction.title,
+                command: this._commandIds.propertyConversion,
+                arguments: [parameter]
+            };
+
+            return Result.ok<CodeAction>(codeAction);
+        });
+    }
+
+    private _buildMoveTypeToFileAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const configuration = workspace.getConfiguration();
+        const unit = parseDocument(document);
+        const offset = document.offsetAt(editor.selection.active);
+        const type = getExtractableTypes(unit, path.basename(document.fileName, '.cs'))
+            .find(t => offset >= t.fullStart && offset <= t.end);
+
+        if (!type) {
+            return Result.error<CodeAction>('NotFoundError', 'No type to move to its own file');
+        }
+
+        const extractionResult = extractType(unit, type, {
+            eol: getEolSetting(configuration.get('file.eol', os.EOL)),
+            indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+        });
+
+        return extractionResult.AndThenSync(extracted => {
+            const parameter: MoveTypeToFileArgument = {
+                document,
+                version: document.version,
+                typeName: type.name,
+                extracted,
+            };
+
+            const codeAction = new CodeAction(`Move type to ${type.name}.cs`, CodeActionKind.RefactorMove);
+
+            codeAction.command = {
+                title: codeAction.title,
+                command: this._commandIds.moveTypeToFile,
+                arguments: [parameter]
+            };
+
+            return Result.ok<CodeAction>(codeAction);
+        });
+    }
+
+    private _buildRenameFileToTypeAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const offset = document.offsetAt(editor.selection.active);
+        const type = getPrimaryType(unit);
+
+        if (!type || offset < type.fullStart || offset > type.end) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'The file does not declare a single type');
+        }
+
+        if (document.isUntitled || path.basename(document.fileName, '.cs') === type.name) {
+            return Result.error<CodeAction>('AlreadyDefinedError', `The file is already named after ${type.name}`);
+        }
+
+        const parameter: RenameFileToTypeArgument = {
+            document,
+            typeName: type.name,
+        };
+
+        const codeAction = new CodeAction(`Rename file to ${type.name}.cs`, CodeActionKind.RefactorRewrite);
+
+        codeAction.command = {
+            title: codeAction.title,
+            command: this._commandIds.renameFileToType,
+            arguments: [parameter]
+        };
+
+        return Result.ok<CodeAction>(codeAction);
+    }
+
+    private _buildExtractInterfaceAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.CtorTypeKinds);
+
+        if (!type) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        const interfaceName = `I${type.name}`;
+        if (type.baseTypes.some(baseType => baseType === interfaceName || baseType.startsWith(`${interfaceName}<`))) {
+            return Result.error<CodeAction>('AlreadyDefinedError', `${type.name} already implements ${interfaceName}`);
+        }
+
+        const members = getInterfaceCandidates(type);
+        if (!members.length) {
+            return Result.error<CodeAction>('NotFoundError', 'No public member found');
+        }
+
+        const parameter: ExtractInterfaceArgument = {
+            document,
+            version: document.version,
+            unit,
+            type,
+            members,
+        };
+
+        const codeAction = new CodeAction('Extract interface...', CodeActionKind.RefactorExtract);
+
+        codeAction.command = {
+            title: codeAction.title,
+            command: this._commandIds.extractInterface,
+            arguments: [parameter]
+        };
+
+        return Result.ok<CodeAction>(codeAction);
+    }
+
+    private _buildAddDependencyAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.DependencyTypeKinds);
+
+        if (!type || type.modifiers.includes('static')) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        const parameter: AddDependencyArgument = {
+            document,
+            version: document.version,
+            unit,
+            type,
+        };
+
+        const codeAction = new CodeAction('Add dependency...', CodeActionKind.RefactorRewrite);
+
+        codeAction.command = {
+            title: codeAction.title,
+            command: this._commandIds.addDependency,
+            arguments: [parameter]
+        };
+
+        return Result.ok<CodeAction>(codeAction);
+    }
+
+    private _buildBuilderFileAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.BuilderTypeKinds);
+
+        if (!type) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class or record definition not found');
+        }
+
+        // Checked upfront not to create a file for a type which can't be built
+        const membersResult = generateBuilderMembers(type, { eol: '\n', indentation: '', memberIndentation: '', privateMemberPrefix: '', useThisForCtorAssignments: false, isNested: false });
+
+        return membersResult.AndThenSync(() => {
+            const parameter: BuilderArgument = {
+                document,
+                version: document.version,
+                unit,
+                type,
+            };
+
+            const codeAction = new CodeAction(`Generate builder in ${getBuilderName(type)}.cs`, CodeActionKind.RefactorExtract);
+
+            codeAction.command = {
+                title: codeAction.title,
+                command: this._commandIds.builderFile,
+                arguments: [parameter]
+            };
+
+            return Result.ok<CodeAction>(codeAction);
+        });
+    }
+
+    private _buildNestedBuilderAction(document: TextDocument, editor: TextEditor): Result<CodeAction> {
+        const configuration = workspace.getConfiguration();
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.BuilderTypeKinds);
+
+        if (!type) {
+            return Result.error<CodeAction>('ClassNotFoundError', 'Class or record definition not found');
+        }
+
+        const builderResult = addNestedBuilder(unit, type, {
+            eol: getEolSetting(configuration.get('file.eol', os.EOL)),
+            indentation: this._getIndentation(configuration.get('editor.tabSize', 4), 1),
+            privateMemberPrefix: configuration.get('csharpextensions.privateMemberPrefix', ''),
+            useThisForCtorAssignments: configuration.get('csharpextensions.useThisForCtorAssignments', true),
+        });
+
+        return builderResult.AndThenSync(edit => {
+            const parameter: ConversionArgument = {
+                document,
+                version: document.version,
+                edits: [edit],
+            };
+
+            const codeAction = new CodeAction(`Generate nested ${getBuilderName(type)}`, CodeActionKind.RefactorRewrite);
+
+            codeAction.command = {
+                title: codeAction.title,
+                command: this._commandIds.nestedBuilder,
+                arguments: [parameter]
+            };
+
+            return Result.ok<CodeAction>(codeAction);
+        });
+    }
+
+    private _findCtorDefinitionAndProperties(document: TextDocument, editor: TextEditor): Result<CSharpClass> {
+        const unit = parseDocument(document);
+        const type = findTypeAtOffset(unit, document.offsetAt(editor.selection.active), CodeActionProvider.CtorTypeKinds);
+
+        if (!type) {
+            return Result.error<CSharpClass>('ClassNotFoundError', 'Class definition not found');
+        }
+
+        // The existing constructors are extended by "Add members to constructor" instead
+        if (type.members.some(member => member.kind === 'constructor' && !member.modifiers.includes('static'))) {
+            return Result.error<CSharpClass>('ConstructorFoundError', `${type.name} already declares a constructor`);
+        }
+
+        return this._findCtorCandidates(document, unit, type);
+    }
+
+    private _findCtorCandidates(document: TextDocument, unit: CompilationUnit, type: TypeDeclaration): Result<CSharpClass> {
+        return this._findMembers(document, unit, type, member => this._isCtorCandidate(member));
+    }
+
+    private _findMembers(document: TextDocument, unit: CompilationUnit, type: TypeDeclaration, isCandidate: (member: MemberDeclaration) => boolean): Result<CSharpClass> {
+
+        const accessibility = getAccessibility(type.modifiers);
+        const classDefinition: CSharpClassDefinition = {
+            startLine: document.positionAt(type.headerStart).line,
+            endLine: type.endLine,
+            className: type.name,
+            modifier: !accessibility || accessibility === 'file' ? 'public' : accessibility,
+            statement: unit.source.substring(type.headerStart, type.nameEnd),
+            depth: type.depth,
+        };
+
+        const properties = type.members
+            .filter(isCandidate)
+            .map<CSharpPropertyDefinition>(member => ({
+                lineNumber: document.positionAt(member.fullStart).line,
+                class: classDefinition,
+                kind: member.kind === 'field' ? 'field' : 'property',
+                modifier: getAccessibility(member.modifiers) ?? 'private',
+                type: member.type,
+                name: member.name,
+                statement: unit.source.substring(member.start, member.end),
+            }));
+
+        if (!properties.length) {
+            return Result.error<CSharpClass>('NotFoundError', 'Properties not found');
+        }
+
+        return Result.ok<CSharpClass>({ properties, classDefinition });
+    }
+
+    private _isCtorCandidate(member: MemberDeclaration): boolean {
+        if (member.modifiers.includes('static') || member.modifiers.includes('const')) {
+            return false;
+        }
+
+        if (member.kind === 'field') {
+            const accessibility = getAccessibility(member.modifiers) ?? 'private';
+
+            return accessibility === 'private' && member.modifiers.includes('readonly') && member.initializer === undefined;
+        }
+
+        const isAutoProperty = member.kind === 'property'
+            && !member.body
+            && !member.explicitInterface
+            && !member.modifiers.includes('abstract')
+            && member.accessors.every(accessor => !accessor.body);
+
+        return isAutoProperty && member.accessors.some(accessor => accessor.kind === 'get');
+    }
+
+    private _isEqualityCandidate(member: MemberDeclaration): boolean {
+        if (member.modifiers.includes('static') || member.modifiers.includes('const') || member.explicitInterface) {
+            return false;
+        }
+
+        if (member.kind === 'field') {
+            return true;
+        }
+
+        return member.kind === 'property' && (!!member.body || member.accessors.some(accessor => accessor.kind === 'get'));
+    }
+}
+
+interface ConstructorFromPropertiesArgument {
+    document: TextDocument,
+    /** The version of the document the members have been parsed from */
+    version: number,
+    classDefinition: CSharpClassDefinition,
+    properties: CSharpPropertyDefinition[],
+    memberKind: CSharpMemberKind,
+}
+
+interface ConversionArgument {
+    document: TextDocument,
+    /** The version of the document the edits have been computed from */
+    version: number,
+    edits: SourceEdit[],
+}
+
+interface MoveTypeToFileArgument {
+    document: TextDocument,
+    /** The version of the document the type has been extracted from */
+    version: number,
+    typeName: string,
+    extracted: ExtractedType,
+}
+
+interface RenameFileToTypeArgument {
+    document: TextDocument,
+    typeName: string,
+}
+
+interface ExtractInterfaceArgument {
+    document: TextDocument,
+    /** The version of the document the type has been parsed from */
+    version: number,
+    unit: CompilationUnit,
+    type: TypeDeclaration,
+    members: MemberDeclaration[],
+}
+
+interface AddDependencyArgument {
+    document: TextDocument,
+    /** The version of the document the type has been parsed from */
+    version: number,
+    unit: CompilationUnit,
+    type: TypeDeclaration,
+}
+
+interface BuilderArgument {
+    document: TextDocument,
+    /** The version of the document the type has been parsed from */
+    version: number,
+    unit: CompilationUnit,
+    type: TypeDeclaration,
+}
+
+interface TypeMembersArgument {
+    document: TextDocument,
+    /** The version of the document the type has been parsed from */
+    version: number,
+    unit: CompilationUnit,
+    type: TypeDeclaration,
+    properties: CSharpPropertyDefinition[],
+}
+
+interface EqualityMembersArgument extends TypeMembersArgument {
+    generateOperators: boolean,
+}
+
+interface MembersFromConstructorParametersArgument {
+    document: TextDocument,
+    /** The version of the document the constructor has been parsed from */
+    version: number,
+    unit: CompilationUnit,
+    type: TypeDeclaration,
+    constructor: MemberDeclaration,
+    parameters: ParameterDeclaration[],
+    memberKind: CSharpMemberKind,
+}
+
+interface NullChecksArgument {
+    document: TextDocument,
+    /** The version of the document the member has been parsed from */
+    version: number,
+    unit: CompilationUnit,
+    member: MemberDeclaration,
+    parameters: ParameterDeclaration[],
+}
+
+interface AddMembersToConstructorArgument {
+    document: TextDocument,
+    /** The version of the document the constructor has been parsed from */
+    version: number,
+    unit: CompilationUnit,
+    constructor: MemberDeclaration,
     properties: CSharpPropertyDefinition[],
-    isFileScopedNamespace: boolean,
 }
@@ -20,6 +20,8 @@ export function createExtensionMappings(): Map<string, CommandMapping> {
     mapping.set('Controller', getCommandMapping('createController', [TemplateType.Controller]));
     mapping.set('ApiController', getCommandMapping('createApiController', [TemplateType.ApiController]));
     mapping.set('Razor_Page', getCommandMapping('createRazorPage', [TemplateType.RazorPageClass, TemplateType.RazorPageTemplate]));
+    // The test framework is detected from the packages of the project
+    mapping.set('Test', getCommandMapping('createTest', []));
     mapping.set('XUnit', getCommandMapping('createXUnitTest', [TemplateType.XUnit]));
     mapping.set('NUnit', getCommandMapping('createNUnitTest', [TemplateType.NUnit]));
     mapping.set('MSTest', getCommandMapping('createMSTest', [TemplateType.MsTest]));
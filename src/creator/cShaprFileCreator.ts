@@ -1,3 +1,6 @@
+import { workspace } from 'vscode';
+import { EOL } from 'os';
+
 import { TemplateType } from '../template/templateType';
 import Template from '../template/template';
 import FileHandler from '../io/fileHandler';
@@ -7,6 +10,9 @@ import Result from '../common/result';
 import statuses from './fileCreatorStatus';
 import { ExtensionError } from '../errors/extensionError';
 import { Logger } from '../logging/log';
+import CsprojReader from '../project/csprojReader';
+import GlobalUsingFinder from '../project/globalUsings';
+import { TestOptions, TestedClass } from '../generator/testGenerator';
 
 
 export default class CSharpFileCreator {
@@ -87,4 +93,59 @@ export default class CSharpFileCreator {
     public static create(templateConfiguration: TemplateConfiguration): Result<CSharpFileCreator> {
         return Result.ok<CSharpFileCreator>(new CSharpFileCreator(templateConfiguration));
     }
+
+    /**
+     * Creates a file from a template configured by the settings of the workspace and by the project of the file
+     *
+     * @param templateType The template of the file
+     * @param templatesPath The folder containing the templates of the extension
+     * @param pathWithoutExtension The path of the file to create, without extension
+     * @param newFilename The name replacing the classname of the template
+     * @param customTemplate The custom template, for the custom template type only
+     * @param testedClass The class whose methods get a test stub, for the test templates only
+     * @param testOptions The options of the generated tests, for the test templates only
+     * @returns The created file, or the error preventing its creation
+     */
+    public static async createFromSettings(
+        templateType: TemplateType,
+        templatesPath: string,
+        pathWithoutExtension: string,
+        newFilename: string,
+        customTemplate?: CustomTemplate,
+        testedClass?: TestedClass,
+        testOptions?: TestOptions,
+    ): Promise<Result<CreatedFile>> {
+        const configuration = workspace.getConfiguration();
+        const eol = configuration.get('file.eol', EOL);
+        const usingsInclude = configuration.get('csharpextensions.usings.include', true);
+        const usingsImplicit = configuration.get('csharpextensions.usings.implicit', true);
+        const tabSize = configuration.get('editor.tabSize', 4);
+        const useSpaces = configuration.get('editor.useSpaces', true);
+        const useFileScopedNamespace = configuration.get<boolean>('csharpextensions.useFileScopedNamespace', false);
+        const csprojReader = await CsprojReader.createFromPath(`${pathWithoutExtension}.cs`);
+        const isTargetFrameworkAboveEqualNet6 = await csprojReader?.isTargetFrameworkHigherThanOrEqualToDotNet6() === true;
+        let globalUsings: string[] = [];
+        let useImplicitUsings = false;
+        if (csprojReader && isTargetFrameworkAboveEqualNet6) {
+            globalUsings = await GlobalUsingFinder.findForProject(csprojReader);
+            useImplicitUsings = usingsImplicit && await csprojReader.useImplicitUsings() === true;
+        }
+
+        return await TemplateConfiguration.create(
+            templateType,
+            eol,
+            usingsInclude,
+            useFileScopedNamespace,
+            isTargetFrameworkAboveEqualNet6,
+            useImplicitUsings,
+            globalUsings,
+            customTemplate,
+            tabSize,
+            useSpaces,
+            testedClass,
+            testOptions,
+        )
+            .AndThen(config => CSharpFileCreator.create(config)
+                .AndThen(async creator => await creator.create(templatesPath, pathWithoutExtension, newFilename)));
+    }
 }
@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import FileHandler from '../io/fileHandler';
+import { SourceEdit, getPosition } from '../generator/sourceEdit';
 
 export async function openFile(filePath: string, cursorPosition: vscode.Position | undefined): Promise<vscode.Uri> {
     const openedDoc = await vscode.workspace.openTextDocument(filePath);
@@ -32,3 +34,27 @@ export async function formatDocument(documentUri: vscode.Uri) {
         vscode.workspace.applyEdit(formatEdit);
     }
 }
+
+export function toTextEdits(document: vscode.TextDocument, edits: SourceEdit[]): vscode.TextEdit[] {
+    return edits.map(edit => new vscode.TextEdit(new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.text));
+}
+
+/**
+ * Reads the source of a file without opening it as a document,
+ * the opened documents are read from the editor since they may have unsaved changes
+ *
+ * @param uri The file to read
+ * @returns The source of the file
+ */
+export async function readSource(uri: vscode.Uri): Promise<string> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+
+    return document ? document.getText() : await FileHandler.read(uri.fsPath);
+}
+
+export function toRange(source: string, start: number, end: number): vscode.Range {
+    const startPosition = getPosition(source, start);
+    const endPosition = getPosition(source, end);
+
+    return new vscode.Range(startPosition.line, startPosition.character, endPosition.line, endPosition.character);
+}
@@ -0,0 +1,26 @@
+import { TextDocument } from 'vscode';
+
+import DeclarationParser from '../parser/declarationParser';
+import { CompilationUnit } from '../parser/declarations';
+
+let lastParsed: { uri: string, version: number, unit: CompilationUnit } | undefined;
+
+/**
+ * Parses the declarations of a C# document.
+ * The last parsed document is cached until its version changes, since every code action parses the same document.
+ *
+ * @param document The C# document
+ * @returns The parsed compilation unit
+ */
+export function parseDocument(document: TextDocument): CompilationUnit {
+    const uri = document.uri.toString();
+
+    if (lastParsed && lastParsed.uri === uri && lastParsed.version === document.version) {
+        return lastParsed.unit;
+    }
+
+    const unit = DeclarationParser.parse(document.getText());
+    lastParsed = { uri, version: document.version, unit };
+
+    return unit;
+}
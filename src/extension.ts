@@ -4,16 +4,22 @@ import * as path from 'path';
 import { EOL } from 'os';
 
 import CodeActionProvider from './codeActionProvider';
+import NamespaceStyleConverter from './namespaceStyleConverter';
+import NamespaceDiagnostics from './namespaceDiagnostics';
+import NamespaceMoveUpdater from './namespaceMoveUpdater';
+import TypeNameSynchronizer from './typeNameSynchronizer';
+import TestCreator from './testCreator';
+import UsingOrganizer from './usingOrganizer';
 import { Logger } from './logging/log';
 import CSharpFileCreator from './creator/cShaprFileCreator';
 import Maybe from './common/maybe';
 import { CommandMapping, createExtensionMappings } from './commandMapping';
-import TemplateConfiguration from './template/templateConfiguration';
-import CsprojReader from './project/csprojReader';
-import GlobalUsingFinder from './project/globalUsings';
-import { uniq } from 'lodash';
 import { formatDocument, openFile } from './document/documentAction';
 import { showMultiStepInputFilename } from './ui/createMultiStepInputFileName';
+import { pickTestFramework } from './ui/testFrameworkPicker';
+import CsprojReader from './project/csprojReader';
+import { isTestProject } from './project/testProject';
+import { TemplateType } from './template/templateType';
 
 const EXTENSION_NAME = 'csharpextensions';
 
@@ -35,10 +41,32 @@ export function activate(context: vscode.ExtensionContext): void {
         language: 'csharp',
         scheme: 'file'
     };
-    const codeActionProvider = new CodeActionProvider();
+    const templatesPath = path.join(context.extensionPath, Extension.TemplatesPath);
+    const codeActionProvider = new CodeActionProvider(templatesPath);
     const disposable = vscode.languages.registerCodeActionsProvider(documentSelector, codeActionProvider);
 
-    context.subscriptions.push(disposable);
+    context.subscriptions.push(codeActionProvider.register(), disposable);
+
+    const namespaceDiagnostics = new NamespaceDiagnostics();
+    const testCreator = new TestCreator(templatesPath);
+    const usingOrganizer = new UsingOrganizer();
+    context.subscriptions.push(
+        new NamespaceStyleConverter().register(),
+        namespaceDiagnostics.watch(),
+        vscode.languages.registerCodeActionsProvider(documentSelector, namespaceDiagnostics, {
+            providedCodeActionKinds: NamespaceDiagnostics.ProvidedCodeActionKinds,
+        }),
+        new NamespaceMoveUpdater().watch(),
+        new TypeNameSynchronizer().watch(),
+        testCreator.register(),
+        vscode.languages.registerCodeActionsProvider(documentSelector, testCreator, {
+            providedCodeActionKinds: TestCreator.ProvidedCodeActionKinds,
+        }),
+        usingOrganizer.register(),
+        vscode.languages.registerCodeActionsProvider(documentSelector, usingOrganizer, {
+            providedCodeActionKinds: UsingOrganizer.ProvidedCodeActionKinds,
+        }),
+    );
 }
 
 export function deactivate(): void {
@@ -135,47 +163,18 @@ export class Extension {
         const templatesPath = path.join(extension.extensionPath, Extension.TemplatesPath);
         const pathWithoutExtension = `${incomingPath}${path.sep}${newFilename}`;
 
-        const { templates } = mapping;
-        const eol = configuration.get('file.eol', EOL);
-        const usingsInclude = configuration.get(`${EXTENSION_NAME}.usings.include`, true);
-        const usingsImplicit = configuration.get(`${EXTENSION_NAME}.usings.implicit`, true);
-        const tabSize = configuration.get('editor.tabSize', 4);
-        const useSpaces = configuration.get('editor.useSpaces', true);
-        const useFileScopedNamespace = configuration.get<boolean>(`${EXTENSION_NAME}.useFileScopedNamespace`, false);
-        const csprojReader = await CsprojReader.createFromPath(`${pathWithoutExtension}.cs`);
-        const isTargetFrameworkAboveEqualNet6 = await csprojReader?.isTargetFrameworkHigherThanOrEqualToDotNet6() === true;
-        let globalUsings: string[] = [];
-        let useImplicitUsings = false;
-        if (csprojReader && isTargetFrameworkAboveEqualNet6) {
-            const frameworkVersion = (await csprojReader.getTargetFramework()) as string;
-            const globalUsingsResult = await GlobalUsingFinder.find(csprojReader.getFilePath(), frameworkVersion);
-            if (globalUsingsResult.isOk()) {
-                globalUsings = globalUsingsResult.value();
+        let { templates } = mapping;
+        if (mapping.command === 'createTest') {
+            const template = await this._resolveTestTemplate(pathWithoutExtension);
+            if (template === undefined) {
+                return;
             }
 
-            useImplicitUsings = usingsImplicit && await csprojReader.useImplicitUsings() === true;
-
-            const namespaceInclude = await csprojReader.getUsingsInclude();
-            const namespaceRemove = await csprojReader.getUsingsRemove();
-            globalUsings.push(...namespaceInclude);
-            globalUsings = uniq(globalUsings).filter(gu => !namespaceRemove.includes(gu));
+            templates = [template];
         }
 
         const createdFilesResult = await Promise.all(templates.map(async template => {
-            return TemplateConfiguration.create(
-                template,
-                eol,
-                usingsInclude,
-                useFileScopedNamespace,
-                isTargetFrameworkAboveEqualNet6,
-                useImplicitUsings,
-                globalUsings,
-                customTemplate,
-                tabSize,
-                useSpaces,
-            )
-                .AndThen(config => CSharpFileCreator.create(config)
-                    .AndThen(async creator => await creator.create(templatesPath, pathWithoutExtension, newFilename)));
+            return await CSharpFileCreator.createFromSettings(template, templatesPath, pathWithoutExtension, newFilename, customTemplate);
         }));
 
         if (createdFilesResult.some(result => result.isErr())) {
@@ -210,7 +209,21 @@ export class Extension {
         }));
     }
 
-    private static TemplatesPath = 'templates';
+    private async _resolveTestTemplate(pathWithoutExtension: string): Promise<TemplateType | undefined> {
+        const csprojReader = await CsprojReader.createFromPath(`${pathWithoutExtension}.cs`);
+        const packageNames = await csprojReader?.getPackageReferences() ?? [];
+        const projectName = csprojReader ? path.basename(csprojReader.getFilePath()) : path.basename(pathWithoutExtension);
+
+        if (!csprojReader) {
+            vscode.window.showWarningMessage(`${path.basename(pathWithoutExtension)} is not created in a project`);
+        } else if (!isTestProject(packageNames)) {
+            vscode.window.showWarningMessage(`${projectName} is not a test project, it references neither the test SDK nor a test framework`);
+        }
+
+        return await pickTestFramework(projectName, packageNames);
+    }
+
+    public static readonly TemplatesPath = 'templates';
     private static KnownCommands: Map<string, CommandMapping>;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private static CurrentVscodeExtension: vscode.Extension<any> | undefined = undefined;
@@ -0,0 +1,161 @@
+import Result from '../common/result';
+import { getAccessibility } from '../parser/declarationFinder';
+import { CompilationUnit, MemberDeclaration, ParameterDeclaration, TypeDeclaration } from '../parser/declarations';
+import { getAssignmentTarget, getMemberName, getParameterName } from './naming';
+import { getBackingFieldName } from './propertyConverter';
+import { SourceEdit, getLineIndentation } from './sourceEdit';
+import { appendMembersToType } from './typeGenerator';
+
+export interface BuilderOptions {
+    eol: string,
+    /** A single indentation level */
+    indentation: string,
+    /** The indentation of the members of the builder */
+    memberIndentation: string,
+    privateMemberPrefix: string,
+    useThisForCtorAssignments: boolean,
+    /** Whether the builder is nested in the built type, the private constructors being accessible */
+    isNested: boolean,
+}
+
+interface BuilderMember {
+    /** The name of the property, used for the `With` method */
+    name: string,
+    type: string,
+    fieldName: string,
+}
+
+/**
+ * Retrieves the name of the builder of a type, i.e. `OrderBuilder` for `Order`
+ *
+ * @param type The built type
+ * @returns The name of the builder
+ */
+export function getBuilderName(type: TypeDeclaration): string {
+    return `${type.name}Builder`;
+}
+
+/**
+ * Generates the members of a fluent builder: a private field and a `With{Property}` method per property,
+ * and a `Build()` method calling the widest accessible constructor, the other settable properties
+ * being set by an object initializer.
+ *
+ * @param type The built class or record
+ * @param options The generation options
+ * @returns The members of the builder, already indented, an error if the type can't be built
+ */
+export function generateBuilderMembers(type: TypeDeclaration, options: BuilderOptions): Result<string[]> {
+    if (!['class', 'record'].includes(type.kind) || type.modifiers.includes('static') || type.modifiers.includes('abstract')) {
+        return Result.error<string[]>('BuilderGenerationError', `${type.name} can't be instantiated`);
+    }
+
+    const constructors = type.members.filter(member => member.kind === 'constructor' && !member.modifiers.includes('static'));
+    const accessibleConstructors = constructors.filter(constructor => options.isNested || !['private', 'protected'].includes(getAccessibility(constructor.modifiers) ?? 'private'));
+    if (constructors.length && !accessibleConstructors.length) {
+        return Result.error<string[]>('BuilderGenerationError', `${type.name} has no accessible constructor`);
+    }
+
+    const constructorParameters = type.parameters
+        ?? accessibleConstructors.reduce<ParameterDeclaration[]>((widest, constructor) => constructor.parameters.length > widest.length ? constructor.parameters : widest, []);
+    const properties = type.members.filter(member => _isBuildableProperty(member));
+    const constructorArguments = new Array<string>();
+    const members = new Array<BuilderMember>();
+    const addMember = (name: string, memberType: string) => {
+        const member = { name, type: memberType, fieldName: getBackingFieldName(name, options.privateMemberPrefix) };
+        members.push(member);
+
+        return member;
+    };
+
+    for (const parameter of constructorParameters) {
+        const property = properties.find(p => getParameterName(p.name, '') === getParameterName(parameter.name.replace(/^@/, ''), ''));
+        const member = addMember(property?.name ?? getMemberName(parameter.name, 'property', ''), parameter.type);
+
+        constructorArguments.push(`${parameter.modifiers.includes('params') ? '' : parameter.modifiers.map(modifier => `${modifier} `).join('')}${member.fieldName}`);
+    }
+
+    const initializers = properties
+        .filter(property => _isSettable(property) && !members.some(member => member.name === property.name))
+        .map(property => `${property.name} = ${addMember(property.name, property.type).fieldName}`);
+
+    if (!members.length) {
+        return Result.error<string[]>('BuilderGenerationError', `${type.name} has no property to build`);
+    }
+
+    const { eol, indentation, memberIndentation } = options;
+    const builderName = getBuilderName(type);
+    const typeName = type.typeParameters ? `${type.name}<${type.typeParameters}>` : type.name;
+    const builderTypeName = type.typeParameters && !options.isNested ? `${builderName}<${type.typeParameters}>` : builderName;
+
+    const fields = members.map(member => `${memberIndentation}private ${member.type} ${member.fieldName};`).join(eol);
+    const withMethods = members.map(member => {
+        const parameterName = getParameterName(member.name, '');
+
+        return [
+            `${memberIndentation}public ${builderTypeName} With${member.name}(${member.type} ${parameterName})`,
+            `${memberIndentation}{`,
+            `${memberIndentation}${indentation}${getAssignmentTarget(member.fieldName, parameterName, options.useThisForCtorAssignments)} = ${parameterName};`,
+            '',
+            `${memberIndentation}${indentation}return this;`,
+            `${memberIndentation}}`,
+        ].join(eol);
+    });
+
+    const initializer = initializers.length ? ` { ${initializers.join(', ')} }` : '';
+    const creation = constructorArguments.length || !initializer ? `new ${typeName}(${constructorArguments.join(', ')})${initializer}` : `new ${typeName}${initializer}`;
+    const build = [
+        `${memberIndentation}public ${typeName} Build()`,
+        `${memberIndentation}{`,
+        `${memberIndentation}${indentation}return ${creation};`,
+        `${memberIndentation}}`,
+    ].join(eol);
+
+    return Result.ok<string[]>([fields, ...withMethods, build]);
+}
+
+/**
+ * Builds the edit declaring the builder of a type as a nested class, appended to the members of the type
+ *
+ * @param unit The parsed compilation unit
+ * @param type The built class or record
+ * @param options The generation options, the member indentation being computed from the type
+ * @returns The edit to apply to the source, an error if the type can't be built
+ */
+export function addNestedBuilder(unit: CompilationUnit, type: TypeDeclaration, options: Omit<BuilderOptions, 'memberIndentation' | 'isNested'>): Result<SourceEdit> {
+    const { eol, indentation } = options;
+    const builderName = getBuilderName(type);
+    if (type.types.some(nestedType => nestedType.name === builderName) || type.members.some(member => member.name === builderName)) {
+        return Result.error<SourceEdit>('BuilderGenerationError', `${type.name} already declares ${builderName}`);
+    }
+
+    const classIndentation = `${getLineIndentation(unit.source, type.headerStart)}${indentation}`;
+    const membersResult = generateBuilderMembers(type, { ...options, memberIndentation: `${classIndentation}${indentation}`, isNested: true });
+
+    return membersResult.AndThenSync(members => {
+        const builder = [
+            `${classIndentation}public class ${builderName}`,
+            `${classIndentation}{`,
+            members.join(`${eol}${eol}`),
+            `${classIndentation}}`,
+        ].join(eol);
+        const edit = appendMembersToType(unit, type, [builder], eol);
+
+        return edit
+            ? Result.ok<SourceEdit>(edit)
+            : Result.error<SourceEdit>('BuilderGenerationError', `${type.name} has no body`);
+    });
+}
+
+// The instance properties which can be read, i.e. the data of the type
+function _isBuildableProperty(member: MemberDeclaration): boolean {
+    return member.kind === 'property'
+        && !member.explicitInterface
+        && !member.modifiers.includes('static')
+        && getAccessibility(member.modifiers) === 'public'
+        && !member.body
+        && member.accessors.some(accessor => accessor.kind === 'get');
+}
+
+function _isSettable(property: MemberDeclaration): boolean {
+    return property.accessors.some(accessor => ['set', 'init'].includes(accessor.kind) && !getAccessibility(accessor.modifiers));
+}
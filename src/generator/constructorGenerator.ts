@@ -0,0 +1,243 @@
+import { getAssignedMembers } from '../parser/declarationFinder';
+import { CompilationUnit, MemberDeclaration, ParameterDeclaration, TypeDeclaration } from '../parser/declarations';
+import { TokenKind } from '../parser/tokenizer';
+import { getAssignmentTarget, getMemberName, getParameterName } from './naming';
+import { SourceEdit, getLineIndentation, getLineStart } from './sourceEdit';
+
+export interface ConstructorMember {
+    name: string,
+    type: string,
+    /** The name of the parameter assigned to the member, derived from the member name when undefined */
+    parameterName?: string,
+}
+
+export interface ConstructorGenerationOptions {
+    eol: string,
+    /** A single indentation level */
+    indentation: string,
+    privateMemberPrefix: string,
+    useThisForCtorAssignments: boolean,
+}
+
+/**
+ * Filters the members which are not assigned within the body of the constructor
+ *
+ * @param unit The parsed compilation unit
+ * @param constructor The existing constructor
+ * @param members The candidate members
+ * @returns The members not initialized by the constructor
+ */
+export function getUninitializedMembers<T extends ConstructorMember>(unit: CompilationUnit, constructor: MemberDeclaration, members: T[]): T[] {
+    if (!constructor.body) {
+        return members;
+    }
+
+    const assignedMembers = getAssignedMembers(unit, constructor.body);
+
+    return members.filter(member => !assignedMembers.includes(member.name));
+}
+
+/**
+ * Builds the edits appending the parameters and the assignments of the members to an existing constructor.
+ * Block bodies get the new assignments at their end, expression bodies get their deconstruction extended
+ * or are converted to block bodies when they are not an assignment.
+ *
+ * @param unit The parsed compilation unit
+ * @param constructor The existing constructor
+ * @param members The members to add to the constructor
+ * @param options The generation options
+ * @returns The edits to apply to the source
+ */
+export function addMembersToConstructor(unit: CompilationUnit, constructor: MemberDeclaration, members: ConstructorMember[], options: ConstructorGenerationOptions): SourceEdit[] {
+    const edits = new Array<SourceEdit>();
+    const { source } = unit;
+    const getName = (member: ConstructorMember) => member.parameterName ?? getParameterName(member.name, options.privateMemberPrefix);
+    const assignments = members.map(member => {
+        const parameterName = getName(member);
+
+        return { target: getAssignmentTarget(member.name, parameterName, options.useThisForCtorAssignments), parameterName };
+    });
+
+    const newParameters = members
+        .filter(member => !constructor.parameters.some(p => p.name === getName(member)))
+        .map(member => `${member.type} ${getName(member)}`);
+
+    if (newParameters.length && constructor.parameterListEnd !== undefined) {
+        edits.push(_buildParametersEdit(source, constructor, newParameters, options.eol));
+    }
+
+    const body = constructor.body;
+    if (!body || !assignments.length) {
+        return edits;
+    }
+
+    const constructorIndentation = getLineIndentation(source, constructor.nameStart);
+    const statementIndentation = `${constructorIndentation}${options.indentation}`;
+    const statements = assignments.map(({ target, parameterName }) => `${statementIndentation}${target} = ${parameterName};`);
+
+    if (body.kind === 'block') {
+        const closeBrace = body.end - 1;
+        const closeBraceLineStart = getLineStart(source, closeBrace);
+
+        if (source.substring(closeBraceLineStart, closeBrace).trim() === '') {
+            edits.push({ start: closeBraceLineStart, end: closeBraceLineStart, text: `${statements.join(options.eol)}${options.eol}` });
+        } else {
+            const contentEnd = closeBraceLineStart + source.substring(closeBraceLineStart, closeBrace).trimEnd().length;
+            edits.push({ start: contentEnd, end: closeBrace, text: `${options.eol}${statements.join(options.eol)}${options.eol}${constructorIndentation}` });
+        }
+
+        return edits;
+    }
+
+    const expressionTokens = unit.tokens.filter(token => token.start > body.start && token.end <= body.end);
+    const semicolon = expressionTokens[expressionTokens.length - 1];
+    const expressionEnd = semicolon?.text === ';' ? semicolon.start : body.end;
+    const expressionStart = expressionTokens[0]?.start ?? body.end;
+
+    let depth = 0;
+    const assignmentToken = expressionTokens.find(token => {
+        if (token.kind !== TokenKind.Punctuation) {
+            return false;
+        }
+
+        if (['(', '[', '{'].includes(token.text)) {
+            depth++;
+        } else if ([')', ']', '}'].includes(token.text)) {
+            depth--;
+        }
+
+        return depth === 0 && token.text === '=';
+    });
+
+    if (assignmentToken) {
+        const left = _unwrapParentheses(source.substring(expressionStart, assignmentToken.start).trim());
+        const right = _unwrapParentheses(source.substring(assignmentToken.end, expressionEnd).trim());
+        const targets = [left, ...assignments.map(a => a.target)].join(', ');
+        const values = [right, ...assignments.map(a => a.parameterName)].join(', ');
+
+        edits.push({ start: expressionStart, end: expressionEnd, text: `(${targets}) = (${values})` });
+
+        return edits;
+    }
+
+    const previousToken = unit.tokens.filter(token => token.end <= body.start).pop();
+    const blockStart = previousToken?.end ?? body.start;
+    const expression = source.substring(expressionStart, expressionEnd).trim();
+    const eol = options.eol;
+    const block = `${eol}${constructorIndentation}{${eol}${statementIndentation}${expression};${eol}${statements.join(eol)}${eol}${constructorIndentation}}`;
+
+    edits.push({ start: blockStart, end: body.end, text: block });
+
+    return edits;
+}
+
+/**
+ * Filters the parameters of a constructor which are not assigned to a member within its body
+ *
+ * @param unit The parsed compilation unit
+ * @param constructor The constructor
+ * @param privateMemberPrefix The configured prefix of the private members
+ * @returns The parameters without member
+ */
+export function getUnassignedParameters(unit: CompilationUnit, constructor: MemberDeclaration, privateMemberPrefix: string): ParameterDeclaration[] {
+    const assignedMembers = constructor.body ? getAssignedMembers(unit, constructor.body) : [];
+
+    return constructor.parameters.filter(parameter => !parameter.modifiers.includes('out')
+        && !assignedMembers.some(member => getParameterName(member, privateMemberPrefix) === parameter.name.replace(/^@/, '')));
+}
+
+/**
+ * Builds the edits declaring a get-only property or a `private readonly` field for each parameter of a constructor,
+ * and assigning them within the constructor. The members already declared are only assigned.
+ * The new members follow the members of the same kind declared before the constructor, or precede the constructor.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type declaring the constructor
+ * @param constructor The constructor
+ * @param parameters The parameters to assign
+ * @param kind The kind of the members
+ * @param options The generation options
+ * @returns The edits to apply to the source
+ */
+export function addMembersFromParameters(
+    unit: CompilationUnit,
+    type: TypeDeclaration,
+    constructor: MemberDeclaration,
+    parameters: ParameterDeclaration[],
+    kind: CSharpMemberKind,
+    options: ConstructorGenerationOptions,
+): SourceEdit[] {
+    const { source } = unit;
+    const { eol } = options;
+    const members = parameters.map(parameter => ({
+        name: getMemberName(parameter.name, kind, options.privateMemberPrefix),
+        type: parameter.type,
+        parameterName: parameter.name,
+    }));
+    const indentation = getLineIndentation(source, constructor.nameStart);
+    const declarations = members
+        .filter(member => !type.members.some(m => m.name === member.name))
+        .map(member => kind === 'property'
+            ? `${indentation}public ${member.type} ${member.name} { get; }`
+            : `${indentation}private readonly ${member.type} ${member.name};`);
+
+    const edits = new Array<SourceEdit>();
+    if (declarations.length) {
+        const previousMembers = type.members.filter(member => member.kind === kind && member.end <= constructor.fullStart && !member.modifiers.includes('static'));
+        const previousMember = previousMembers[previousMembers.length - 1];
+        const start = previousMember
+            ? source.indexOf('\n', previousMember.end) + 1
+            : getLineStart(source, constructor.fullStart);
+
+        edits.push({ start, end: start, text: `${declarations.join(eol)}${eol}${previousMember ? '' : eol}` });
+    }
+
+    edits.push(...addMembersToConstructor(unit, constructor, members, options));
+
+    return edits;
+}
+
+function _buildParametersEdit(source: string, constructor: MemberDeclaration, newParameters: string[], eol: string): SourceEdit {
+    const closeParenthesis = (constructor.parameterListEnd as number) - 1;
+    const lastParameter = constructor.parameters[constructor.parameters.length - 1];
+
+    if (!lastParameter) {
+        return { start: closeParenthesis, end: closeParenthesis, text: newParameters.join(', ') };
+    }
+
+    // Required parameters can't follow the optional and `params` ones
+    const firstOptionalParameter = constructor.parameters.find(parameter => parameter.defaultValue !== undefined || parameter.modifiers.includes('params'));
+    const anchor = firstOptionalParameter ?? lastParameter;
+
+    // Parameters on their own lines are kept aligned with their neighbour
+    const anchorLineStart = getLineStart(source, anchor.start);
+    const isMultiline = anchorLineStart > (constructor.parameterListStart ?? 0);
+    const separator = isMultiline
+        ? `,${eol}${source.substring(anchorLineStart, anchor.start).replace(/\S/g, ' ')}`
+        : ', ';
+
+    return firstOptionalParameter
+        ? { start: anchor.start, end: anchor.start, text: `${newParameters.join(separator)}${separator}` }
+        : { start: anchor.end, end: anchor.end, text: `${separator}${newParameters.join(separator)}` };
+}
+
+function _unwrapParentheses(text: string): string {
+    if (!text.startsWith('(') || !text.endsWith(')')) {
+        return text;
+    }
+
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '(') {
+            depth++;
+        } else if (text[i] === ')') {
+            depth--;
+            if (depth === 0 && i < text.length - 1) {
+                // The first parenthesis is closed before the end, i.e. `(a).B = (b).C`
+                return text;
+            }
+        }
+    }
+
+    return text.substring(1, text.length - 1);
+}
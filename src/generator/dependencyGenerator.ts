@@ -0,0 +1,139 @@
+import Result from '../common/result';
+import { CompilationUnit, TypeDeclaration } from '../parser/declarations';
+import { ConstructorGenerationOptions, addMembersToConstructor } from './constructorGenerator';
+import { camelize, getAssignmentTarget, getParameterName } from './naming';
+import { SourceEdit, getLineIndentation } from './sourceEdit';
+import { prependMembersToType } from './typeGenerator';
+
+/** The namespaces of the dependencies commonly injected from the framework packages */
+const WellKnownNamespaces: Record<string, string> = {
+    ILogger: 'Microsoft.Extensions.Logging',
+    ILoggerFactory: 'Microsoft.Extensions.Logging',
+    IOptions: 'Microsoft.Extensions.Options',
+    IOptionsMonitor: 'Microsoft.Extensions.Options',
+    IOptionsSnapshot: 'Microsoft.Extensions.Options',
+    IConfiguration: 'Microsoft.Extensions.Configuration',
+    IMemoryCache: 'Microsoft.Extensions.Caching.Memory',
+    IDistributedCache: 'Microsoft.Extensions.Caching.Distributed',
+    IHttpClientFactory: 'System.Net.Http',
+};
+
+/**
+ * Retrieves the name of a type without namespace, type arguments nor nullability, i.e. `ILogger` for `ILogger<Foo>?`
+ *
+ * @param dependencyType The type of the dependency
+ * @returns The simple name of the type
+ */
+export function getSimpleTypeName(dependencyType: string): string {
+    return dependencyType.trim().replace(/\?$/, '').replace(/<.*$/, '').split('.').pop()?.trim() ?? '';
+}
+
+/**
+ * Retrieves the namespace of the framework types commonly injected, i.e. `Microsoft.Extensions.Logging` for `ILogger<Foo>`
+ *
+ * @param dependencyType The type of the dependency
+ * @returns The namespace of the type, undefined if unknown
+ */
+export function getWellKnownNamespace(dependencyType: string): string | undefined {
+    return WellKnownNamespaces[getSimpleTypeName(dependencyType)];
+}
+
+/**
+ * Retrieves the name of the field holding a dependency, i.e. `_orderService` for `IOrderService` when the prefix is `_`
+ *
+ * @param dependencyType The type of the dependency
+ * @param privateMemberPrefix The configured prefix of the private members
+ * @returns The name of the field
+ */
+export function getDependencyFieldName(dependencyType: string, privateMemberPrefix: string): string {
+    const name = getSimpleTypeName(dependencyType);
+    const baseName = /^I[A-Z]/.test(name) ? name.substring(1) : name;
+
+    return `${privateMemberPrefix}${camelize(baseName)}`;
+}
+
+/**
+ * Builds the edits injecting a dependency through the constructor of a type: a `private readonly` field,
+ * and its parameter and assignment in the constructor with the most parameters, created if the type has none.
+ * The types declaring a primary constructor get the parameter there, the field being initialized from it.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The class or struct receiving the dependency
+ * @param dependencyType The type of the dependency, i.e. `ILogger<Foo>`
+ * @param options The generation options
+ * @returns The edits to apply to the source
+ */
+export function addDependency(unit: CompilationUnit, type: TypeDeclaration, dependencyType: string, options: ConstructorGenerationOptions): Result<SourceEdit[]> {
+    const { source } = unit;
+    const { eol } = options;
+    const fieldName = getDependencyFieldName(dependencyType, options.privateMemberPrefix);
+    const parameterName = getParameterName(fieldName, options.privateMemberPrefix);
+
+    if (type.openBrace === undefined || type.closeBrace === undefined) {
+        return Result.error<SourceEdit[]>('DependencyInjectionError', `${type.name} has no body`);
+    }
+
+    if (type.members.some(member => member.name === fieldName) || type.parameters?.some(parameter => parameter.name === parameterName)) {
+        return Result.error<SourceEdit[]>('DependencyInjectionError', `${type.name} already declares ${fieldName}`);
+    }
+
+    const memberIndentation = `${getLineIndentation(source, type.headerStart)}${options.indentation}`;
+    const edits = new Array<SourceEdit>();
+    const members = new Array<string>();
+
+    if (type.parameters && type.parameterListEnd !== undefined) {
+        const closeParenthesis = type.parameterListEnd - 1;
+        const separator = type.parameters.length ? ', ' : '';
+        // Required parameters can't follow the optional and `params` ones
+        const firstOptionalParameter = type.parameters.find(parameter => parameter.defaultValue !== undefined || parameter.modifiers.includes('params'));
+
+        members.push(`${memberIndentation}private readonly ${dependencyType} ${fieldName} = ${parameterName};`);
+        edits.push(firstOptionalParameter
+            ? { start: firstOptionalParameter.start, end: firstOptionalParameter.start, text: `${dependencyType} ${parameterName}, ` }
+            : { start: closeParenthesis, end: closeParenthesis, text: `${separator}${dependencyType} ${parameterName}` });
+    } else {
+        members.push(`${memberIndentation}private readonly ${dependencyType} ${fieldName};`);
+
+        const constructors = type.members.filter(member => member.kind === 'constructor' && !member.modifiers.includes('static'));
+        if (constructors.length) {
+            const constructor = constructors.reduce((a, b) => b.parameters.length > a.parameters.length ? b : a);
+
+            edits.push(...addMembersToConstructor(unit, constructor, [{ name: fieldName, type: dependencyType }], options));
+        } else {
+            const accessibility = type.modifiers.includes('abstract') ? 'protected' : 'public';
+            const target = getAssignmentTarget(fieldName, parameterName, options.useThisForCtorAssignments);
+
+            members.push([
+                `${memberIndentation}${accessibility} ${type.name}(${dependencyType} ${parameterName})`,
+                `${memberIndentation}{`,
+                `${memberIndentation}${options.indentation}${target} = ${parameterName};`,
+                `${memberIndentation}}`,
+            ].join(eol));
+        }
+    }
+
+    const fields = type.members.filter(member => member.kind === 'field');
+    const lastField = fields[fields.length - 1];
+    const lastFieldLineEnd = lastField ? source.indexOf('\n', lastField.end) : -1;
+
+    if (lastFieldLineEnd < 0 || lastFieldLineEnd >= type.closeBrace) {
+        const membersEdit = prependMembersToType(unit, type, members, eol);
+        if (membersEdit) {
+            edits.push(membersEdit);
+        }
+
+        return Result.ok<SourceEdit[]>(edits);
+    }
+
+    // The field joins the existing ones, the constructor being separated from the surrounding members by an empty line
+    const start = lastFieldLineEnd + 1;
+    const followingLine = source.substring(start, source.indexOf('\n', start) < 0 ? source.length : source.indexOf('\n', start)).trim();
+    const [field, constructor] = members;
+    const text = constructor
+        ? `${field}${eol}${eol}${constructor}${eol}${followingLine && !followingLine.startsWith('}') ? eol : ''}`
+        : `${field}${eol}`;
+
+    edits.push({ start, end: start, text });
+
+    return Result.ok<SourceEdit[]>(edits);
+}
@@ -0,0 +1,45 @@
+export interface DisplayMember {
+    name: string,
+}
+
+export interface DisplayGenerationOptions {
+    eol: string,
+    /** The indentation of the generated members */
+    memberIndentation: string,
+    /** A single indentation level */
+    indentation: string,
+}
+
+/**
+ * Generates a `ToString` override listing the members, i.e. `Foo { Id = 1, Name = Bar }`
+ *
+ * @param typeName The name of the type
+ * @param members The members to display
+ * @param options The generation options
+ * @returns The generated method
+ */
+export function generateToString(typeName: string, members: DisplayMember[], options: DisplayGenerationOptions): string {
+    const { eol, memberIndentation, indentation } = options;
+    const content = members.length ? ` {{ ${_buildPairs(members)} }}` : '';
+
+    return [
+        `${memberIndentation}public override string ToString()`,
+        `${memberIndentation}{`,
+        `${memberIndentation}${indentation}return $"${typeName}${content}";`,
+        `${memberIndentation}}`,
+    ].join(eol);
+}
+
+/**
+ * Generates a `DebuggerDisplay` attribute listing the members, i.e. `[DebuggerDisplay("Id = {Id}")]`
+ *
+ * @param members The members to display
+ * @returns The generated attribute
+ */
+export function generateDebuggerDisplay(members: DisplayMember[]): string {
+    return `[DebuggerDisplay("${_buildPairs(members)}")]`;
+}
+
+function _buildPairs(members: DisplayMember[]): string {
+    return members.map(member => `${member.name} = {${member.name}}`).join(', ');
+}
@@ -0,0 +1,125 @@
+export interface EqualityMember {
+    name: string,
+    type: string,
+}
+
+export interface EqualityGenerationOptions {
+    eol: string,
+    /** The indentation of the generated members */
+    memberIndentation: string,
+    /** A single indentation level */
+    indentation: string,
+    /** Whether `System.HashCode` is available in the target framework */
+    useHashCode: boolean,
+    generateOperators: boolean,
+}
+
+export interface GeneratedMembers {
+    members: string[],
+    /** The namespaces required by the generated members */
+    namespaces: string[],
+}
+
+const ValueTypeKeywords = [
+    'bool', 'byte', 'sbyte', 'char', 'decimal', 'double', 'float', 'int', 'uint', 'nint', 'nuint', 'long', 'ulong', 'short', 'ushort',
+];
+
+/** `HashCode.Combine` accepts up to eight values */
+const MaxHashCodeCombineValues = 8;
+
+/**
+ * Generates the `Equals(object)`, `IEquatable<T>.Equals` and `GetHashCode` overrides comparing the given members,
+ * plus the `==` and `!=` operators when requested
+ *
+ * @param typeName The name of the type, type parameters included
+ * @param isValueType Whether the type is a struct
+ * @param members The members to compare
+ * @param options The generation options
+ * @returns The generated members and the namespaces they require
+ */
+export function generateEqualityMembers(typeName: string, isValueType: boolean, members: EqualityMember[], options: EqualityGenerationOptions): GeneratedMembers {
+    const comparisons = members.map(member => _isValueTypeKeyword(member.type) || member.type === 'string'
+        ? `${member.name} == other.${member.name}`
+        : `EqualityComparer<${member.type}>.Default.Equals(${member.name}, other.${member.name})`);
+
+    const generated = [
+        _buildMethod('public override bool Equals(object obj)', [
+            isValueType ? `return obj is ${typeName} other && Equals(other);` : `return Equals(obj as ${typeName});`,
+        ], options),
+        _buildMethod(`public bool Equals(${typeName} other)`, _buildReturn(isValueType ? comparisons : ['!ReferenceEquals(other, null)', ...comparisons], isValueType ? 'true' : 'false', options), options),
+        _buildMethod('public override int GetHashCode()', _buildHashCodeStatements(members, options), options),
+    ];
+
+    if (options.generateOperators) {
+        generated.push(
+            _buildMethod(`public static bool operator ==(${typeName} left, ${typeName} right)`, [
+                isValueType ? 'return left.Equals(right);' : `return EqualityComparer<${typeName}>.Default.Equals(left, right);`,
+            ], options),
+            _buildMethod(`public static bool operator !=(${typeName} left, ${typeName} right)`, [
+                'return !(left == right);',
+            ], options),
+        );
+    }
+
+    const namespaces = ['System'];
+    if (generated.some(member => member.includes('EqualityComparer<'))) {
+        namespaces.push('System.Collections.Generic');
+    }
+
+    return { members: generated, namespaces };
+}
+
+function _isValueTypeKeyword(type: string): boolean {
+    return ValueTypeKeywords.includes(type);
+}
+
+function _buildReturn(conditions: string[], emptyValue: string, options: EqualityGenerationOptions): string[] {
+    if (!conditions.length) {
+        return [`return ${emptyValue};`];
+    }
+
+    const [first, ...others] = conditions;
+
+    return [
+        `return ${first}${others.length ? '' : ';'}`,
+        ...others.map((condition, index) => `${options.indentation}&& ${condition}${index === others.length - 1 ? ';' : ''}`),
+    ];
+}
+
+function _buildHashCodeStatements(members: EqualityMember[], options: EqualityGenerationOptions): string[] {
+    const { indentation } = options;
+
+    if (!members.length) {
+        return ['return 0;'];
+    }
+
+    if (options.useHashCode && members.length <= MaxHashCodeCombineValues) {
+        return [`return HashCode.Combine(${members.map(member => member.name).join(', ')});`];
+    }
+
+    if (options.useHashCode) {
+        return [
+            'var hash = new HashCode();',
+            ...members.map(member => `hash.Add(${member.name});`),
+            'return hash.ToHashCode();',
+        ];
+    }
+
+    return [
+        'unchecked',
+        '{',
+        `${indentation}int hashCode = 17;`,
+        ...members.map(member => `${indentation}hashCode = hashCode * 23 + ${_isValueTypeKeyword(member.type)
+            ? `${member.name}.GetHashCode()`
+            : `EqualityComparer<${member.type}>.Default.GetHashCode(${member.name})`};`),
+        `${indentation}return hashCode;`,
+        '}',
+    ];
+}
+
+function _buildMethod(signature: string, statements: string[], options: EqualityGenerationOptions): string {
+    const { eol, memberIndentation, indentation } = options;
+    const body = statements.map(statement => `${memberIndentation}${indentation}${statement}`).join(eol);
+
+    return `${memberIndentation}${signature}${eol}${memberIndentation}{${eol}${body}${eol}${memberIndentation}}`;
+}
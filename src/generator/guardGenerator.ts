@@ -0,0 +1,223 @@
+import Result from '../common/result';
+import { getAllTypes } from '../parser/declarationFinder';
+import { CompilationUnit, MemberDeclaration, ParameterDeclaration, TypeDeclaration } from '../parser/declarations';
+import { TokenKind } from '../parser/tokenizer';
+import { SourceEdit, getLineIndentation } from './sourceEdit';
+
+export interface NullCheckOptions {
+    eol: string,
+    /** A single indentation level */
+    indentation: string,
+    /** Whether `ArgumentNullException.ThrowIfNull` is available, i.e. .NET 6 or later */
+    useThrowIfNull: boolean,
+}
+
+/** The value types of the framework commonly used as parameters, without namespace */
+const ValueTypes = [
+    'bool', 'byte', 'sbyte', 'char', 'decimal', 'double', 'float', 'int', 'uint', 'nint', 'nuint', 'long', 'ulong', 'short', 'ushort',
+    'Boolean', 'Byte', 'SByte', 'Char', 'Decimal', 'Double', 'Single', 'Int16', 'Int32', 'Int64', 'UInt16', 'UInt32', 'UInt64', 'IntPtr', 'UIntPtr',
+    'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan', 'Guid', 'CancellationToken',
+    'Span', 'ReadOnlySpan', 'Memory', 'ReadOnlyMemory', 'KeyValuePair', 'ValueTuple', 'ValueTask', 'Nullable',
+];
+
+/** The reference types of the framework commonly used as parameters, without namespace */
+const ReferenceTypes = [
+    'string', 'object', 'dynamic', 'String', 'Object', 'Exception', 'Uri', 'Type', 'Stream', 'Action', 'Func', 'Task',
+    'List', 'Dictionary', 'HashSet', 'Queue', 'Stack', 'StringBuilder', 'HttpClient',
+];
+
+/**
+ * Whether a type is known to be a reference type, i.e. a framework class, an array, an interface following
+ * the `I` prefix convention or a class, record or interface of the file. The throw expressions only compile with them.
+ *
+ * @param type The type of the parameter
+ * @param referenceTypes The names of the classes, records and interfaces of the file
+ * @returns If the type is known to be a reference type
+ */
+export function isReferenceType(type: string, referenceTypes: string[] = []): boolean {
+    const trimmed = type.trim();
+    if (trimmed.endsWith('[]')) {
+        return true;
+    }
+
+    const name = trimmed.replace(/<.*$/, '').split('.').pop()?.trim() ?? '';
+
+    return ReferenceTypes.includes(name) || referenceTypes.includes(name) || /^I[A-Z]/.test(name);
+}
+
+/**
+ * Whether a parameter of the given type can be null and should be checked, i.e. not a value type nor annotated as nullable
+ *
+ * @param type The type of the parameter
+ * @param valueTypes The other names known to be value types, i.e. the type parameters or the structs and enums of the file
+ * @returns If the parameter should be checked against null
+ */
+export function isNullCheckable(type: string, valueTypes: string[] = []): boolean {
+    const trimmed = type.trim();
+    if (!trimmed || trimmed.endsWith('?') || trimmed.startsWith('(') || trimmed.endsWith('*')) {
+        return false;
+    }
+
+    const name = trimmed.replace(/<.*$/, '').split('.').pop()?.trim() ?? '';
+
+    return !ValueTypes.includes(name) && !valueTypes.includes(name);
+}
+
+/**
+ * Generates the statement throwing an `ArgumentNullException` when a parameter is null
+ *
+ * @param parameterName The name of the parameter
+ * @param useThrowIfNull Whether `ArgumentNullException.ThrowIfNull` is available
+ * @returns The guard statement
+ */
+export function generateNullCheck(parameterName: string, useThrowIfNull: boolean): string {
+    return useThrowIfNull
+        ? `ArgumentNullException.ThrowIfNull(${parameterName});`
+        : `_ = ${generateThrowExpression(parameterName)};`;
+}
+
+/**
+ * Generates the expression returning a parameter, throwing an `ArgumentNullException` when it is null
+ *
+ * @param parameterName The name of the parameter
+ * @returns The throw expression, i.e. `name ?? throw new ArgumentNullException(nameof(name))`
+ */
+export function generateThrowExpression(parameterName: string): string {
+    return `${parameterName} ?? throw new ArgumentNullException(nameof(${parameterName}))`;
+}
+
+/**
+ * Retrieves the names of the types of the file which can't be null, the structs and enums along with the type parameters of a member
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type declaring the member
+ * @param member The member, a constructor or a method
+ * @returns The names of the value types and type parameters
+ */
+export function getValueTypeNames(unit: CompilationUnit, type: TypeDeclaration, member?: MemberDeclaration): string[] {
+    // Type parameters without `class` constraint may be value types
+    const typeParameters = [type.typeParameters, member?.typeParameters ?? '']
+        .flatMap(typeParameters => typeParameters.split(','))
+        .map(typeParameter => typeParameter.trim().replace(/^(in|out)\s+/, ''))
+        .filter(typeParameter => typeParameter);
+    const structs = getAllTypes(unit)
+        .filter(t => ['struct', 'enum', 'record struct'].includes(t.kind))
+        .map(t => t.name);
+
+    return [...typeParameters, ...structs];
+}
+
+/**
+ * Retrieves the names of the types of the file which are reference types, the classes, records and interfaces
+ *
+ * @param unit The parsed compilation unit
+ * @returns The names of the reference types
+ */
+export function getReferenceTypeNames(unit: CompilationUnit): string[] {
+    return getAllTypes(unit)
+        .filter(t => ['class', 'record', 'interface'].includes(t.kind))
+        .map(t => t.name);
+}
+
+/**
+ * Filters the parameters of a constructor or method which can be null and are not checked yet by its body,
+ * the parameters defaulting to `null` or `default` excepted
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type declaring the member
+ * @param member The constructor or method
+ * @returns The parameters to check
+ */
+export function getUncheckedParameters(unit: CompilationUnit, type: TypeDeclaration, member: MemberDeclaration): ParameterDeclaration[] {
+    const valueTypes = getValueTypeNames(unit, type, member);
+    const checked = member.body ? _getCheckedNames(unit, member.body.start, member.body.end) : [];
+
+    // The optional parameters defaulting to null are meant to be omitted
+    return member.parameters.filter(parameter => !parameter.modifiers.includes('out')
+        && !parameter.modifiers.includes('this')
+        && !['null', 'default'].includes(parameter.defaultValue?.trim() ?? '')
+        && !checked.includes(parameter.name)
+        && isNullCheckable(parameter.type, valueTypes));
+}
+
+/**
+ * Builds the edits checking the parameters of a constructor or method against null at the beginning of its body.
+ * Expression bodies are converted to block bodies. Without `ThrowIfNull`, only the parameters known to be reference types are checked.
+ *
+ * @param unit The parsed compilation unit
+ * @param member The constructor or method
+ * @param parameters The parameters to check
+ * @param options The generation options
+ * @returns The edits to apply to the source, an error if the member has no body
+ */
+export function addNullChecks(unit: CompilationUnit, member: MemberDeclaration, parameters: ParameterDeclaration[], options: NullCheckOptions): Result<SourceEdit[]> {
+    const { body } = member;
+    if (!body) {
+        return Result.error<SourceEdit[]>('NullCheckError', `${member.name} has no body`);
+    }
+
+    // `??` doesn't compile with the value types, i.e. the structs and enums declared in other files
+    const referenceTypes = getReferenceTypeNames(unit);
+    const checkedParameters = options.useThrowIfNull ? parameters : parameters.filter(parameter => isReferenceType(parameter.type, referenceTypes));
+    if (!checkedParameters.length) {
+        return Result.error<SourceEdit[]>('NullCheckError', `${member.name} has no parameter to check`);
+    }
+
+    const { source } = unit;
+    const { eol, indentation } = options;
+    const memberIndentation = getLineIndentation(source, member.headerStart);
+    const bodyIndentation = `${memberIndentation}${indentation}`;
+    const checks = checkedParameters.map(parameter => `${bodyIndentation}${generateNullCheck(parameter.name, options.useThrowIfNull)}`).join(eol);
+
+    if (body.kind === 'expression') {
+        const expression = source.substring(body.start + 2, body.end - 1).trim();
+        const isAsync = member.modifiers.includes('async');
+        const returnsValue = member.kind === 'method' && member.type !== 'void' && !(isAsync && /^(System\.Threading\.Tasks\.)?(Value)?Task$/.test(member.type));
+        const start = unit.tokens.filter(token => token.end <= body.start).pop()?.end ?? body.start;
+        const block = [
+            `${memberIndentation}{`,
+            checks,
+            '',
+            `${bodyIndentation}${returnsValue ? 'return ' : ''}${expression};`,
+            `${memberIndentation}}`,
+        ].join(eol);
+
+        return Result.ok<SourceEdit[]>([{ start, end: body.end, text: `${eol}${block}` }]);
+    }
+
+    const content = source.substring(body.start + 1, body.end - 1);
+    const lineEnd = source.indexOf('\n', body.start);
+
+    if (!content.trim()) {
+        return Result.ok<SourceEdit[]>([{ start: body.start + 1, end: body.end - 1, text: `${eol}${checks}${eol}${memberIndentation}` }]);
+    }
+
+    if (lineEnd >= 0 && lineEnd < body.end && !source.substring(body.start + 1, lineEnd).trim()) {
+        return Result.ok<SourceEdit[]>([{ start: lineEnd + 1, end: lineEnd + 1, text: `${checks}${eol}${eol}` }]);
+    }
+
+    // The opening brace shares its line with some code, i.e. `{ Save(name); }`
+    const contentStart = body.start + 1 + content.length - content.trimStart().length;
+
+    return Result.ok<SourceEdit[]>([{ start: body.start + 1, end: contentStart, text: `${eol}${checks}${eol}${eol}${bodyIndentation}` }]);
+}
+
+// The parameters already checked, i.e. `ThrowIfNull(name)`, `nameof(name)`, `name == null` or `name is null`
+function _getCheckedNames(unit: CompilationUnit, start: number, end: number): string[] {
+    const tokens = unit.tokens.filter(token => token.start >= start && token.end <= end);
+    const checked = new Set<string>();
+
+    tokens.forEach((token, index) => {
+        if (token.kind !== TokenKind.Identifier) {
+            return;
+        }
+
+        if (['ThrowIfNull', 'nameof'].includes(token.text) && tokens[index + 1]?.text === '(' && tokens[index + 2]?.kind === TokenKind.Identifier) {
+            checked.add(tokens[index + 2].text);
+        } else if (['==', 'is', '??'].includes(tokens[index + 1]?.text ?? '') && ['null', 'throw'].includes(tokens[index + 2]?.text ?? '')) {
+            checked.add(token.text);
+        }
+    });
+
+    return Array.from(checked);
+}
@@ -0,0 +1,60 @@
+import { getAccessibility } from '../parser/declarationFinder';
+import { CompilationUnit, MemberDeclaration, TypeDeclaration } from '../parser/declarations';
+
+/**
+ * Retrieves the members of a type which can be declared by an interface,
+ * the public instance methods, properties, indexers and events
+ *
+ * @param type The type to extract the interface from
+ * @returns The candidate members in declaration order
+ */
+export function getInterfaceCandidates(type: TypeDeclaration): MemberDeclaration[] {
+    return type.members.filter(member => {
+        if (getAccessibility(member.modifiers) !== 'public' || member.modifiers.includes('static') || member.explicitInterface) {
+            return false;
+        }
+
+        if (member.kind === 'property' || member.kind === 'indexer') {
+            return !!member.body || member.accessors.some(accessor => !getAccessibility(accessor.modifiers));
+        }
+
+        return member.kind === 'method' || member.kind === 'event';
+    });
+}
+
+/**
+ * Generates the interface declaration of a member, i.e. `string Name { get; }` for `public string Name { get; private set; }`
+ *
+ * @param unit The parsed compilation unit
+ * @param member The member to declare
+ * @returns The declaration of the member
+ */
+export function generateInterfaceMember(unit: CompilationUnit, member: MemberDeclaration): string {
+    const { source } = unit;
+    const parameterList = member.parameterListStart !== undefined && member.parameterListEnd !== undefined
+        ? source.substring(member.parameterListStart, member.parameterListEnd)
+        : '';
+
+    switch (member.kind) {
+        case 'event':
+            return `event ${member.type} ${member.name};`;
+        case 'property':
+        case 'indexer': {
+            const accessors = member.body
+                ? ['get']
+                : member.accessors.filter(accessor => !getAccessibility(accessor.modifiers)).map(accessor => accessor.kind);
+            const name = member.kind === 'indexer' ? `this${parameterList}` : member.name;
+
+            return `${member.type} ${name} { ${accessors.map(accessor => `${accessor};`).join(' ')} }`;
+        }
+        default: {
+            const typeParameters = member.typeParameters ? `<${member.typeParameters}>` : '';
+            const constraintsEnd = member.body?.start ?? member.end;
+            const constraints = member.parameterListEnd !== undefined
+                ? source.substring(member.parameterListEnd, constraintsEnd).trim().replace(/;$/, '').trim()
+                : '';
+
+            return `${member.type} ${member.name}${typeParameters}${parameterList}${constraints ? ` ${constraints}` : ''};`;
+        }
+    }
+}
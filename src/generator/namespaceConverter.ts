@@ -0,0 +1,163 @@
+import Result from '../common/result';
+import { CompilationUnit } from '../parser/declarations';
+import { Token, TokenKind } from '../parser/tokenizer';
+import { SourceEdit, getLineStart } from './sourceEdit';
+
+export interface NamespaceConversionOptions {
+    eol: string,
+    /** The size of a tab, used to remove an indentation level made of spaces */
+    tabSize: number,
+    /** A single indentation level */
+    indentation: string,
+}
+
+/**
+ * Builds the edits converting the block scoped namespace of a file to a file scoped one.
+ * The content of the namespace is unindented by one level, whatever the indentation is made of.
+ *
+ * @param unit The parsed compilation unit
+ * @param options The conversion options
+ * @returns The edits to apply to the source, an error if the file doesn't contain a single block scoped namespace
+ */
+export function convertToFileScopedNamespace(unit: CompilationUnit, options: NamespaceConversionOptions): Result<SourceEdit[]> {
+    const namespace = unit.namespaces[0];
+
+    if (!namespace || namespace.isFileScoped) {
+        return Result.error<SourceEdit[]>('NamespaceConversionError', 'No block scoped namespace found');
+    }
+
+    if (unit.namespaces.length > 1 || namespace.namespaces.length || unit.types.length) {
+        return Result.error<SourceEdit[]>('NamespaceConversionError', 'A file scoped namespace must be the only declaration of the file');
+    }
+
+    if (namespace.openBrace === undefined || namespace.closeBrace === undefined) {
+        return Result.error<SourceEdit[]>('NamespaceConversionError', 'The braces of the namespace are unbalanced');
+    }
+
+    const { source } = unit;
+    const { eol } = options;
+    const edits = new Array<SourceEdit>();
+
+    const contentStart = _getNextLineStart(source, namespace.openBrace);
+    const hasLeadingEmptyLine = source.substring(contentStart, _getNextLineStart(source, contentStart)).trim() === '';
+    edits.push({ start: namespace.nameEnd, end: contentStart, text: `;${eol}${hasLeadingEmptyLine ? '' : eol}` });
+
+    const closeBraceLineStart = getLineStart(source, namespace.closeBrace);
+    const contentEnd = closeBraceLineStart > contentStart && source.substring(closeBraceLineStart, namespace.closeBrace).trim() === ''
+        ? closeBraceLineStart
+        : namespace.closeBrace;
+
+    const multilineStrings = _getMultilineStrings(unit);
+    _getLineStarts(source, contentStart, contentEnd)
+        .filter(lineStart => !multilineStrings.some(token => token.start < lineStart && lineStart < token.end))
+        .forEach(lineStart => {
+            const indentationLength = _getIndentationLevelLength(source, lineStart, options.tabSize);
+            if (indentationLength) {
+                edits.push({ start: lineStart, end: lineStart + indentationLength, text: '' });
+            }
+        });
+
+    const afterCloseBrace = source.substring(namespace.closeBrace + 1, _getLineEnd(source, namespace.closeBrace));
+    const closeBraceEnd = afterCloseBrace.trim() === '' && contentEnd === closeBraceLineStart
+        ? _getNextLineStart(source, namespace.closeBrace)
+        : namespace.closeBrace + 1;
+    // Without end of line after the closing brace, the end of line of the last line is removed too
+    const removalStart = closeBraceEnd === source.length && contentEnd === closeBraceLineStart && !source.endsWith('\n')
+        ? contentEnd - (source.substring(0, contentEnd).endsWith('\r\n') ? 2 : 1)
+        : contentEnd;
+    edits.push({ start: removalStart, end: closeBraceEnd, text: '' });
+
+    return Result.ok<SourceEdit[]>(edits);
+}
+
+/**
+ * Builds the edits converting the file scoped namespace of a file to a block scoped one.
+ * The content of the namespace is indented by one level.
+ *
+ * @param unit The parsed compilation unit
+ * @param options The conversion options
+ * @returns The edits to apply to the source, an error if the file doesn't contain a file scoped namespace
+ */
+export function convertToBlockScopedNamespace(unit: CompilationUnit, options: NamespaceConversionOptions): Result<SourceEdit[]> {
+    const namespace = unit.namespaces[0];
+
+    if (!namespace?.isFileScoped) {
+        return Result.error<SourceEdit[]>('NamespaceConversionError', 'No file scoped namespace found');
+    }
+
+    const semicolon = unit.tokens.find(token => token.start >= namespace.nameEnd && token.text === ';');
+    if (!semicolon) {
+        return Result.error<SourceEdit[]>('NamespaceConversionError', 'The namespace declaration is incomplete');
+    }
+
+    const { source } = unit;
+    const { eol, indentation } = options;
+    const edits = new Array<SourceEdit>();
+
+    // The empty lines following the declaration are replaced by the opening brace
+    const contentStart = _getLineStarts(source, _getNextLineStart(source, semicolon.start), source.length)
+        .find(lineStart => source.substring(lineStart, _getLineEnd(source, lineStart)).trim() !== '') ?? source.length;
+    const contentEnd = contentStart + source.substring(contentStart).trimEnd().length;
+    edits.push({ start: namespace.nameEnd, end: contentStart, text: `${eol}{${eol}${contentStart < contentEnd ? indentation : ''}` });
+
+    const multilineStrings = _getMultilineStrings(unit);
+    _getLineStarts(source, contentStart, contentEnd)
+        .filter(lineStart => lineStart !== contentStart)
+        .filter(lineStart => !multilineStrings.some(token => token.start < lineStart && lineStart < token.end))
+        .filter(lineStart => source.substring(lineStart, _getLineEnd(source, lineStart)).trim() !== '')
+        .forEach(lineStart => edits.push({ start: lineStart, end: lineStart, text: indentation }));
+
+    const hasTrailingEol = /\r?\n\s*$/.test(source.substring(contentEnd));
+    edits.push({ start: contentEnd, end: source.length, text: `${eol}}${hasTrailingEol ? eol : ''}` });
+
+    return Result.ok<SourceEdit[]>(edits);
+}
+
+function _getLineEnd(source: string, offset: number): number {
+    const lineEnd = source.indexOf('\n', offset);
+
+    if (lineEnd < 0) {
+        return source.length;
+    }
+
+    return source[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+}
+
+function _getNextLineStart(source: string, offset: number): number {
+    const lineEnd = source.indexOf('\n', offset);
+
+    return lineEnd < 0 ? source.length : lineEnd + 1;
+}
+
+function _getLineStarts(source: string, start: number, end: number): number[] {
+    const lineStarts = new Array<number>();
+
+    for (let lineStart = start; lineStart < end; lineStart = _getNextLineStart(source, lineStart)) {
+        lineStarts.push(lineStart);
+    }
+
+    return lineStarts;
+}
+
+/** The lines within verbatim and raw string literals are part of the string value and must be kept as they are */
+function _getMultilineStrings(unit: CompilationUnit): Token[] {
+    return unit.tokens.filter(token => token.kind === TokenKind.StringLiteral && token.text.includes('\n'));
+}
+
+function _getIndentationLevelLength(source: string, lineStart: number, tabSize: number): number {
+    if (source[lineStart] === '\t') {
+        return 1;
+    }
+
+    let length = 0;
+    while (length < tabSize && source[lineStart + length] === ' ') {
+        length++;
+    }
+
+    // A tab following less spaces than a tab size completes the indentation level
+    if (length < tabSize && source[lineStart + length] === '\t') {
+        length++;
+    }
+
+    return length;
+}
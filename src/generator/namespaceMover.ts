@@ -0,0 +1,175 @@
+import * as path from 'path';
+
+import { getAllNamespaces } from '../parser/declarationFinder';
+import { CompilationUnit, NamespaceDeclaration, UsingDirective } from '../parser/declarations';
+import { TokenKind } from '../parser/tokenizer';
+import { SourceEdit, getLineStart } from './sourceEdit';
+import { addUsingDirectives } from './usingGenerator';
+
+export interface NamespaceMove {
+    oldNamespace: string,
+    newNamespace: string,
+    /** Names of the types moved from the old namespace to the new one */
+    typeNames: string[],
+}
+
+export interface NamespaceUpdateOptions {
+    eol: string,
+    /** The namespaces imported for the whole project */
+    globalUsings: string[],
+}
+
+/**
+ * Retrieves the namespace declaration which follows the file location,
+ * files declaring several or nested namespaces are organized on purpose and never moved
+ *
+ * @param unit The parsed compilation unit
+ * @returns The only namespace declared by the file, undefined otherwise
+ */
+export function getMovableNamespace(unit: CompilationUnit): NamespaceDeclaration | undefined {
+    if (unit.namespaces.length !== 1 || unit.namespaces[0].namespaces.length) {
+        return undefined;
+    }
+
+    return unit.namespaces[0];
+}
+
+/**
+ * Computes the namespace of a file moved to another folder of its project, the folders below the project
+ * being replaced at the end of its namespace. The new folder doesn't need to exist yet, i.e. while a folder is renamed.
+ *
+ * @param namespace The namespace of the file, following its old folder
+ * @param oldFilePath The path of the file before the move
+ * @param newFilePath The path of the file after the move
+ * @param rootFolder The folder of the project of the file
+ * @returns The new namespace, undefined if the namespace doesn't follow the old folder or the file leaves the project
+ */
+export function getMovedNamespace(namespace: string, oldFilePath: string, newFilePath: string, rootFolder: string): string | undefined {
+    const getFolders = (filePath: string) => {
+        const relativePath = path.relative(rootFolder, path.dirname(filePath));
+        const isOutside = relativePath.startsWith('..') || path.isAbsolute(relativePath);
+
+        return isOutside ? undefined : relativePath.split(path.sep).filter(folder => folder !== '');
+    };
+    const oldFolders = getFolders(oldFilePath);
+    const newFolders = getFolders(newFilePath);
+    if (!oldFolders || !newFolders) {
+        return undefined;
+    }
+
+    const segments = namespace.split('.');
+    const rootSegments = segments.slice(0, segments.length - oldFolders.length);
+    if (segments.slice(rootSegments.length).join('.') !== oldFolders.join('.')) {
+        return undefined;
+    }
+
+    return [...rootSegments, ...newFolders].join('.');
+}
+
+/**
+ * Retrieves the namespace following the folder of a file within its project
+ *
+ * @param rootNamespace The root namespace of the project
+ * @param filePath The path of the file
+ * @param rootFolder The folder of the project of the file
+ * @returns The root namespace followed by the folders of the file, undefined if the file is out of the project
+ */
+export function getFolderNamespace(rootNamespace: string, filePath: string, rootFolder: string): string | undefined {
+    const relativePath = path.relative(rootFolder, path.dirname(filePath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return undefined;
+    }
+
+    return [rootNamespace, ...relativePath.split(path.sep).filter(folder => folder !== '')].join('.');
+}
+
+/**
+ * Builds the edits keeping a file consistent once some types moved to other namespaces.
+ * The using directives of the namespaces left without types are renamed, the other namespaces
+ * are imported when the file references their types and doesn't see them anymore.
+ *
+ * @param unit The parsed compilation unit
+ * @param moves The namespace moves of the project
+ * @param remainingTypes The names of the types left in each namespace of the project
+ * @param newNamespace The namespace the file itself is moved to, undefined when it keeps its namespace
+ * @param options The end of line and the global usings of the project
+ * @returns The edits to apply to the source
+ */
+export function updateNamespaceReferences(
+    unit: CompilationUnit,
+    moves: NamespaceMove[],
+    remainingTypes: Map<string, string[]>,
+    newNamespace: string | undefined,
+    options: NamespaceUpdateOptions,
+): SourceEdit[] {
+    const edits = new Array<SourceEdit>();
+    const oldNamespaces = getAllNamespaces(unit).map(namespace => namespace.name);
+    let movedUnit = unit;
+
+    const movableNamespace = getMovableNamespace(unit);
+    if (newNamespace !== undefined && movableNamespace && movableNamespace.name !== newNamespace) {
+        edits.push({ start: movableNamespace.nameStart, end: movableNamespace.nameEnd, text: newNamespace });
+        movedUnit = { ...unit, namespaces: [{ ...movableNamespace, name: newNamespace }] };
+    }
+
+    const newNamespaces = getAllNamespaces(movedUnit).map(namespace => namespace.name);
+    const usings = [...unit.usings, ...getAllNamespaces(unit).flatMap(namespace => namespace.usings)]
+        .filter(using => !using.alias && !using.isStatic)
+        .sort((a, b) => a.start - b.start);
+    const renameNamespace = (namespace: string) => remainingTypes.get(namespace)?.length
+        ? namespace
+        : moves.find(move => move.oldNamespace === namespace)?.newNamespace ?? namespace;
+
+    const importedNamespaces = new Set(usings.filter(using => renameNamespace(using.name) === using.name).map(using => using.name));
+    usings.filter(using => renameNamespace(using.name) !== using.name).forEach(using => {
+        const namespace = renameNamespace(using.name);
+
+        if (importedNamespaces.has(namespace) || _isNamespaceVisible(newNamespaces, namespace)) {
+            edits.push(_removeUsingDirective(unit, using));
+        } else {
+            edits.push(_renameUsingDirective(unit, using, namespace));
+            importedNamespaces.add(namespace);
+        }
+    });
+    options.globalUsings.forEach(namespace => importedNamespaces.add(renameNamespace(namespace)));
+
+    const referencedNames = new Set(unit.tokens.filter(token => token.kind === TokenKind.Identifier).map(token => token.text));
+    const isReferenced = (typeNames: string[]) => typeNames.some(typeName => referencedNames.has(typeName));
+    const wasVisible = (namespace: string) => _isNamespaceVisible(oldNamespaces, namespace)
+        || usings.some(using => using.name === namespace)
+        || options.globalUsings.includes(namespace);
+
+    const requiredNamespaces = moves
+        .filter(move => isReferenced(move.typeNames) && wasVisible(move.oldNamespace))
+        .map(move => move.newNamespace);
+    remainingTypes.forEach((typeNames, namespace) => {
+        if (_isNamespaceVisible(oldNamespaces, namespace) && isReferenced(typeNames)) {
+            requiredNamespaces.push(namespace);
+        }
+    });
+
+    const missingNamespaces = requiredNamespaces
+        .filter(namespace => !importedNamespaces.has(namespace) && !_isNamespaceVisible(newNamespaces, namespace));
+    edits.push(...addUsingDirectives(movedUnit, missingNamespaces, [], options.eol));
+
+    return edits;
+}
+
+// The code of a namespace sees the types of its parent namespaces without using directive
+function _isNamespaceVisible(declaredNamespaces: string[], namespace: string): boolean {
+    return declaredNamespaces.some(declared => declared === namespace || declared.startsWith(`${namespace}.`));
+}
+
+function _renameUsingDirective(unit: CompilationUnit, using: UsingDirective, namespace: string): SourceEdit {
+    const tokens = unit.tokens.filter(token => token.start >= using.start && token.end <= using.end);
+    const nameStart = tokens[tokens.findIndex(token => token.text === 'using') + 1].start;
+    const nameEnd = tokens[tokens.length - 1].text === ';' ? tokens[tokens.length - 1].start : using.end;
+
+    return { start: nameStart, end: nameEnd, text: namespace };
+}
+
+function _removeUsingDirective(unit: CompilationUnit, using: UsingDirective): SourceEdit {
+    const lineBreak = /^[ \t]*\r?\n/.exec(unit.source.substring(using.end))?.[0] ?? '';
+
+    return { start: getLineStart(unit.source, using.start), end: using.end + lineBreak.length, text: '' };
+}
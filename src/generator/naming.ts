@@ -0,0 +1,80 @@
+export function camelize(str: string): string {
+    return str.replace(/(?:^\w|[A-Z]|\b\w|\s+)/g, function (match, index) {
+        if (+match === 0) return ''; // or if (/\s+/.test(match)) for white spaces
+
+        return index === 0 ? match.toLowerCase() : match.toUpperCase();
+    });
+}
+
+/**
+ * Retrieves the parameter name for a member, i.e. `logger` for the field `_logger` when the prefix is `_`
+ *
+ * @param memberName The name of the property or field
+ * @param privateMemberPrefix The configured prefix of the private members
+ * @returns The camel case name without prefix
+ */
+export function getParameterName(memberName: string, privateMemberPrefix: string): string {
+    let name = memberName;
+    if (privateMemberPrefix && name.startsWith(privateMemberPrefix) && name.length > privateMemberPrefix.length) {
+        name = name.substring(privateMemberPrefix.length);
+    }
+
+    return camelize(name);
+}
+
+/**
+ * Retrieves the member name for a parameter, the inverse of `getParameterName`,
+ * i.e. `Logger` for a property or `_logger` for a field when the prefix is `_`
+ *
+ * @param parameterName The name of the parameter
+ * @param kind The kind of the member
+ * @param privateMemberPrefix The configured prefix of the private members
+ * @returns The pascal case name of the property, or the prefixed name of the field
+ */
+export function getMemberName(parameterName: string, kind: CSharpMemberKind, privateMemberPrefix: string): string {
+    const name = parameterName.replace(/^@/, '');
+
+    if (kind === 'field') {
+        // Without prefix, the keywords stay escaped
+        return privateMemberPrefix ? `${privateMemberPrefix}${name}` : parameterName;
+    }
+
+    return `${name.charAt(0).toUpperCase()}${name.substring(1)}`;
+}
+
+/**
+ * Retrieves the left side of the assignment of a member from a parameter
+ *
+ * @param memberName The name of the property or field
+ * @param parameterName The name of the parameter assigned to the member
+ * @param useThisForCtorAssignments Whether the member should be prefixed with `this.`
+ * @returns The member, prefixed with `this.` when configured
+ */
+export function getAssignmentTarget(memberName: string, parameterName: string, useThisForCtorAssignments: boolean): string {
+    // Without `this.` a member named like its parameter would be assigned to itself
+    if (useThisForCtorAssignments || memberName === parameterName) {
+        return `this.${memberName}`;
+    }
+
+    return memberName;
+}
+
+/**
+ * Whether the name is a valid namespace, i.e. dot separated identifiers
+ *
+ * @param name The namespace name
+ * @returns If the name can be used as a namespace
+ */
+export function isValidNamespace(name: string): boolean {
+    return /^@?[\p{L}_][\p{L}\p{N}_]*(\.@?[\p{L}_][\p{L}\p{N}_]*)*$/u.test(name);
+}
+
+/**
+ * Whether the name is a valid type name, i.e. a single identifier
+ *
+ * @param name The type name
+ * @returns If the name can be used as a type name
+ */
+export function isValidTypeName(name: string): boolean {
+    return /^@?[\p{L}_][\p{L}\p{N}_]*$/u.test(name);
+}
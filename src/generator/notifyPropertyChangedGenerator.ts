@@ -0,0 +1,156 @@
+import Result from '../common/result';
+import { CompilationUnit, MemberDeclaration, TypeDeclaration } from '../parser/declarations';
+import { getBackingFieldName, isAutoProperty } from './propertyConverter';
+import { SourceEdit, getLineIndentation, getLineStart } from './sourceEdit';
+import { addBaseType, appendMembersToType } from './typeGenerator';
+
+export interface NotifyPropertyChangedOptions {
+    eol: string,
+    /** A single indentation level */
+    indentation: string,
+    privateMemberPrefix: string,
+    /** Whether the nullable reference types are annotated */
+    nullable: boolean,
+}
+
+export interface NotifyPropertyChangedEdits {
+    edits: SourceEdit[],
+    /** The namespaces the generated code needs */
+    namespaces: string[],
+}
+
+const InterfaceName = 'INotifyPropertyChanged';
+const EventName = 'PropertyChanged';
+const HelperName = 'OnPropertyChanged';
+
+/**
+ * Whether an auto-property can raise change notifications, i.e. an instance auto-property with a setter
+ *
+ * @param type The class declaring the property
+ * @param member The member
+ * @returns If the member can be converted to a property raising `PropertyChanged`
+ */
+export function isNotifyCandidate(type: TypeDeclaration, member: MemberDeclaration): boolean {
+    return isAutoProperty(type, member)
+        && !member.modifiers.includes('static')
+        && member.accessors.some(accessor => accessor.kind === 'set');
+}
+
+/**
+ * Builds the edits implementing `INotifyPropertyChanged`: the interface, the `PropertyChanged` event and the `OnPropertyChanged` helper
+ * when they are not declared yet, and the conversion of the given auto-properties to properties raising a notification when their value changes.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The class implementing the interface
+ * @param properties The auto-properties raising notifications
+ * @param options The generation options
+ * @returns The edits to apply to the source and the namespaces to import, an error if there is nothing to implement
+ */
+export function implementNotifyPropertyChanged(
+    unit: CompilationUnit,
+    type: TypeDeclaration,
+    properties: MemberDeclaration[],
+    options: NotifyPropertyChangedOptions,
+): Result<NotifyPropertyChangedEdits> {
+    if (type.kind !== 'class' || type.modifiers.includes('static')) {
+        return Result.error<NotifyPropertyChangedEdits>('NotifyPropertyChangedError', `${type.name} is not a class`);
+    }
+
+    if (properties.some(property => !isNotifyCandidate(type, property))) {
+        return Result.error<NotifyPropertyChangedEdits>('NotifyPropertyChangedError', 'Only the auto-properties with a setter can raise notifications');
+    }
+
+    const conflicting = properties
+        .map(property => getBackingFieldName(property.name, options.privateMemberPrefix))
+        .find(fieldName => type.members.some(member => member.name === fieldName));
+    if (conflicting) {
+        return Result.error<NotifyPropertyChangedEdits>('NotifyPropertyChangedError', `${type.name} already declares ${conflicting}`);
+    }
+
+    const { eol, indentation, nullable } = options;
+    const memberIndentation = `${getLineIndentation(unit.source, type.headerStart)}${indentation}`;
+    const edits = new Array<SourceEdit>();
+    const namespaces = new Array<string>();
+
+    const isImplemented = type.baseTypes.some(baseType => baseType.replace(/^System\.ComponentModel\./, '') === InterfaceName);
+    if (!isImplemented) {
+        edits.push(addBaseType(unit, type, InterfaceName));
+    }
+
+    const members = new Array<string>();
+    if (!type.members.some(member => member.kind === 'event' && member.name === EventName)) {
+        members.push(`${memberIndentation}public event PropertyChangedEventHandler${nullable ? '?' : ''} ${EventName};`);
+    }
+
+    if (!type.members.some(member => member.kind === 'method' && member.name === HelperName)) {
+        const modifiers = type.modifiers.includes('sealed') ? 'private' : 'protected virtual';
+        const parameter = `[CallerMemberName] string${nullable ? '?' : ''} propertyName = null`;
+
+        members.push([
+            `${memberIndentation}${modifiers} void ${HelperName}(${parameter})`,
+            `${memberIndentation}{`,
+            `${memberIndentation}${indentation}${EventName}?.Invoke(this, new PropertyChangedEventArgs(propertyName));`,
+            `${memberIndentation}}`,
+        ].join(eol));
+        namespaces.push('System.Runtime.CompilerServices');
+    }
+
+    if (!edits.length && !members.length && !properties.length) {
+        return Result.error<NotifyPropertyChangedEdits>('NotifyPropertyChangedError', `${type.name} already implements ${InterfaceName}`);
+    }
+
+    if (!isImplemented || members.length) {
+        namespaces.unshift('System.ComponentModel');
+    }
+
+    if (properties.length) {
+        namespaces.push('System.Collections.Generic');
+        edits.push(...properties.flatMap(property => _convertProperty(unit, property, options)));
+    }
+
+    const membersEdit = appendMembersToType(unit, type, members, eol);
+    if (members.length && membersEdit) {
+        edits.push(membersEdit);
+    }
+
+    return Result.ok<NotifyPropertyChangedEdits>({ edits, namespaces });
+}
+
+// The auto-property becomes a property storing its value in a field and raising `PropertyChanged` when it changes
+function _convertProperty(unit: CompilationUnit, property: MemberDeclaration, options: NotifyPropertyChangedOptions): SourceEdit[] {
+    const { source } = unit;
+    const { eol, indentation } = options;
+    const fieldName = getBackingFieldName(property.name, options.privateMemberPrefix);
+    const memberIndentation = getLineIndentation(source, property.headerStart);
+    const bodyIndentation = `${memberIndentation}${indentation}`;
+    const statementIndentation = `${bodyIndentation}${indentation}`;
+    const initializer = property.initializer !== undefined ? ` = ${property.initializer.trim()}` : '';
+
+    const accessors = property.accessors.flatMap(accessor => {
+        const modifiers = accessor.modifiers.map(modifier => `${modifier} `).join('');
+        if (accessor.kind !== 'set') {
+            return [`${bodyIndentation}${modifiers}${accessor.kind} => ${accessor.kind === 'get' ? fieldName : `${fieldName} = value`};`];
+        }
+
+        return [
+            `${bodyIndentation}${modifiers}set`,
+            `${bodyIndentation}{`,
+            `${statementIndentation}if (EqualityComparer<${property.type}>.Default.Equals(${fieldName}, value))`,
+            `${statementIndentation}{`,
+            `${statementIndentation}${indentation}return;`,
+            `${statementIndentation}}`,
+            '',
+            `${statementIndentation}${fieldName} = value;`,
+            `${statementIndentation}${HelperName}();`,
+            `${bodyIndentation}}`,
+        ];
+    });
+
+    const nameEnd = unit.tokens.filter(token => token.end <= property.accessorListStart!).pop()?.end ?? property.nameEnd;
+    const fieldStart = getLineStart(source, property.fullStart);
+
+    return [
+        { start: fieldStart, end: fieldStart, text: `${memberIndentation}private ${property.type} ${fieldName}${initializer};${eol}` },
+        { start: nameEnd, end: property.end, text: `${eol}${memberIndentation}{${eol}${accessors.join(eol)}${eol}${memberIndentation}}` },
+    ];
+}
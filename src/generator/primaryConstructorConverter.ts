@@ -0,0 +1,215 @@
+import Result from '../common/result';
+import { getLocalScopes, getTypeParametersEnd } from '../parser/declarationFinder';
+import { CompilationUnit, MemberDeclaration, ParameterDeclaration, TypeDeclaration } from '../parser/declarations';
+import { TokenKind } from '../parser/tokenizer';
+import { ConstructorGenerationOptions } from './constructorGenerator';
+import { getAssignmentTarget, getMemberName, getParameterName } from './naming';
+import { SourceEdit, getLineIndentation } from './sourceEdit';
+import { prependMembersToType } from './typeGenerator';
+
+/** The C# version introducing the primary constructors of classes and structs */
+export const PrimaryConstructorLanguageVersion = 12;
+
+/**
+ * Builds the edits declaring a primary constructor initializing the given properties or fields,
+ * i.e. `class Foo(string name)` with `public string Name { get; } = name;`
+ *
+ * @param unit The parsed compilation unit
+ * @param type The class or struct receiving the primary constructor
+ * @param members The properties and fields to initialize, without initializer
+ * @param privateMemberPrefix The configured prefix of the private members
+ * @returns The edits to apply to the source, an error if the type can't declare a primary constructor
+ */
+export function initializePrimaryConstructor(unit: CompilationUnit, type: TypeDeclaration, members: MemberDeclaration[], privateMemberPrefix: string): Result<SourceEdit[]> {
+    if (!['class', 'struct'].includes(type.kind) || type.parameters || type.modifiers.includes('static')) {
+        return Result.error<SourceEdit[]>('PrimaryConstructorError', `${type.name} can't declare a primary constructor`);
+    }
+
+    if (type.members.some(member => member.kind === 'constructor' && !member.modifiers.includes('static'))) {
+        return Result.error<SourceEdit[]>('PrimaryConstructorError', `${type.name} already declares a constructor`);
+    }
+
+    if (!members.length || members.some(member => member.initializer !== undefined || !['field', 'property'].includes(member.kind))) {
+        return Result.error<SourceEdit[]>('PrimaryConstructorError', 'Only the properties and fields without initializer can be initialized');
+    }
+
+    const { source } = unit;
+    const sorted = [...members].sort((a, b) => a.start - b.start);
+    const parameters = sorted.map(member => `${member.type} ${getParameterName(member.name, privateMemberPrefix)}`);
+    const headerEnd = getTypeParametersEnd(unit, type) ?? type.nameEnd;
+    const edits: SourceEdit[] = [{ start: headerEnd, end: headerEnd, text: `(${parameters.join(', ')})` }];
+
+    for (const member of sorted) {
+        const initializer = ` = ${getParameterName(member.name, privateMemberPrefix)}`;
+
+        if (member.kind === 'property' && member.accessorListEnd !== undefined) {
+            edits.push({ start: member.accessorListEnd, end: member.accessorListEnd, text: `${initializer};` });
+        } else if (member.kind === 'field' && source[member.end - 1] === ';') {
+            edits.push({ start: member.end - 1, end: member.end - 1, text: initializer });
+        } else {
+            return Result.error<SourceEdit[]>('PrimaryConstructorError', `${member.name} can't be initialized`);
+        }
+    }
+
+    return Result.ok<SourceEdit[]>(edits);
+}
+
+/**
+ * Builds the edits converting the primary constructor of a class or struct to a regular constructor.
+ * The members initialized from the parameters are assigned by the constructor instead,
+ * the parameters captured by the other members being stored in `private readonly` fields.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The class or struct declaring the primary constructor
+ * @param options The generation options
+ * @returns The edits to apply to the source, an error if the primary constructor can't be converted
+ */
+export function convertPrimaryConstructor(unit: CompilationUnit, type: TypeDeclaration, options: ConstructorGenerationOptions): Result<SourceEdit[]> {
+    if (!['class', 'struct'].includes(type.kind) || !type.parameters || type.parameterListStart === undefined || type.parameterListEnd === undefined) {
+        return Result.error<SourceEdit[]>('PrimaryConstructorError', `${type.name} has no primary constructor`);
+    }
+
+    if (type.baseTypes.some(baseType => baseType.includes('('))) {
+        return Result.error<SourceEdit[]>('PrimaryConstructorError', `${type.name} passes arguments to its base type`);
+    }
+
+    if (type.openBrace === undefined || type.closeBrace === undefined) {
+        return Result.error<SourceEdit[]>('PrimaryConstructorError', `${type.name} has no body`);
+    }
+
+    const { source } = unit;
+    const { eol, indentation, privateMemberPrefix, useThisForCtorAssignments } = options;
+    const parameters = type.parameters;
+    const memberIndentation = `${getLineIndentation(source, type.headerStart)}${indentation}`;
+    const edits: SourceEdit[] = [{ start: type.parameterListStart, end: type.parameterListEnd, text: '' }];
+    const fields: string[] = [];
+    const assignments: string[] = [];
+
+    const dataMembers = type.members.filter(member => ['field', 'property'].includes(member.kind) && !member.modifiers.includes('static'));
+    const references = _findParameterReferences(unit, type, parameters);
+
+    for (const parameter of parameters) {
+        const captures = references.filter(reference => reference.parameter === parameter && !reference.inInitializer);
+        if (!captures.length) {
+            continue;
+        }
+
+        const fieldName = getMemberName(parameter.name, 'field', privateMemberPrefix);
+        if (type.members.some(member => member.name === fieldName)) {
+            return Result.error<SourceEdit[]>('PrimaryConstructorError', `${type.name} already declares ${fieldName}`);
+        }
+
+        fields.push(`${memberIndentation}private readonly ${parameter.type} ${fieldName};`);
+        assignments.push(`${getAssignmentTarget(fieldName, parameter.name, useThisForCtorAssignments)} = ${parameter.name};`);
+
+        if (fieldName !== parameter.name) {
+            edits.push(...captures.map(({ start, end }) => ({ start, end, text: fieldName })));
+        }
+    }
+
+    // The initializers using the parameters become assignments, in the order of the members
+    for (const member of dataMembers) {
+        if (member.initializer === undefined || !references.some(reference => reference.member === member && reference.inInitializer)) {
+            continue;
+        }
+
+        const initializerStart = member.kind === 'property' ? member.accessorListEnd : member.nameEnd;
+        if (initializerStart === undefined) {
+            continue;
+        }
+
+        // A member named like a parameter is qualified, not to be assigned to the parameter
+        const isShadowed = parameters.some(parameter => parameter.name === member.name);
+        const target = getAssignmentTarget(member.name, isShadowed ? member.name : '', useThisForCtorAssignments);
+
+        assignments.push(`${target} = ${member.initializer.trim()};`);
+        edits.push({ start: initializerStart, end: member.kind === 'property' ? member.end : member.end - 1, text: '' });
+    }
+
+    const accessibility = type.modifiers.includes('abstract') ? 'protected' : 'public';
+    const constructor = [
+        `${memberIndentation}${accessibility} ${type.name}(${parameters.map(parameter => source.substring(parameter.start, parameter.end)).join(', ')})`,
+        `${memberIndentation}{`,
+        ...assignments.map(assignment => `${memberIndentation}${indentation}${assignment}`),
+        `${memberIndentation}}`,
+    ].join(eol);
+
+    const lastDataMember = dataMembers[dataMembers.length - 1];
+    const lastDataMemberLineEnd = lastDataMember ? source.indexOf('\n', lastDataMember.end) : -1;
+
+    if (lastDataMemberLineEnd < 0 || lastDataMemberLineEnd >= type.closeBrace) {
+        const membersEdit = prependMembersToType(unit, type, fields.length ? [fields.join(eol), constructor] : [constructor], eol);
+        if (membersEdit) {
+            edits.push(membersEdit);
+        }
+
+        return Result.ok<SourceEdit[]>(edits);
+    }
+
+    if (fields.length) {
+        const fieldsEdit = prependMembersToType(unit, type, [fields.join(eol)], eol);
+        if (fieldsEdit) {
+            edits.push(fieldsEdit);
+        }
+    }
+
+    // The constructor follows the fields and properties, separated from the surrounding members by an empty line
+    const start = lastDataMemberLineEnd + 1;
+    const followingLineEnd = source.indexOf('\n', start);
+    const followingLine = source.substring(start, followingLineEnd < 0 ? source.length : followingLineEnd).trim();
+    edits.push({ start, end: start, text: `${eol}${constructor}${eol}${followingLine && !followingLine.startsWith('}') ? eol : ''}` });
+
+    return Result.ok<SourceEdit[]>(edits);
+}
+
+interface ParameterReference {
+    parameter: ParameterDeclaration,
+    member: MemberDeclaration,
+    /** Whether the reference is part of the initializer of a field or property */
+    inInitializer: boolean,
+    start: number,
+    end: number,
+}
+
+// The usages of the primary constructor parameters within the members of the type, nested types excluded
+function _findParameterReferences(unit: CompilationUnit, type: TypeDeclaration, parameters: ParameterDeclaration[]): ParameterReference[] {
+    const references = new Array<ParameterReference>();
+
+    for (const member of type.members) {
+        if (member.kind === 'constructor' || member.modifiers.includes('static')) {
+            continue;
+        }
+
+        // The parameters shadowed by the parameters or the locals of the member
+        const tokens = unit.tokens.filter(token => token.start >= member.nameEnd && token.end <= member.end);
+        const candidates = parameters.filter(parameter => !member.parameters.some(p => p.name === parameter.name));
+        const localScopes = new Map(candidates.map(parameter => [parameter.name, getLocalScopes(unit, member.nameEnd, member.end, parameter.name)]));
+        const initializerStart = member.initializer !== undefined && !member.body ? (member.accessorListEnd ?? member.nameEnd) : member.end;
+
+        tokens.forEach((token, index) => {
+            const parameter = candidates.find(p => p.name === token.text);
+            if (!parameter || token.kind !== TokenKind.Identifier || ['.', '?.', '::'].includes(tokens[index - 1]?.text ?? '')) {
+                return;
+            }
+
+            if (localScopes.get(token.text)?.some(scope => token.start >= scope.start && token.end <= scope.end)) {
+                return;
+            }
+
+            // Named arguments, i.e. `Foo(name: value)`
+            if (tokens[index + 1]?.text === ':' && ['(', ','].includes(tokens[index - 1]?.text ?? '')) {
+                return;
+            }
+
+            // Outside of the initializers, the members named like the parameters shadow them
+            const inInitializer = token.start >= initializerStart;
+            if (!inInitializer && type.members.some(m => m.name === parameter.name)) {
+                return;
+            }
+
+            references.push({ parameter, member, inInitializer, start: token.start, end: token.end });
+        });
+    }
+
+    return references;
+}
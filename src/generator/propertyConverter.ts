@@ -0,0 +1,236 @@
+import Result from '../common/result';
+import { getLocalScopes } from '../parser/declarationFinder';
+import { CompilationUnit, MemberDeclaration, TypeDeclaration } from '../parser/declarations';
+import { Token, TokenKind } from '../parser/tokenizer';
+import { getParameterName } from './naming';
+import { SourceEdit, buildDeclarationRemoval, getLineIndentation, getLineStart } from './sourceEdit';
+
+export interface PropertyConversionOptions {
+    eol: string,
+    /** A single indentation level */
+    indentation: string,
+    privateMemberPrefix: string,
+}
+
+const AssignmentOperators = ['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=', '??=', '++', '--'];
+
+/**
+ * Retrieves the name of the backing field of a property, i.e. `_name` for `Name` when the prefix is `_`
+ *
+ * @param propertyName The name of the property
+ * @param privateMemberPrefix The configured prefix of the private members
+ * @returns The name of the field
+ */
+export function getBackingFieldName(propertyName: string, privateMemberPrefix: string): string {
+    return `${privateMemberPrefix}${getParameterName(propertyName, '')}`;
+}
+
+/**
+ * Whether a member is an auto-property, i.e. `public int X { get; set; }`
+ *
+ * @param type The type declaring the member
+ * @param member The member
+ * @returns If the member is an auto-property of a class or struct
+ */
+export function isAutoProperty(type: TypeDeclaration, member: MemberDeclaration): boolean {
+    return type.kind !== 'interface'
+        && member.kind === 'property'
+        && !member.body
+        && !['abstract', 'extern', 'partial'].some(modifier => member.modifiers.includes(modifier))
+        && member.accessors.length > 0
+        && member.accessors.every(accessor => !accessor.body)
+        && member.accessors.some(accessor => accessor.kind === 'get');
+}
+
+/**
+ * Builds the edits expanding an auto-property to a property reading and writing a private backing field.
+ * The accessor modifiers are kept, the initializer moves to the field, and the constructors assigning
+ * a get-only property assign the field instead.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type declaring the property
+ * @param property The auto-property
+ * @param options The conversion options
+ * @returns The edits to apply to the source, an error if the property can't be expanded
+ */
+export function expandAutoProperty(unit: CompilationUnit, type: TypeDeclaration, property: MemberDeclaration, options: PropertyConversionOptions): Result<SourceEdit[]> {
+    if (!isAutoProperty(type, property) || property.accessorListStart === undefined) {
+        return Result.error<SourceEdit[]>('PropertyConversionError', `${property.name} is not an auto-property`);
+    }
+
+    const fieldName = getBackingFieldName(property.name, options.privateMemberPrefix);
+    if (type.members.some(member => member.name === fieldName)) {
+        return Result.error<SourceEdit[]>('PropertyConversionError', `${type.name} already declares ${fieldName}`);
+    }
+
+    const { source } = unit;
+    const { eol, indentation } = options;
+    const isStatic = property.modifiers.includes('static');
+    const isGetOnly = !property.accessors.some(accessor => accessor.kind !== 'get');
+    const memberIndentation = getLineIndentation(source, property.headerStart);
+    const modifiers = ['private', ...(isStatic ? ['static'] : []), ...(isGetOnly ? ['readonly'] : [])].join(' ');
+    const initializer = property.initializer !== undefined ? ` = ${property.initializer.trim()}` : '';
+    const field = `${memberIndentation}${modifiers} ${property.type} ${fieldName}${initializer};${eol}`;
+
+    const accessors = property.accessors.map(accessor => {
+        const accessorModifiers = accessor.modifiers.map(modifier => `${modifier} `).join('');
+        const body = accessor.kind === 'get' ? fieldName : `${fieldName} = value`;
+
+        return `${memberIndentation}${indentation}${accessorModifiers}${accessor.kind} => ${body};`;
+    });
+
+    const nameEnd = _getTokenBefore(unit, property.accessorListStart)?.end ?? property.accessorListStart;
+    const fieldStart = getLineStart(source, property.fullStart);
+    const edits: SourceEdit[] = [
+        { start: fieldStart, end: fieldStart, text: field },
+        { start: nameEnd, end: property.end, text: `${eol}${memberIndentation}{${eol}${accessors.join(eol)}${eol}${memberIndentation}}` },
+    ];
+
+    // A get-only property can only be assigned by the constructors through its field
+    if (isGetOnly) {
+        type.members
+            .filter(member => member.kind === 'constructor' && member.modifiers.includes('static') === isStatic && member.body)
+            .forEach(constructor => {
+                const { start, end } = constructor.body!;
+                // The field is qualified when a parameter or a local of the constructor has its name, i.e. `name` without prefix
+                const isShadowed = constructor.parameters.some(parameter => parameter.name.replace(/^@/, '') === fieldName)
+                    || unit.tokens.some(token => token.start >= start && token.end <= end && token.kind === TokenKind.Identifier && token.text === fieldName);
+                const qualifiedName = isShadowed ? `${isStatic ? type.name : 'this'}.${fieldName}` : fieldName;
+
+                edits.push(..._renameReferences(unit, start, end, property.name, fieldName, qualifiedName));
+            });
+    }
+
+    return Result.ok<SourceEdit[]>(edits);
+}
+
+/**
+ * Finds the backing field of a trivial property, i.e. a property whose accessors only read and write a field of the type
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type declaring the property
+ * @param property The property
+ * @returns The backing field, undefined if the property is not trivial
+ */
+export function findBackingField(unit: CompilationUnit, type: TypeDeclaration, property: MemberDeclaration): MemberDeclaration | undefined {
+    if (type.kind === 'interface' || property.kind !== 'property' || property.explicitInterface || property.initializer !== undefined) {
+        return undefined;
+    }
+
+    let fieldName: string | undefined;
+    if (property.body) {
+        fieldName = _getReturnedField(unit, property.body.start, property.body.end);
+    } else {
+        const getter = property.accessors.find(accessor => accessor.kind === 'get');
+        fieldName = getter?.body ? _getReturnedField(unit, getter.body.start, getter.body.end) : undefined;
+
+        const isTrivial = (accessor: MemberDeclaration['accessors'][number]) => accessor.kind === 'get'
+            || (['set', 'init'].includes(accessor.kind) && !!accessor.body && _getAssignedField(unit, accessor.body.start, accessor.body.end) === fieldName);
+        if (!property.accessors.every(isTrivial)) {
+            return undefined;
+        }
+    }
+
+    const isStatic = property.modifiers.includes('static');
+    const field = type.members.find(member => member.kind === 'field' && member.name === fieldName);
+    if (!field || field.modifiers.includes('static') !== isStatic || field.modifiers.includes('const') || field.type.replace(/\s/g, '') !== property.type.replace(/\s/g, '')) {
+        return undefined;
+    }
+
+    return field;
+}
+
+/**
+ * Builds the edits collapsing a trivial property to an auto-property, the backing field being removed.
+ * The accessor modifiers are kept, the initializer of the field moves to the property,
+ * and the other usages of the field use the property instead.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type declaring the property
+ * @param property The trivial property
+ * @returns The edits to apply to the source, an error if the property is not trivial
+ */
+export function collapseToAutoProperty(unit: CompilationUnit, type: TypeDeclaration, property: MemberDeclaration): Result<SourceEdit[]> {
+    const field = findBackingField(unit, type, property);
+    if (!field) {
+        return Result.error<SourceEdit[]>('PropertyConversionError', `${property.name} doesn't only read and write a field`);
+    }
+
+    const { source } = unit;
+    // Where a parameter or a local is named like the field, only `this.field` references the field
+    const usages = type.members
+        .filter(member => member !== property && member !== field)
+        .flatMap(member => {
+            const localScopes = getLocalScopes(unit, member.start, member.end, field.name);
+
+            return _renameReferences(unit, member.start, member.end, field.name, property.name, property.name,
+                offset => localScopes.some(scope => offset >= scope.start && offset < scope.end))
+                .map(edit => ({ edit, inConstructor: member.kind === 'constructor' }));
+        });
+    const isPassedByReference = usages.some(({ edit }) => ['ref', 'out', 'in'].includes(_getTokenBefore(unit, edit.start)?.text ?? ''));
+    if (isPassedByReference) {
+        return Result.error<SourceEdit[]>('PropertyConversionError', `${field.name} is passed by reference`);
+    }
+
+    // A get-only auto-property can only be assigned by the constructors
+    const isGetOnly = !!property.body || property.accessors.every(accessor => accessor.kind === 'get');
+    const isAssignedOutsideConstructors = usages.some(({ edit, inConstructor }) => !inConstructor
+        && (AssignmentOperators.includes(_getTokenAfter(unit, edit.end)?.text ?? '') || ['++', '--'].includes(_getTokenBefore(unit, edit.start)?.text ?? '')));
+    if (isGetOnly && isAssignedOutsideConstructors) {
+        return Result.error<SourceEdit[]>('PropertyConversionError', `${field.name} is assigned outside of the constructors`);
+    }
+
+    const accessors = property.body
+        ? 'get;'
+        : property.accessors.map(accessor => `${accessor.modifiers.map(modifier => `${modifier} `).join('')}${accessor.kind};`).join(' ');
+    const initializer = field.initializer !== undefined ? ` = ${field.initializer.trim()};` : '';
+    const nameEnd = _getTokenBefore(unit, property.accessorListStart ?? property.body?.start ?? property.end)?.end ?? property.nameEnd;
+
+    return Result.ok<SourceEdit[]>([
+        buildDeclarationRemoval(source, field),
+        { start: nameEnd, end: property.end, text: ` { ${accessors} }${initializer}` },
+        ...usages.map(({ edit }) => edit),
+    ]);
+}
+
+function _getTokenBefore(unit: CompilationUnit, offset: number): Token | undefined {
+    return unit.tokens.filter(token => token.end <= offset).pop();
+}
+
+function _getTokenAfter(unit: CompilationUnit, offset: number): Token | undefined {
+    return unit.tokens.find(token => token.start >= offset);
+}
+
+// The field returned by a getter, i.e. `_name` for `=> _name;` or `{ return this._name; }`
+function _getReturnedField(unit: CompilationUnit, start: number, end: number): string | undefined {
+    const texts = unit.tokens.filter(token => token.start >= start && token.end <= end).map(token => token.text);
+    const match = /^(?:=>|\{ return)( this \.)? (\S+) ;( \})?$/.exec(texts.join(' '));
+
+    return match && _isIdentifier(match[2]) ? match[2] : undefined;
+}
+
+// The field assigned by a setter, i.e. `_name` for `=> _name = value;` or `{ this._name = value; }`
+function _getAssignedField(unit: CompilationUnit, start: number, end: number): string | undefined {
+    const texts = unit.tokens.filter(token => token.start >= start && token.end <= end).map(token => token.text);
+    const match = /^(?:=>|\{)( this \.)? (\S+) = value ;( \})?$/.exec(texts.join(' '));
+
+    return match && _isIdentifier(match[2]) ? match[2] : undefined;
+}
+
+function _isIdentifier(text: string): boolean {
+    return /^@?[\p{L}_][\p{L}\p{N}_]*$/u.test(text);
+}
+
+// The edits renaming the references to a member within a range, i.e. `_name` or `this._name`
+// The unqualified references are renamed to `qualifiedName` when given, i.e. `this.name`, and skipped where a local shadows the member
+function _renameReferences(unit: CompilationUnit, start: number, end: number, name: string, newName: string, qualifiedName = newName,
+    isShadowed: (offset: number) => boolean = () => false): SourceEdit[] {
+    const tokens = unit.tokens.filter(token => token.start >= start && token.end <= end);
+
+    return tokens
+        .map((token, index) => ({ token, isQualified: ['.', '?.'].includes(tokens[index - 1]?.text ?? '') }))
+        .filter(({ token, isQualified }, index) => token.kind === TokenKind.Identifier
+            && token.text === name
+            && (isQualified ? tokens[index - 2]?.text === 'this' : !isShadowed(token.start)))
+        .map(({ token, isQualified }) => ({ start: token.start, end: token.end, text: isQualified ? newName : qualifiedName }));
+}
@@ -0,0 +1,255 @@
+import Result from '../common/result';
+import { countStatements, getAccessibility, getAssignedMembers, getTypeParametersEnd } from '../parser/declarationFinder';
+import { AttributeSection, CompilationUnit, MemberDeclaration, ParameterDeclaration, TypeDeclaration } from '../parser/declarations';
+import { getAssignmentTarget, getParameterName } from './naming';
+import { SourceEdit, buildDeclarationRemoval, getLineIndentation } from './sourceEdit';
+import { prependMembersToType } from './typeGenerator';
+
+/** The C# version introducing the records */
+export const RecordLanguageVersion = 9;
+
+export interface RecordConversionOptions {
+    eol: string,
+    /** A single indentation level */
+    indentation: string,
+    useThisForCtorAssignments: boolean,
+}
+
+interface PositionalMember {
+    property: MemberDeclaration,
+    /** The parameter of the constructor initializing the property */
+    parameter?: ParameterDeclaration,
+}
+
+const AttributeTargetRegex = /^\s*(\w+)\s*:(?!:)\s*/;
+
+/**
+ * Builds the edits converting a class with get-only or init-only auto-properties to a positional record.
+ * The properties become the parameters of the record, the constructor initializing them is removed
+ * and the other members are kept in the body of the record.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The class to convert
+ * @returns The edits to apply to the source, an error if the class can't be converted
+ */
+export function convertClassToRecord(unit: CompilationUnit, type: TypeDeclaration): Result<SourceEdit[]> {
+    if (type.kind !== 'class' || type.parameters || type.modifiers.includes('static')) {
+        return Result.error<SourceEdit[]>('RecordConversionError', `${type.name} is not a convertible class`);
+    }
+
+    const properties = type.members.filter(member => _isPositionalProperty(member));
+    if (!properties.length) {
+        return Result.error<SourceEdit[]>('RecordConversionError', `${type.name} has no get-only or init-only auto-property`);
+    }
+
+    const constructors = type.members.filter(member => member.kind === 'constructor' && !member.modifiers.includes('static'));
+    if (constructors.length > 1 || (constructors.length === 1 && !_isPositionalConstructor(unit, constructors[0], properties))) {
+        return Result.error<SourceEdit[]>('RecordConversionError', `The constructors of ${type.name} don't only initialize its properties`);
+    }
+
+    const positionalMembers = _getPositionalMembers(properties, constructors[0]);
+    const parameters = positionalMembers.map(({ property, parameter }) => {
+        const attributes = property.attributes.map(attribute => `[${_retargetAttribute(attribute, 'property')}] `).join('');
+        const defaultValue = parameter?.defaultValue !== undefined ? ` = ${parameter.defaultValue}` : '';
+
+        return `${attributes}${property.type} ${property.name}${defaultValue}`;
+    });
+
+    const { source } = unit;
+    const classKeyword = unit.tokens.find(token => token.start >= type.headerStart && token.end <= type.nameStart && token.text === 'class');
+    if (!classKeyword) {
+        return Result.error<SourceEdit[]>('RecordConversionError', `Impossible to find the class keyword of ${type.name}`);
+    }
+
+    const headerEnd = getTypeParametersEnd(unit, type) ?? type.nameEnd;
+    const edits: SourceEdit[] = [
+        { start: classKeyword.start, end: classKeyword.end, text: 'record' },
+        { start: headerEnd, end: headerEnd, text: `(${parameters.join(', ')})` },
+    ];
+
+    const removedMembers = [...properties, ...constructors];
+    const keptMembers = type.members.filter(member => !removedMembers.includes(member));
+
+    if (type.openBrace === undefined || type.closeBrace === undefined) {
+        return Result.ok<SourceEdit[]>(edits);
+    }
+
+    if (!keptMembers.length && !type.types.length && !_hasContentBesides(unit, type, removedMembers)) {
+        const lastHeaderToken = unit.tokens.filter(token => token.end <= type.openBrace!).pop();
+        const start = lastHeaderToken?.end ?? type.openBrace;
+
+        edits.push({ start, end: type.closeBrace + 1, text: ';' });
+
+        return Result.ok<SourceEdit[]>(edits);
+    }
+
+    edits.push(...removedMembers.map(member => buildDeclarationRemoval(source, member)));
+
+    return Result.ok<SourceEdit[]>(_mergeEdits(edits));
+}
+
+/**
+ * Builds the edits converting a positional record to a class.
+ * The parameters become init-only auto-properties initialized by a constructor.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The record to convert
+ * @param options The conversion options
+ * @returns The edits to apply to the source, an error if the record can't be converted
+ */
+export function convertRecordToClass(unit: CompilationUnit, type: TypeDeclaration, options: RecordConversionOptions): Result<SourceEdit[]> {
+    if (type.kind !== 'record' || !type.parameters || type.parameterListStart === undefined || type.parameterListEnd === undefined) {
+        return Result.error<SourceEdit[]>('ClassConversionError', `${type.name} is not a positional record`);
+    }
+
+    if (type.baseTypes.some(baseType => baseType.includes('('))) {
+        return Result.error<SourceEdit[]>('ClassConversionError', `${type.name} passes arguments to its base record`);
+    }
+
+    const parameters = type.parameters;
+    if (parameters.some(parameter => type.members.some(member => member.name === parameter.name))) {
+        return Result.error<SourceEdit[]>('ClassConversionError', `${type.name} explicitly declares some of its positional members`);
+    }
+
+    const { source } = unit;
+    const { eol, indentation } = options;
+    const recordKeyword = unit.tokens.find(token => token.start >= type.headerStart && token.end <= type.nameStart && token.text === 'record');
+    if (!recordKeyword) {
+        return Result.error<SourceEdit[]>('ClassConversionError', `Impossible to find the record keyword of ${type.name}`);
+    }
+
+    const classKeyword = unit.tokens.find(token => token.start >= recordKeyword.end && token.end <= type.nameStart && token.text === 'class');
+    const typeIndentation = getLineIndentation(source, type.headerStart);
+    const memberIndentation = `${typeIndentation}${indentation}`;
+
+    const properties = parameters.map(parameter => {
+        const attributes = parameter.attributes
+            .filter(attribute => ['property', 'field'].includes(_getAttributeTarget(attribute) ?? ''))
+            .map(attribute => `${memberIndentation}[${_getAttributeTarget(attribute) === 'field' ? attribute.text.trim() : _retargetAttribute(attribute)}]${eol}`)
+            .join('');
+
+        return `${attributes}${memberIndentation}public ${parameter.type} ${parameter.name} { get; init; }`;
+    });
+
+    const constructorParameters = parameters.map(parameter => {
+        const attributes = parameter.attributes
+            .filter(attribute => ['param', undefined].includes(_getAttributeTarget(attribute)))
+            .map(attribute => `[${_retargetAttribute(attribute)}] `)
+            .join('');
+        const defaultValue = parameter.defaultValue !== undefined ? ` = ${parameter.defaultValue}` : '';
+
+        return `${attributes}${parameter.modifiers.map(modifier => `${modifier} `).join('')}${parameter.type} ${getParameterName(parameter.name, '')}${defaultValue}`;
+    });
+
+    const assignments = parameters.map(parameter => {
+        const parameterName = getParameterName(parameter.name, '');
+
+        return `${memberIndentation}${indentation}${getAssignmentTarget(parameter.name, parameterName, options.useThisForCtorAssignments)} = ${parameterName};`;
+    });
+
+    const accessibility = getAccessibility(type.modifiers) === 'private' ? 'private' : 'public';
+    const constructor = [
+        `${memberIndentation}${accessibility} ${type.name}(${constructorParameters.join(', ')})`,
+        `${memberIndentation}{`,
+        ...assignments,
+        `${memberIndentation}}`,
+    ].join(eol);
+
+    const members = [properties.join(eol), constructor];
+    const edits: SourceEdit[] = [
+        { start: recordKeyword.start, end: classKeyword?.end ?? recordKeyword.end, text: 'class' },
+        { start: type.parameterListStart, end: type.parameterListEnd, text: '' },
+    ];
+
+    const membersEdit = prependMembersToType(unit, type, members, eol);
+    if (membersEdit) {
+        edits.push(membersEdit);
+
+        return Result.ok<SourceEdit[]>(edits);
+    }
+
+    // Record declared without body, i.e. `record Foo(int A);`
+    const lastHeaderToken = unit.tokens.filter(token => token.end <= type.end && token.text !== ';').pop();
+    const bodyStart = lastHeaderToken?.end ?? type.end;
+    const body = `${eol}${typeIndentation}{${eol}${members.join(`${eol}${eol}`)}${eol}${typeIndentation}}`;
+
+    edits.push({ start: bodyStart, end: type.end, text: body });
+
+    return Result.ok<SourceEdit[]>(edits);
+}
+
+function _isPositionalProperty(member: MemberDeclaration): boolean {
+    const ignoredModifiers = ['static', 'abstract', 'virtual', 'override', 'new'];
+
+    return member.kind === 'property'
+        && getAccessibility(member.modifiers) === 'public'
+        && !member.modifiers.some(modifier => ignoredModifiers.includes(modifier))
+        && !member.explicitInterface
+        && !member.body
+        && member.initializer === undefined
+        && member.accessors.every(accessor => !accessor.body && !accessor.modifiers.length)
+        && member.accessors.some(accessor => accessor.kind === 'get')
+        && !member.accessors.some(accessor => accessor.kind === 'set');
+}
+
+function _isPositionalConstructor(unit: CompilationUnit, constructor: MemberDeclaration, properties: MemberDeclaration[]): boolean {
+    if (!constructor.body || constructor.constructorInitializer !== undefined || constructor.parameters.length !== properties.length) {
+        return false;
+    }
+
+    const assignedMembers = getAssignedMembers(unit, constructor.body);
+    const propertyNames = properties.map(property => property.name);
+
+    return assignedMembers.every(name => propertyNames.includes(name))
+        && propertyNames.every(name => assignedMembers.includes(name))
+        && countStatements(unit, constructor.body) <= assignedMembers.length;
+}
+
+function _getPositionalMembers(properties: MemberDeclaration[], constructor?: MemberDeclaration): PositionalMember[] {
+    const members = properties.map(property => ({
+        property,
+        parameter: constructor?.parameters.find(parameter => parameter.name.toLowerCase() === getParameterName(property.name, '').toLowerCase()),
+    }));
+
+    // The order of the constructor parameters is kept, not to break the existing calls
+    if (constructor && members.every(member => member.parameter)) {
+        return members.sort((a, b) => constructor.parameters.indexOf(a.parameter!) - constructor.parameters.indexOf(b.parameter!));
+    }
+
+    return members;
+}
+
+function _getAttributeTarget(attribute: AttributeSection): string | undefined {
+    return AttributeTargetRegex.exec(attribute.text)?.[1];
+}
+
+function _retargetAttribute(attribute: AttributeSection, target?: string): string {
+    const text = attribute.text.replace(AttributeTargetRegex, '').trim();
+
+    return target ? `${target}: ${text}` : text;
+}
+
+function _hasContentBesides(unit: CompilationUnit, type: TypeDeclaration, members: MemberDeclaration[]): boolean {
+    const isWithinMembers = (start: number) => members.some(member => start >= member.fullStart && start < member.end);
+    const isWithinBody = (start: number) => start > type.openBrace! && start < type.closeBrace!;
+
+    return unit.tokens.some(token => isWithinBody(token.start) && !isWithinMembers(token.start))
+        || unit.comments.some(comment => isWithinBody(comment.start) && !isWithinMembers(comment.start));
+}
+
+function _mergeEdits(edits: SourceEdit[]): SourceEdit[] {
+    const sorted = [...edits].sort((a, b) => a.start - b.start);
+
+    return sorted.reduce((merged, edit) => {
+        const previous = merged[merged.length - 1];
+        if (previous && edit.start <= previous.end && !previous.text && !edit.text) {
+            previous.end = Math.max(previous.end, edit.end);
+
+            return merged;
+        }
+
+        merged.push({ ...edit });
+
+        return merged;
+    }, new Array<SourceEdit>());
+}
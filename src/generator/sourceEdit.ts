@@ -0,0 +1,84 @@
+export interface SourceEdit {
+    start: number,
+    end: number,
+    text: string,
+}
+
+/**
+ * Applies the edits to the source, the edits must not overlap
+ *
+ * @param source The source text
+ * @param edits The edits, based on the offsets of the original source
+ * @returns The edited source
+ */
+export function applySourceEdits(source: string, edits: SourceEdit[]): string {
+    return [...edits]
+        .sort((a, b) => b.start - a.start || b.end - a.end)
+        .reduce((text, edit) => `${text.substring(0, edit.start)}${edit.text}${text.substring(edit.end)}`, source);
+}
+
+/**
+ * Retrieves the offset of the beginning of the line containing the given offset
+ *
+ * @param source The source text
+ * @param offset An offset within the line
+ * @returns The offset of the first character of the line
+ */
+export function getLineStart(source: string, offset: number): number {
+    return source.lastIndexOf('\n', offset - 1) + 1;
+}
+
+/**
+ * Retrieves the zero based line and character of an offset, for the sources not opened as documents
+ *
+ * @param source The source text
+ * @param offset The offset within the source
+ * @returns The line and the character of the offset
+ */
+export function getPosition(source: string, offset: number): { line: number, character: number } {
+    const lineStart = getLineStart(source, offset);
+    const line = source.substring(0, lineStart).split('\n').length - 1;
+
+    return { line, character: offset - lineStart };
+}
+
+/**
+ * Retrieves the leading whitespaces of the line containing the given offset
+ *
+ * @param source The source text
+ * @param offset An offset within the line
+ * @returns The indentation of the line
+ */
+export function getLineIndentation(source: string, offset: number): string {
+    const lineStart = getLineStart(source, offset);
+
+    return /^[ \t]*/.exec(source.substring(lineStart))?.[0] ?? '';
+}
+
+/**
+ * Builds the edit removing the lines of a declaration with its documentation,
+ * along with the empty line separating it from the next or the previous declaration
+ *
+ * @param source The source text
+ * @param declaration The offsets of the declaration, documentation included
+ * @returns The edit removing the declaration
+ */
+export function buildDeclarationRemoval(source: string, declaration: { fullStart: number, end: number }): SourceEdit {
+    let start = getLineStart(source, declaration.fullStart);
+    const lineEnd = source.indexOf('\n', declaration.end);
+    let end = lineEnd < 0 ? source.length : lineEnd + 1;
+
+    const previousLine = source.substring(getLineStart(source, start - 1), start).trim();
+    const followingBlankLines = /^([ \t]*\r?\n)*/.exec(source.substring(end))?.[0] ?? '';
+    const following = source.substring(end).trimStart();
+
+    if (followingBlankLines && (previousLine === '' || previousLine.endsWith('{'))) {
+        end += followingBlankLines.length;
+    } else if (following.startsWith('}') || following === '') {
+        // The last declaration leaves no empty line before the closing brace or the end of the file
+        const precedingBlankLines = /(\r?\n[ \t]*)*$/.exec(source.substring(0, start - 1))?.[0] ?? '';
+        start -= precedingBlankLines.length;
+    }
+
+    return { start, end, text: '' };
+}
@@ -0,0 +1,281 @@
+import { getAccessibility } from '../parser/declarationFinder';
+import { ParameterDeclaration, TypeDeclaration } from '../parser/declarations';
+import { TemplateType } from '../template/templateType';
+import { MockingLibrary, TestTemplateType } from '../project/testProject';
+
+export interface TestedMethod {
+    name: string,
+    returnType: string,
+    isStatic: boolean,
+    parameters: ParameterDeclaration[],
+}
+
+export interface TestedClass {
+    name: string,
+    /** The namespace of the class, empty for the global namespace */
+    namespace: string,
+    isStatic: boolean,
+    /** The parameters of the public constructor instantiating the class */
+    constructorParameters: ParameterDeclaration[],
+    methods: TestedMethod[],
+}
+
+export interface TestOptions {
+    /** The library mocking the interface dependencies of the tested class, undefined to pass them as default values */
+    mockingLibrary?: MockingLibrary,
+    privateMemberPrefix: string,
+}
+
+const TestAttributes: Record<TestTemplateType, string> = {
+    [TemplateType.XUnit]: 'Fact',
+    [TemplateType.NUnit]: 'Test',
+    [TemplateType.MsTest]: 'TestMethod',
+};
+
+const SetupAttributes: Record<TestTemplateType, string | undefined> = {
+    [TemplateType.XUnit]: undefined,
+    [TemplateType.NUnit]: 'SetUp',
+    [TemplateType.MsTest]: 'TestInitialize',
+};
+
+const SetupMethodNames: Record<TestTemplateType, string> = {
+    [TemplateType.XUnit]: '${classname}',
+    [TemplateType.NUnit]: 'void Setup',
+    [TemplateType.MsTest]: 'void Initialize',
+};
+
+const DefaultOptions: TestOptions = { privateMemberPrefix: '' };
+
+/** The test generated when there's no method to test, the one of the original templates */
+const DefaultTests: Record<TestTemplateType, string[]> = {
+    [TemplateType.XUnit]: ['public void Test1()', '{', '    Assert.True(true);${cursor}', '}'],
+    [TemplateType.NUnit]: ['public void Test1()', '{', '    Assert.Pass();${cursor}', '}'],
+    [TemplateType.MsTest]: ['public void TestMethod1()', '{', '    Assert.IsTrue(true);${cursor}', '}'],
+};
+
+const TaskRegex = /^(System\.Threading\.Tasks\.)?(Value)?Task(<.+>)?$/;
+const TestIndentation = ' '.repeat(8);
+
+/**
+ * Retrieves what the tests of a type need to know about it, its public methods and the constructor to instantiate it
+ *
+ * @param type The tested type
+ * @returns The tested class
+ */
+export function getTestedClass(type: TypeDeclaration): TestedClass {
+    const isPublic = (modifiers: string[]) => getAccessibility(modifiers) === 'public';
+    const constructors = type.members.filter(member => member.kind === 'constructor' && !member.modifiers.includes('static'));
+    const constructor = constructors
+        .filter(member => isPublic(member.modifiers))
+        .sort((a, b) => b.parameters.length - a.parameters.length)[0];
+    const methods = type.members
+        .filter(member => member.kind === 'method' && isPublic(member.modifiers) && !member.explicitInterface)
+        .map(member => ({
+            name: member.name,
+            returnType: member.type,
+            isStatic: member.modifiers.includes('static'),
+            parameters: member.parameters,
+        }));
+
+    return {
+        name: type.name,
+        namespace: type.namespace,
+        isStatic: type.modifiers.includes('static'),
+        constructorParameters: constructor?.parameters ?? type.parameters ?? [],
+        methods,
+    };
+}
+
+/**
+ * Generates the test methods of a test class, one Arrange/Act/Assert stub per method of the tested class.
+ * The methods are indented for a class declared in a block scoped namespace and the cursor is put in the first test.
+ *
+ * @param framework The test framework
+ * @param testedClass The tested class, the default test of the framework is generated if undefined or without method
+ * @param options The options of the generation
+ * @returns The test methods separated by an empty line
+ */
+export function generateTestMethods(framework: TestTemplateType, testedClass?: TestedClass, options = DefaultOptions): string {
+    const attribute = `[${TestAttributes[framework]}]`;
+    if (!testedClass?.methods.length) {
+        return _indent([attribute, ...DefaultTests[framework]]);
+    }
+
+    const overloads = new Map<string, number>();
+
+    return testedClass.methods
+        .map((method, index) => {
+            const overload = (overloads.get(method.name) ?? 0) + 1;
+            overloads.set(method.name, overload);
+            const name = `${method.name}_StateUnderTest_ExpectedBehavior${overload > 1 ? overload : ''}`;
+
+            return _indent([attribute, ..._generateTest(testedClass, method, name, index === 0, options)]);
+        })
+        .join('\n\n');
+}
+
+/**
+ * Generates the fields and the setup of a test class constructing the tested class, the interface dependencies being mocked.
+ * The setup is the constructor for xUnit, the `[SetUp]` method for NUnit and the `[TestInitialize]` method for MSTest.
+ *
+ * @param framework The test framework
+ * @param testedClass The tested class, the default setup of the framework is generated if undefined or without dependency
+ * @param options The options of the generation
+ * @returns The members followed by an empty line, empty if the framework needs no setup
+ */
+export function generateTestSetup(framework: TestTemplateType, testedClass?: TestedClass, options = DefaultOptions): string {
+    const attribute = SetupAttributes[framework];
+    const header = [...(attribute ? [`[${attribute}]`] : []), `public ${SetupMethodNames[framework]}()`];
+    if (!testedClass || !_usesSetup(testedClass)) {
+        // Only the NUnit template comes with an empty setup
+        return framework === TemplateType.NUnit ? `${_indent([...header, '{', '}'])}\n\n` : '';
+    }
+
+    const { privateMemberPrefix } = options;
+    const fieldModifiers = framework === TemplateType.XUnit ? 'private readonly' : 'private';
+    const fields: string[] = [];
+    const mocks: string[] = [];
+    const locals: string[] = [];
+    const args = testedClass.constructorParameters.map(parameter => {
+        const mock = _getMock(parameter, options);
+        if (!mock) {
+            locals.push(_declare(parameter));
+
+            return parameter.name;
+        }
+
+        fields.push(`${fieldModifiers} ${mock.fieldType} ${mock.field};`);
+        mocks.push(`${mock.field} = ${mock.creation};`);
+
+        return mock.argument;
+    });
+    const sut = `${privateMemberPrefix}sut`;
+
+    return `${_indent([
+        ...fields,
+        `${fieldModifiers} ${testedClass.name} ${sut};`,
+        '',
+        ...header,
+        '{',
+        ...[...mocks, ...locals, `${sut} = new ${testedClass.name}(${args.join(', ')});`].map(line => `    ${line}`),
+        '}',
+    ])}\n\n`;
+}
+
+/**
+ * Retrieves the namespaces the generated tests need to import
+ *
+ * @param testNamespace The namespace of the test class
+ * @param testedClass The tested class
+ * @param options The options of the generation
+ * @returns The namespaces to import
+ */
+export function getTestUsings(testNamespace: string, testedClass?: TestedClass, options = DefaultOptions): string[] {
+    if (!testedClass || !testedClass.methods.length && !_usesSetup(testedClass)) {
+        return [];
+    }
+
+    const usings: string[] = [];
+    const { namespace } = testedClass;
+    if (namespace && testNamespace !== namespace && !testNamespace.startsWith(`${namespace}.`)) {
+        usings.push(namespace);
+    }
+
+    if (testedClass.methods.some(method => _isAsync(method))) {
+        usings.push('System.Threading.Tasks');
+    }
+
+    if (options.mockingLibrary && _usesSetup(testedClass) && testedClass.constructorParameters.some(p => _getMock(p, options))) {
+        usings.push(options.mockingLibrary);
+    }
+
+    return usings;
+}
+
+function _generateTest(testedClass: TestedClass, method: TestedMethod, name: string, withCursor: boolean, options: TestOptions): string[] {
+    const isAsync = _isAsync(method);
+    const isStatic = testedClass.isStatic || method.isStatic;
+    const usesSetup = _usesSetup(testedClass);
+    const arrange: string[] = [];
+    const declared = new Set<string>();
+    const declare = (parameter: ParameterDeclaration) => {
+        if (!parameter.modifiers.includes('out') && !declared.has(parameter.name)) {
+            declared.add(parameter.name);
+            arrange.push(_declare(parameter));
+        }
+    };
+
+    if (!isStatic && !usesSetup) {
+        testedClass.constructorParameters.forEach(declare);
+        arrange.push(`var sut = new ${testedClass.name}(${testedClass.constructorParameters.map(p => p.name).join(', ')});`);
+    }
+
+    method.parameters.forEach(declare);
+
+    let target = 'sut';
+    if (isStatic) {
+        target = testedClass.name;
+    } else if (usesSetup) {
+        target = `${options.privateMemberPrefix}sut`;
+    }
+
+    const call = `${target}.${method.name}(${method.parameters.map(p => _getArgument(p)).join(', ')})`;
+    const returnsValue = isAsync ? /<.+>$/.test(method.returnType) : method.returnType !== 'void';
+    const act = `${returnsValue ? 'var result = ' : ''}${isAsync ? 'await ' : ''}${call};`;
+
+    return [
+        `public ${isAsync ? 'async Task' : 'void'} ${name}()`,
+        '{',
+        '    // Arrange',
+        ...arrange.map(line => `    ${line}`),
+        '',
+        '    // Act',
+        `    ${act}`,
+        '',
+        `    // Assert${withCursor ? '${cursor}' : ''}`,
+        '}',
+    ];
+}
+
+// The tested class is constructed by the setup when it has dependencies
+function _usesSetup(testedClass: TestedClass): boolean {
+    return !testedClass.isStatic && testedClass.constructorParameters.length > 0;
+}
+
+function _getMock(parameter: ParameterDeclaration, options: TestOptions) {
+    const type = parameter.type.replace(/\?$/, '');
+    const name = type.replace(/<.*$/, '').split('.').pop() ?? '';
+    if (!options.mockingLibrary || parameter.modifiers.length || !/^I[A-Z]/.test(name)) {
+        return undefined;
+    }
+
+    if (options.mockingLibrary === 'Moq') {
+        const field = `${options.privateMemberPrefix}${parameter.name}Mock`;
+
+        return { field, fieldType: `Mock<${type}>`, creation: `new Mock<${type}>()`, argument: `${field}.Object` };
+    }
+
+    const field = `${options.privateMemberPrefix}${parameter.name}`;
+
+    return { field, fieldType: type, creation: `Substitute.For<${type}>()`, argument: field };
+}
+
+function _declare(parameter: ParameterDeclaration): string {
+    return `${parameter.type} ${parameter.name} = ${parameter.defaultValue ?? 'default'};`;
+}
+
+function _getArgument(parameter: ParameterDeclaration): string {
+    if (parameter.modifiers.includes('out')) {
+        return `out var ${parameter.name}`;
+    }
+
+    return parameter.modifiers.includes('ref') ? `ref ${parameter.name}` : parameter.name;
+}
+
+function _isAsync(method: TestedMethod): boolean {
+    return TaskRegex.test(method.returnType);
+}
+
+function _indent(lines: string[]): string {
+    return lines.map(line => line ? `${TestIndentation}${line}` : line).join('\n');
+}
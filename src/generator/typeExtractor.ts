@@ -0,0 +1,117 @@
+import Result from '../common/result';
+import Template from '../template/template';
+import { getAllNamespaces, getTopLevelTypes } from '../parser/declarationFinder';
+import { CompilationUnit, TypeDeclaration, UsingDirective } from '../parser/declarations';
+import { TokenKind } from '../parser/tokenizer';
+import { SourceEdit, buildDeclarationRemoval, getLineIndentation, getLineStart } from './sourceEdit';
+
+export interface TypeExtractionOptions {
+    eol: string,
+    /** A single indentation level */
+    indentation: string,
+}
+
+export interface ExtractedType {
+    /** The content of the new file declaring the type */
+    content: string,
+    /** The edits removing the type from the original file */
+    edits: SourceEdit[],
+}
+
+/**
+ * Retrieves the types which can be moved to their own file,
+ * the top level types of a file declaring several of them which don't match the file name
+ *
+ * @param unit The parsed compilation unit
+ * @param fileName The name of the file without extension
+ * @returns The movable types
+ */
+export function getExtractableTypes(unit: CompilationUnit, fileName: string): TypeDeclaration[] {
+    const types = getTopLevelTypes(unit);
+
+    if (types.length < 2) {
+        return [];
+    }
+
+    return types.filter(type => type.name !== fileName);
+}
+
+/**
+ * Builds the file declaring the given type alone, with the usings and the namespace style of the original file
+ *
+ * @param unit The parsed compilation unit
+ * @param type The top level type to extract
+ * @param options The extraction options
+ * @returns The content of the new file and the edits removing the type, an error if the type can't be extracted
+ */
+export function extractType(unit: CompilationUnit, type: TypeDeclaration, options: TypeExtractionOptions): Result<ExtractedType> {
+    if (type.containingTypes.length) {
+        return Result.error<ExtractedType>('TypeExtractionError', 'Only the top level types can be moved to their own file');
+    }
+
+    if (type.openBrace !== undefined && type.closeBrace === undefined) {
+        return Result.error<ExtractedType>('TypeExtractionError', 'The braces of the type are unbalanced');
+    }
+
+    const { source } = unit;
+    const { eol, indentation } = options;
+    const enclosingNamespaces = getAllNamespaces(unit).filter(namespace => type.start >= namespace.start && type.end <= namespace.end);
+    const isFileScoped = enclosingNamespaces.some(namespace => namespace.isFileScoped);
+
+    const usings = [...unit.usings, ...enclosingNamespaces.flatMap(namespace => namespace.usings)]
+        .filter(using => !using.isGlobal)
+        .map(using => _getImportedText(unit, using));
+
+    const typeIndentation = isFileScoped || !type.namespace ? '' : indentation;
+    const typeLines = _reindent(unit, getLineStart(source, type.fullStart), type.end, typeIndentation).join(eol);
+
+    let content: string;
+    if (!type.namespace) {
+        content = `${typeLines}${eol}`;
+    } else if (isFileScoped) {
+        content = `namespace ${type.namespace};${eol}${eol}${typeLines}${eol}`;
+    } else {
+        content = `namespace ${type.namespace}${eol}{${eol}${typeLines}${eol}}${eol}`;
+    }
+
+    return Result.ok<ExtractedType>({
+        content: `${Template.buildUsings(usings, eol)}${content}`,
+        edits: [buildDeclarationRemoval(source, type)],
+    });
+}
+
+// The directive without `using` and semicolon, i.e. `System.Linq`, `static System.Math` or `Json = System.Text.Json`
+function _getImportedText(unit: CompilationUnit, using: UsingDirective): string {
+    const tokens = unit.tokens.filter(token => token.start >= using.start && token.end <= using.end);
+    const start = tokens[tokens.findIndex(token => token.text === 'using') + 1].start;
+    const end = tokens[tokens.length - 1].text === ';' ? tokens[tokens.length - 1].start : using.end;
+
+    return unit.source.substring(start, end).trim();
+}
+
+function _reindent(unit: CompilationUnit, start: number, end: number, indentation: string): string[] {
+    const { source } = unit;
+    const originalIndentation = getLineIndentation(source, start);
+    const lines = new Array<string>();
+
+    for (let lineStart = start; lineStart < end;) {
+        const lineBreak = source.indexOf('\n', lineStart);
+        const lineEnd = lineBreak < 0 || lineBreak > end ? end : lineBreak;
+        const line = source.substring(lineStart, lineEnd).replace(/\r$/, '');
+
+        // The lines within verbatim and raw string literals are part of the string value and must be kept as they are
+        const isWithinString = unit.tokens.some(token => token.kind === TokenKind.StringLiteral && token.start < lineStart && lineStart < token.end);
+
+        if (isWithinString) {
+            lines.push(line);
+        } else if (!line.trim()) {
+            lines.push('');
+        } else {
+            lines.push(line.startsWith(originalIndentation) ? `${indentation}${line.substring(originalIndentation.length)}` : line);
+        }
+
+        lineStart = lineEnd + 1;
+    }
+
+    return lines;
+}
@@ -0,0 +1,87 @@
+import { getTypeParametersEnd } from '../parser/declarationFinder';
+import { CompilationUnit, TypeDeclaration } from '../parser/declarations';
+import { SourceEdit, getLineIndentation, getLineStart } from './sourceEdit';
+
+/**
+ * Builds the edit appending a base type, i.e. an interface, to the base list of a type
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type to extend
+ * @param baseType The base type to append
+ * @returns The edit to apply to the source
+ */
+export function addBaseType(unit: CompilationUnit, type: TypeDeclaration, baseType: string): SourceEdit {
+    if (type.baseListEnd !== undefined) {
+        return { start: type.baseListEnd, end: type.baseListEnd, text: `, ${baseType}` };
+    }
+
+    const headerEnd = type.parameterListEnd ?? getTypeParametersEnd(unit, type) ?? type.nameEnd;
+
+    return { start: headerEnd, end: headerEnd, text: ` : ${baseType}` };
+}
+
+/**
+ * Builds the edit inserting members before the closing brace of a type.
+ * The members are separated by an empty line, as well as from the existing members.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type receiving the members
+ * @param members The members, already indented
+ * @param eol The end of line to use
+ * @returns The edit to apply to the source, undefined if the type has no body
+ */
+export function appendMembersToType(unit: CompilationUnit, type: TypeDeclaration, members: string[], eol: string): SourceEdit | undefined {
+    if (type.openBrace === undefined || type.closeBrace === undefined) {
+        return undefined;
+    }
+
+    const { source } = unit;
+    const content = members.join(`${eol}${eol}`);
+    const hasContent = source.substring(type.openBrace + 1, type.closeBrace).trim() !== '';
+    const closeBraceLineStart = getLineStart(source, type.closeBrace);
+
+    if (closeBraceLineStart > type.openBrace && source.substring(closeBraceLineStart, type.closeBrace).trim() === '') {
+        return { start: closeBraceLineStart, end: closeBraceLineStart, text: `${hasContent ? eol : ''}${content}${eol}` };
+    }
+
+    // The closing brace shares its line with some code, i.e. `class Foo { }`
+    const contentEnd = closeBraceLineStart + source.substring(closeBraceLineStart, type.closeBrace).trimEnd().length;
+    const typeIndentation = getLineIndentation(source, type.headerStart);
+
+    return { start: contentEnd, end: type.closeBrace, text: `${eol}${hasContent ? eol : ''}${content}${eol}${typeIndentation}` };
+}
+
+/**
+ * Builds the edit inserting members after the opening brace of a type.
+ * The members are separated by an empty line, as well as from the existing members.
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type receiving the members
+ * @param members The members, already indented
+ * @param eol The end of line to use
+ * @returns The edit to apply to the source, undefined if the type has no body
+ */
+export function prependMembersToType(unit: CompilationUnit, type: TypeDeclaration, members: string[], eol: string): SourceEdit | undefined {
+    if (type.openBrace === undefined || type.closeBrace === undefined) {
+        return undefined;
+    }
+
+    const { source } = unit;
+    const content = members.join(`${eol}${eol}`);
+    const hasContent = source.substring(type.openBrace + 1, type.closeBrace).trim() !== '';
+    const lineEnd = source.indexOf('\n', type.openBrace);
+
+    if (lineEnd >= 0 && lineEnd < type.closeBrace && source.substring(type.openBrace + 1, lineEnd).trim() === '') {
+        return { start: lineEnd + 1, end: lineEnd + 1, text: `${content}${eol}${hasContent ? eol : ''}` };
+    }
+
+    // The opening brace shares its line with some code, i.e. `class Foo { }`
+    const typeIndentation = getLineIndentation(source, type.headerStart);
+    const contentStart = type.openBrace + 1 + (source.substring(type.openBrace + 1, type.closeBrace).length - source.substring(type.openBrace + 1, type.closeBrace).trimStart().length);
+
+    return {
+        start: type.openBrace + 1,
+        end: contentStart,
+        text: `${eol}${content}${eol}${hasContent ? eol : typeIndentation}`,
+    };
+}
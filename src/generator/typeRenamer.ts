@@ -0,0 +1,49 @@
+import { getTopLevelTypes } from '../parser/declarationFinder';
+import { CompilationUnit, TypeDeclaration, TypeKind } from '../parser/declarations';
+import { SourceEdit } from './sourceEdit';
+
+/** The kinds of type expected to be named after their file */
+export const FileTypeKinds: TypeKind[] = ['class', 'interface', 'record', 'record struct', 'struct'];
+
+/**
+ * Finds the top level declarations of the type named after the file, several ones for a partial type
+ *
+ * @param unit The parsed compilation unit
+ * @param fileName The name of the file without extension
+ * @returns The declarations of the type, empty if the file doesn't declare it
+ */
+export function findFileTypes(unit: CompilationUnit, fileName: string): TypeDeclaration[] {
+    return getTopLevelTypes(unit).filter(type => type.name === fileName && FileTypeKinds.includes(type.kind));
+}
+
+/**
+ * Retrieves the type the file should be named after, the only type declared at the top level of the file
+ *
+ * @param unit The parsed compilation unit
+ * @returns The declaration of the type, undefined if the file declares several types or none
+ */
+export function getPrimaryType(unit: CompilationUnit): TypeDeclaration | undefined {
+    const types = getTopLevelTypes(unit);
+
+    if (!types.length || types.some(type => type.name !== types[0].name) || !FileTypeKinds.includes(types[0].kind)) {
+        return undefined;
+    }
+
+    return types[0];
+}
+
+/**
+ * Builds the edits renaming the declarations of a type along with its constructors and finalizer
+ *
+ * @param types The declarations of the type, several ones for a partial type
+ * @param newName The new name of the type
+ * @returns The edits to apply to the source
+ */
+export function renameTypeDeclarations(types: TypeDeclaration[], newName: string): SourceEdit[] {
+    return types.flatMap(type => [
+        { start: type.nameStart, end: type.nameEnd, text: newName },
+        ...type.members
+            .filter(member => (member.kind === 'constructor' || member.kind === 'destructor') && member.name === type.name)
+            .map(member => ({ start: member.nameStart, end: member.nameEnd, text: newName })),
+    ]);
+}
@@ -0,0 +1,182 @@
+import Result from '../common/result';
+import { getAllNamespaces } from '../parser/declarationFinder';
+import { CompilationUnit, NamespaceDeclaration, UsingDirective } from '../parser/declarations';
+import { SourceEdit, getLineIndentation, getLineStart } from './sourceEdit';
+
+/**
+ * Compares two namespaces the way the usings of the templates are sorted, `System` namespaces first
+ *
+ * @param a The first namespace
+ * @param b The second namespace
+ * @returns A negative number if `a` comes first, a positive one if `b` comes first, zero otherwise
+ */
+export function compareUsings(a: string, b: string): number {
+    const isSystemA = a === 'System' || a.startsWith('System.');
+    const isSystemB = b === 'System' || b.startsWith('System.');
+
+    if (isSystemA !== isSystemB) {
+        return isSystemA ? -1 : 1;
+    }
+
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Builds the edits adding the using directives of the given namespaces which are not already in scope.
+ * The new directives are inserted in order among the existing top level ones.
+ *
+ * @param unit The parsed compilation unit
+ * @param namespaces The namespaces required by the generated code
+ * @param globalUsings The namespaces imported for the whole project
+ * @param eol The end of line to use
+ * @returns The edits to apply to the source
+ */
+export function addUsingDirectives(unit: CompilationUnit, namespaces: string[], globalUsings: string[], eol: string): SourceEdit[] {
+    const declaredNamespaces = getAllNamespaces(unit).map(namespace => namespace.name);
+    const importedNamespaces = [
+        ...unit.usings.filter(using => !using.alias && !using.isStatic).map(using => using.name),
+        ...getAllNamespaces(unit).flatMap(namespace => namespace.usings.filter(using => !using.alias && !using.isStatic).map(using => using.name)),
+        ...globalUsings,
+    ];
+    const missingNamespaces = Array.from(new Set(namespaces))
+        .filter(namespace => !importedNamespaces.includes(namespace))
+        .filter(namespace => !declaredNamespaces.some(declared => declared === namespace || declared.startsWith(`${namespace}.`)))
+        .sort(compareUsings);
+
+    if (!missingNamespaces.length) {
+        return [];
+    }
+
+    const usings = unit.usings.filter(using => !using.isGlobal && !using.alias && !using.isStatic);
+    if (!usings.length) {
+        const firstToken = unit.tokens.find(token => !unit.usings.some(using => token.start >= using.start && token.end <= using.end));
+        const start = firstToken ? getLineStart(unit.source, firstToken.start) : unit.source.length;
+        const directives = missingNamespaces.map(namespace => `using ${namespace};${eol}`).join('');
+
+        return [{ start, end: start, text: unit.usings.length ? directives : `${directives}${eol}` }];
+    }
+
+    // Directives inserted at the same offset are merged to keep their order
+    const edits = new Map<number, SourceEdit>();
+    missingNamespaces.forEach(namespace => {
+        const next = usings.find(using => compareUsings(namespace, using.name) < 0);
+        const start = next ? getLineStart(unit.source, next.start) : usings[usings.length - 1].end;
+        const directive = next ? `using ${namespace};${eol}` : `${eol}using ${namespace};`;
+        const edit = edits.get(start);
+
+        edits.set(start, { start, end: start, text: `${edit?.text ?? ''}${directive}` });
+    });
+
+    return Array.from(edits.values());
+}
+
+/**
+ * Builds the edits organizing the using directives of a file, at the top level and in each namespace:
+ * the directives already in scope are removed, i.e. the global and implicit usings of the project,
+ * the duplicates and the enclosing namespaces, and the others are sorted `System` namespaces first,
+ * followed by the static usings and the aliases.
+ *
+ * @param unit The parsed compilation unit
+ * @param globalUsings The namespaces imported for the whole project
+ * @param eol The end of line to use
+ * @returns The edits to apply to the source, an error if the usings are already organized or can't be reordered
+ */
+export function organizeUsings(unit: CompilationUnit, globalUsings: string[], eol: string): Result<SourceEdit[]> {
+    const fileGlobalUsings = unit.usings.filter(using => using.isGlobal && !using.alias && !using.isStatic).map(using => _normalizeName(using.name));
+    const declaredNamespaces = unit.types.length ? [] : unit.namespaces.map(namespace => _normalizeName(namespace.name));
+    const edits = new Array<SourceEdit>();
+
+    const organizeScope = (usings: UsingDirective[], importedNamespaces: string[], enclosingNamespaces: string[]): Result<string[]> => {
+        const directives = usings.filter(using => !using.isGlobal);
+        for (let i = 1; i < directives.length; i++) {
+            if (unit.source.substring(directives[i - 1].end, directives[i].start).trim()) {
+                return Result.error<string[]>('OrganizeUsingsError', 'The usings are separated by comments or preprocessor directives');
+            }
+        }
+
+        const kept = _sortUsings(_removeRedundantUsings(directives, importedNamespaces, enclosingNamespaces));
+        if (directives.length) {
+            const edit = _buildUsingsEdit(unit.source, directives, kept, eol);
+            if (unit.source.substring(edit.start, edit.end) !== edit.text) {
+                edits.push(edit);
+            }
+        }
+
+        return Result.ok<string[]>([...importedNamespaces, ...kept.filter(using => !using.alias && !using.isStatic).map(using => _normalizeName(using.name))]);
+    };
+
+    const organizeNamespaces = (namespaces: NamespaceDeclaration[], importedNamespaces: string[], parentName: string): Result<string[]> => {
+        for (const namespace of namespaces) {
+            const name = parentName ? `${parentName}.${_normalizeName(namespace.name)}` : _normalizeName(namespace.name);
+            const result = organizeScope(namespace.usings, importedNamespaces, [name])
+                .AndThenSync(imported => organizeNamespaces(namespace.namespaces, imported, name));
+            if (result.isErr()) {
+                return result;
+            }
+        }
+
+        return Result.ok<string[]>(importedNamespaces);
+    };
+
+    return organizeScope(unit.usings, [...globalUsings, ...fileGlobalUsings], declaredNamespaces)
+        .AndThenSync(imported => organizeNamespaces(unit.namespaces, imported, ''))
+        .AndThenSync(() => edits.length
+            ? Result.ok<SourceEdit[]>(edits)
+            : Result.error<SourceEdit[]>('OrganizeUsingsError', 'The usings are already organized'));
+}
+
+// `global::System . Linq` is imported as `System.Linq`
+function _normalizeName(name: string): string {
+    return name.replace(/\s+/g, '').replace(/^global::/, '');
+}
+
+// A namespace is in scope when it's already imported or when it encloses the declarations, i.e. `Foo` in `namespace Foo.Bar`
+function _removeRedundantUsings(usings: UsingDirective[], importedNamespaces: string[], enclosingNamespaces: string[]): UsingDirective[] {
+    const isEnclosing = (name: string) => enclosingNamespaces.length > 0
+        && enclosingNamespaces.every(namespace => namespace === name || namespace.startsWith(`${name}.`));
+    const keys = new Set<string>();
+
+    return usings.filter(using => {
+        const name = _normalizeName(using.name);
+        const key = `${using.alias ?? ''}=${using.isStatic ? 'static ' : ''}${name}`;
+        if (keys.has(key) || (!using.alias && !using.isStatic && (importedNamespaces.includes(name) || isEnclosing(name)))) {
+            return false;
+        }
+
+        keys.add(key);
+
+        return true;
+    });
+}
+
+function _sortUsings(usings: UsingDirective[]): UsingDirective[] {
+    const rank = (using: UsingDirective) => using.alias ? 2 : using.isStatic ? 1 : 0;
+
+    return [...usings].sort((a, b) => rank(a) - rank(b)
+        || (a.alias && b.alias ? compareUsings(a.alias, b.alias) : compareUsings(_normalizeName(a.name), _normalizeName(b.name))));
+}
+
+// The directives are replaced by the kept ones, the empty line following them being removed along with them
+function _buildUsingsEdit(source: string, directives: UsingDirective[], kept: UsingDirective[], eol: string): SourceEdit {
+    const first = directives[0];
+    const last = directives[directives.length - 1];
+    const indentation = getLineIndentation(source, first.start);
+
+    if (kept.length) {
+        const text = kept.map(using => source.substring(using.start, using.end)).join(`${eol}${indentation}`);
+
+        return { start: first.start, end: last.end, text };
+    }
+
+    const start = getLineStart(source, first.start);
+    const followingBlankLines = /^[ \t]*(\r?\n[ \t]*)*/.exec(source.substring(last.end))?.[0] ?? '';
+    const end = last.end + followingBlankLines.length;
+    if (source.substring(start, first.start).trim() || getLineStart(source, end) <= last.end) {
+        return { start: first.start, end, text: '' };
+    }
+
+    const previousLine = source.substring(getLineStart(source, start - 1), start).trim();
+    const isSeparator = previousLine !== '' && !previousLine.endsWith('{') && end < source.length;
+
+    return { start, end: getLineStart(source, end), text: isSeparator ? eol : '' };
+}
@@ -3,11 +3,16 @@ interface CSharpClassDefinition {
     endLine: number,
     className: string,
     modifier: string,
-    statement: string
+    statement: string,
+    /** Number of enclosing block scoped namespaces and types */
+    depth: number,
 }
 
+type CSharpMemberKind = 'property' | 'field';
+
 interface CSharpPropertyDefinition {
     class: CSharpClassDefinition,
+    kind: CSharpMemberKind,
     modifier: string,
     type: string,
     name: string,
@@ -18,7 +23,6 @@ interface CSharpPropertyDefinition {
 interface CSharpClass {
     properties: CSharpPropertyDefinition[],
     classDefinition: CSharpClassDefinition,
-    isFileScoped: boolean,
 }
 
 interface RegisterCommandCallbackArgument {
@@ -44,6 +48,12 @@ interface CustomTemplateConfig {
     items: [CustomTemplate];
 }
 
+interface PackageInfo {
+    name: string,
+    /** The version of the package, undefined when not set by the project nor by its central package management */
+    version?: string,
+}
+
 type CreatedFile = {
     filePath: string,
     cursorPositionArray: number[] | null,
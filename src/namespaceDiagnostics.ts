@@ -0,0 +1,228 @@
+import {
+    commands,
+    languages,
+    window,
+    workspace,
+    CodeAction,
+    CodeActionContext,
+    CodeActionKind,
+    CodeActionProvider as VSCodeCodeActionProvider,
+    Diagnostic,
+    DiagnosticCollection,
+    DiagnosticSeverity,
+    Disposable,
+    Range,
+    RelativePattern,
+    TextDocument,
+    Uri,
+    WorkspaceEdit,
+} from 'vscode';
+import * as path from 'path';
+
+import CsprojReader from './project/csprojReader';
+import DeclarationParser from './parser/declarationParser';
+import { Logger } from './logging/log';
+import { readSource, toRange } from './document/documentAction';
+import { parseDocument } from './document/documentParser';
+import { getFolderNamespace } from './generator/namespaceMover';
+import { isValidNamespace } from './generator/naming';
+import { CompilationUnit, NamespaceDeclaration } from './parser/declarations';
+
+interface NamespaceMismatch {
+    namespace: NamespaceDeclaration,
+    expectedNamespace: string,
+    projectPath: string,
+}
+
+export default class NamespaceDiagnostics implements VSCodeCodeActionProvider {
+    public static readonly ProvidedCodeActionKinds = [CodeActionKind.QuickFix];
+
+    private static readonly DiagnosticCode = 'namespaceMismatch';
+    private static readonly DiagnosticSource = 'C# Extensions';
+    /** Delay before checking an edited document, the edits of a quick fix included */
+    private static readonly ChangeDelay = 500;
+
+    private _commandIds = {
+        fixAllInProject: 'csharpextensions.fixAllNamespacesInProject',
+    };
+
+    private readonly _diagnostics: DiagnosticCollection;
+    private readonly _pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+    constructor() {
+        this._diagnostics = languages.createDiagnosticCollection('csharpextensions.namespaces');
+    }
+
+    /**
+     * Starts watching the C# documents, updating their diagnostics when opened, edited or saved,
+     * and registers the command fixing the namespaces of a project
+     *
+     * @returns The disposable stopping the watch, clearing the diagnostics and unregistering the command
+     */
+    public watch(): Disposable {
+        workspace.textDocuments.forEach(document => this.updateDiagnostics(document));
+
+        return Disposable.from(
+            this._diagnostics,
+            commands.registerCommand(this._commandIds.fixAllInProject, this.executeFixAllInProject, this),
+            workspace.onDidOpenTextDocument(document => this.updateDiagnostics(document)),
+            workspace.onDidChangeTextDocument(event => this._scheduleUpdate(event.document)),
+            workspace.onDidSaveTextDocument(document => this.updateDiagnostics(document)),
+            workspace.onDidCloseTextDocument(document => this._diagnostics.delete(document.uri)),
+            new Disposable(() => {
+                this._pendingUpdates.forEach(timeout => clearTimeout(timeout));
+                this._pendingUpdates.clear();
+            }),
+            workspace.onDidRenameFiles(event => event.files.forEach(file => {
+                this._diagnostics.delete(file.oldUri);
+
+                const document = workspace.textDocuments.find(d => d.uri.toString() === file.newUri.toString());
+                if (document) {
+                    this.updateDiagnostics(document);
+                }
+            })),
+            workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('csharpextensions.namespaceDiagnostics')) {
+                    this._diagnostics.clear();
+                    workspace.textDocuments.forEach(document => this.updateDiagnostics(document));
+                }
+            }),
+        );
+    }
+
+    public async updateDiagnostics(document: TextDocument): Promise<void> {
+        if (document.languageId !== 'csharp' || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const isEnabled = workspace.getConfiguration().get('csharpextensions.namespaceDiagnostics', true);
+        let mismatch: NamespaceMismatch | undefined;
+        try {
+            mismatch = isEnabled ? await this._findMismatch(document.fileName, parseDocument(document)) : undefined;
+        } catch (err) {
+            Logger.error(`Could not check the namespace of ${document.fileName}: ${err}`);
+        }
+
+        if (!mismatch) {
+            this._diagnostics.delete(document.uri);
+
+            return;
+        }
+
+        const diagnostic = new Diagnostic(
+            this._getRange(document, mismatch),
+            `The namespace '${mismatch.namespace.name}' does not match the folder structure, expected '${mismatch.expectedNamespace}'`,
+            DiagnosticSeverity.Warning,
+        );
+        diagnostic.code = NamespaceDiagnostics.DiagnosticCode;
+        diagnostic.source = NamespaceDiagnostics.DiagnosticSource;
+
+        this._diagnostics.set(document.uri, [diagnostic]);
+    }
+
+    public async provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext): Promise<CodeAction[]> {
+        const diagnostic = context.diagnostics.find(d => d.code === NamespaceDiagnostics.DiagnosticCode && d.source === NamespaceDiagnostics.DiagnosticSource);
+        if (!diagnostic) {
+            return [];
+        }
+
+        let mismatch: NamespaceMismatch | undefined;
+        try {
+            mismatch = await this._findMismatch(document.fileName, parseDocument(document));
+        } catch (err) {
+            Logger.error(`Could not check the namespace of ${document.fileName}: ${err}`);
+        }
+
+        if (!mismatch) {
+            return [];
+        }
+
+        const codeActions = new Array<CodeAction>();
+
+        const fixAction = new CodeAction(`Change namespace to '${mismatch.expectedNamespace}'`, CodeActionKind.QuickFix);
+        fixAction.edit = new WorkspaceEdit();
+        fixAction.edit.replace(document.uri, this._getRange(document, mismatch), mismatch.expectedNamespace);
+        fixAction.diagnostics = [diagnostic];
+        fixAction.isPreferred = true;
+        codeActions.push(fixAction);
+
+        const fixAllAction = new CodeAction(`Fix all namespaces in ${path.basename(mismatch.projectPath)}`, CodeActionKind.QuickFix);
+        fixAllAction.diagnostics = [diagnostic];
+        fixAllAction.command = {
+            title: fixAllAction.title,
+            command: this._commandIds.fixAllInProject,
+            arguments: [mismatch.projectPath],
+        };
+        codeActions.push(fixAllAction);
+
+        return codeActions;
+    }
+
+    private async executeFixAllInProject(projectPath: string) {
+        const files = await workspace.findFiles(new RelativePattern(Uri.file(path.dirname(projectPath)), '**/*.cs'), '**/{bin,obj}/**');
+        const edit = new WorkspaceEdit();
+
+        for (const file of files) {
+            try {
+                const source = await readSource(file);
+                const mismatch = await this._findMismatch(file.fsPath, DeclarationParser.parse(source));
+
+                // Nested projects fix their own files
+                if (mismatch?.projectPath === projectPath) {
+                    edit.replace(file, toRange(source, mismatch.namespace.nameStart, mismatch.namespace.nameEnd), mismatch.expectedNamespace);
+                }
+            } catch (err) {
+                Logger.error(`Could not check the namespace of ${file.fsPath}: ${err}`);
+            }
+        }
+
+        if (!edit.size) {
+            window.showInformationMessage(`The namespaces of ${path.basename(projectPath)} already match the folder structure`);
+
+            return;
+        }
+
+        Logger.debug(`Fixing the namespaces of ${edit.size} files in ${projectPath}`);
+
+        await workspace.applyEdit(edit);
+    }
+
+    private _scheduleUpdate(document: TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this._pendingUpdates.get(key));
+
+        this._pendingUpdates.set(key, setTimeout(() => {
+            this._pendingUpdates.delete(key);
+            this.updateDiagnostics(document);
+        }, NamespaceDiagnostics.ChangeDelay));
+    }
+
+    private _getRange(document: TextDocument, mismatch: NamespaceMismatch): Range {
+        return new Range(document.positionAt(mismatch.namespace.nameStart), document.positionAt(mismatch.namespace.nameEnd));
+    }
+
+    private async _findMismatch(filePath: string, unit: CompilationUnit): Promise<NamespaceMismatch | undefined> {
+        // Files declaring several namespaces are organized on purpose
+        if (unit.namespaces.length !== 1) {
+            return undefined;
+        }
+
+        // The files out of a project have no expected namespace
+        const csprojReader = await CsprojReader.createFromPath(filePath);
+        if (!csprojReader) {
+            return undefined;
+        }
+
+        // MSBuild defaults the root namespace to the name of the project file
+        const projectPath = csprojReader.getFilePath();
+        const rootNamespace = await csprojReader.getRootNamespace() ?? path.basename(projectPath, '.csproj');
+        const expectedNamespace = getFolderNamespace(rootNamespace, filePath, path.dirname(projectPath));
+        const namespace = unit.namespaces[0];
+
+        if (!expectedNamespace || !isValidNamespace(expectedNamespace) || namespace.name === expectedNamespace) {
+            return undefined;
+        }
+
+        return { namespace, expectedNamespace, projectPath };
+    }
+}
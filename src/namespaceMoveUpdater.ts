@@ -0,0 +1,201 @@
+import {
+    workspace,
+    Disposable,
+    EndOfLine,
+    FileRenameEvent,
+    FileType,
+    Range,
+    RelativePattern,
+    TextDocument,
+    Uri,
+    WorkspaceEdit,
+    WorkspaceEditEntryMetadata,
+} from 'vscode';
+import * as path from 'path';
+
+import NamespaceDetector from './namespaceDetector';
+import CsprojReader from './project/csprojReader';
+import GlobalUsingFinder from './project/globalUsings';
+import { Logger } from './logging/log';
+import { parseDocument } from './document/documentParser';
+import { isValidNamespace } from './generator/naming';
+import { NamespaceMove, getMovableNamespace, getMovedNamespace, updateNamespaceReferences } from './generator/namespaceMover';
+import { getAllNamespaces } from './parser/declarationFinder';
+import { CompilationUnit } from './parser/declarations';
+
+interface MovedFile {
+    uri: Uri,
+    newPath: string,
+}
+
+interface SourceFile {
+    document: TextDocument,
+    unit: CompilationUnit,
+    /** The namespace the file is moved to, undefined when it keeps its namespace */
+    newNamespace?: string,
+}
+
+export default class NamespaceMoveUpdater {
+    private static readonly ExcludedFolders = '**/{bin,obj}/**';
+
+    /**
+     * Starts updating the namespaces of the C# files moved or renamed within the workspace
+     *
+     * @returns The disposable stopping the updates
+     */
+    public watch(): Disposable {
+        return workspace.onWillRenameFiles(event => {
+            if (workspace.getConfiguration().get('csharpextensions.updateNamespacesOnMove', true)) {
+                event.waitUntil(this.buildEdit(event));
+            }
+        });
+    }
+
+    /**
+     * Builds the edit moving the C# files of the event to the namespaces of their new folders.
+     * The using directives of the other files of their projects are updated accordingly,
+     * the edits are shown in the refactor preview before being applied with the rename.
+     *
+     * @param event The rename event of the files and folders about to be moved
+     * @returns The edit to apply, empty if no namespace changes
+     */
+    public async buildEdit(event: FileRenameEvent): Promise<WorkspaceEdit> {
+        const edit = new WorkspaceEdit();
+
+        try {
+            const movedFiles = (await Promise.all(event.files.map(file => this._findMovedFiles(file.oldUri, file.newUri)))).flat();
+            const projects = new Map<string, SourceFile[]>();
+
+            for (const movedFile of movedFiles) {
+                const sourceFile = await this._moveFile(movedFile);
+                if (!sourceFile) {
+                    continue;
+                }
+
+                const projectPath = (await CsprojReader.createFromPath(movedFile.uri.fsPath))?.getFilePath() ?? '';
+                projects.set(projectPath, [...projects.get(projectPath) ?? [], sourceFile]);
+            }
+
+            for (const [projectPath, sourceFiles] of projects) {
+                await this._updateProject(projectPath, sourceFiles, edit);
+            }
+        } catch (err) {
+            Logger.error(`Could not update the namespaces of the moved files: ${err}`);
+        }
+
+        return edit;
+    }
+
+    private async _findMovedFiles(oldUri: Uri, newUri: Uri): Promise<MovedFile[]> {
+        if (oldUri.scheme !== 'file') {
+            return [];
+        }
+
+        if (oldUri.fsPath.endsWith('.cs')) {
+            return [{ uri: oldUri, newPath: newUri.fsPath }];
+        }
+
+        const stat = await workspace.fs.stat(oldUri);
+        if (!(stat.type & FileType.Directory)) {
+            return [];
+        }
+
+        const files = await workspace.findFiles(new RelativePattern(oldUri, '**/*.cs'), NamespaceMoveUpdater.ExcludedFolders);
+
+        return files.map(file => ({ uri: file, newPath: path.join(newUri.fsPath, path.relative(oldUri.fsPath, file.fsPath)) }));
+    }
+
+    private async _moveFile(movedFile: MovedFile): Promise<SourceFile | undefined> {
+        const document = await workspace.openTextDocument(movedFile.uri);
+        const unit = parseDocument(document);
+        const namespace = getMovableNamespace(unit);
+
+        // Only the namespaces following the folder structure follow the file
+        if (!namespace || namespace.name !== await new NamespaceDetector(movedFile.uri.fsPath).getNamespace()) {
+            return undefined;
+        }
+
+        // The new folder doesn't exist before the rename, the namespace is computed from the old one
+        const projectPath = (await CsprojReader.createFromPath(movedFile.uri.fsPath))?.getFilePath();
+        const rootFolder = projectPath ? path.dirname(projectPath) : workspace.getWorkspaceFolder(movedFile.uri)?.uri.fsPath;
+        const newNamespace = rootFolder ? getMovedNamespace(namespace.name, movedFile.uri.fsPath, movedFile.newPath, rootFolder) : undefined;
+        if (newNamespace === undefined || !isValidNamespace(newNamespace) || newNamespace === namespace.name) {
+            return undefined;
+        }
+
+        return { document, unit, newNamespace };
+    }
+
+    private async _updateProject(projectPath: string, movedFiles: SourceFile[], edit: WorkspaceEdit) {
+        const csprojReader = projectPath ? await CsprojReader.createFromPath(projectPath) : undefined;
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+        const sourceFiles = [...movedFiles, ...projectPath ? await this._findProjectFiles(projectPath, movedFiles) : []];
+
+        const moves = new Array<NamespaceMove>();
+        movedFiles.forEach(movedFile => {
+            const namespace = getMovableNamespace(movedFile.unit);
+            const newNamespace = movedFile.newNamespace;
+            if (!namespace || newNamespace === undefined) {
+                return;
+            }
+
+            const typeNames = namespace.types.map(type => type.name);
+            const move = moves.find(m => m.oldNamespace === namespace.name && m.newNamespace === newNamespace);
+
+            if (move) {
+                move.typeNames.push(...typeNames);
+            } else {
+                moves.push({ oldNamespace: namespace.name, newNamespace, typeNames });
+            }
+        });
+
+        const remainingTypes = new Map<string, string[]>();
+        sourceFiles.filter(sourceFile => sourceFile.newNamespace === undefined).forEach(sourceFile => {
+            getAllNamespaces(sourceFile.unit).forEach(namespace => {
+                remainingTypes.set(namespace.name, [...remainingTypes.get(namespace.name) ?? [], ...namespace.types.map(type => type.name)]);
+            });
+        });
+
+        const metadata: WorkspaceEditEntryMetadata = { label: 'Update the namespaces of the moved files', needsConfirmation: true };
+
+        sourceFiles.forEach(({ document, unit, newNamespace }) => {
+            const eol = document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+            const sourceEdits = updateNamespaceReferences(unit, moves, remainingTypes, newNamespace, { eol, globalUsings });
+
+            sourceEdits.forEach(sourceEdit => {
+                const range = new Range(document.positionAt(sourceEdit.start), document.positionAt(sourceEdit.end));
+                edit.replace(document.uri, range, sourceEdit.text, metadata);
+            });
+        });
+
+        Logger.debug(`Updating the namespaces of ${movedFiles.length} moved files in ${projectPath || 'the workspace'}`);
+    }
+
+    private async _findProjectFiles(projectPath: string, movedFiles: SourceFile[]): Promise<SourceFile[]> {
+        const files = await workspace.findFiles(new RelativePattern(Uri.file(path.dirname(projectPath)), '**/*.cs'), NamespaceMoveUpdater.ExcludedFolders);
+        const movedUris = movedFiles.map(movedFile => movedFile.document.uri.toString());
+        const projectPaths = new Map<string, string | undefined>();
+        const sourceFiles = new Array<SourceFile>();
+
+        for (const file of files) {
+            if (movedUris.includes(file.toString())) {
+                continue;
+            }
+
+            // Nested projects don't see the namespaces of this one
+            const folder = path.dirname(file.fsPath);
+            if (!projectPaths.has(folder)) {
+                projectPaths.set(folder, (await CsprojReader.createFromPath(file.fsPath))?.getFilePath());
+            }
+
+            if (projectPaths.get(folder) !== projectPath) {
+                continue;
+            }
+
+            const document = await workspace.openTextDocument(file);
+            sourceFiles.push({ document, unit: parseDocument(document) });
+        }
+
+        return sourceFiles;
+    }
+}
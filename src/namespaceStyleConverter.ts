@@ -0,0 +1,176 @@
+import {
+    commands,
+    window,
+    workspace,
+    Disposable,
+    FileType,
+    QuickPickItem,
+    RelativePattern,
+    Uri,
+    WorkspaceEdit,
+    WorkspaceEditEntryMetadata,
+} from 'vscode';
+import * as path from 'path';
+
+import CsprojReader from './project/csprojReader';
+import DeclarationParser from './parser/declarationParser';
+import { Logger } from './logging/log';
+import { readSource, toRange } from './document/documentAction';
+import { NamespaceConversionOptions, convertToBlockScopedNamespace, convertToFileScopedNamespace } from './generator/namespaceConverter';
+
+type NamespaceStyle = 'fileScoped' | 'blockScoped';
+
+interface ScopeQuickPickItem extends QuickPickItem {
+    findFiles: () => Promise<Uri[]>,
+}
+
+export default class NamespaceStyleConverter {
+    private static readonly ExcludedFolders = '**/{bin,obj}/**';
+    /** File scoped namespaces have been introduced by C# 10 */
+    private static readonly FileScopedNamespaceLanguageVersion = 10;
+
+    private _commandIds = {
+        toFileScoped: 'csharpextensions.convertToFileScopedNamespace',
+        toBlockScoped: 'csharpextensions.convertToBlockScopedNamespace',
+    };
+
+    /**
+     * Registers the commands converting the namespaces to the file scoped and the block scoped styles
+     *
+     * @returns The disposable unregistering the commands
+     */
+    public register(): Disposable {
+        return Disposable.from(
+            commands.registerCommand(this._commandIds.toFileScoped, (uri?: Uri) => this.executeConversion('fileScoped', uri), this),
+            commands.registerCommand(this._commandIds.toBlockScoped, (uri?: Uri) => this.executeConversion('blockScoped', uri), this),
+        );
+    }
+
+    /**
+     * Converts the namespaces of the C# files of a scope to the given style.
+     * The scope is the file, folder or project the command has been invoked on from the explorer,
+     * otherwise it's picked by the user. The edits are shown in the refactor preview before being applied.
+     *
+     * @param style The namespace style to convert to
+     * @param uri The file, folder or project the command has been invoked on
+     */
+    private async executeConversion(style: NamespaceStyle, uri?: Uri) {
+        const files = uri ? await this._findFilesFromUri(uri) : await this._pickFiles();
+        if (!files)
+            return;
+
+        const label = style === 'fileScoped' ? 'Convert to file-scoped namespace' : 'Convert to block-scoped namespace';
+        const metadata: WorkspaceEditEntryMetadata = { label, needsConfirmation: true };
+        const supportedProjects = new Map<string, boolean>();
+        const edit = new WorkspaceEdit();
+        const skippedFiles = new Array<string>();
+
+        for (const file of files) {
+            if (style === 'fileScoped' && !await this._supportsFileScopedNamespace(file, supportedProjects)) {
+                skippedFiles.push(file.fsPath);
+                continue;
+            }
+
+            let source: string;
+            try {
+                source = await readSource(file);
+            } catch (err) {
+                Logger.error(`Could not read ${file.fsPath}: ${err}`);
+                continue;
+            }
+
+            const options = this._getConversionOptions(file, source);
+            const unit = DeclarationParser.parse(source);
+            const result = style === 'fileScoped' ? convertToFileScopedNamespace(unit, options) : convertToBlockScopedNamespace(unit, options);
+
+            if (result.isErr()) {
+                Logger.debug(`${file.fsPath} not converted: ${result.info()}`);
+                continue;
+            }
+
+            result.value().forEach(sourceEdit => edit.replace(file, toRange(source, sourceEdit.start, sourceEdit.end), sourceEdit.text, metadata));
+        }
+
+        if (skippedFiles.length) {
+            Logger.warn(`Files skipped because their project doesn't support file scoped namespaces: ${skippedFiles.join(', ')}`);
+        }
+
+        if (!edit.size) {
+            const reason = skippedFiles.length ? ', the projects below C# 10 have been skipped' : '';
+            window.showInformationMessage(`There's no namespace to convert${reason}`);
+
+            return;
+        }
+
+        await workspace.applyEdit(edit);
+    }
+
+    private _getConversionOptions(file: Uri, source: string): NamespaceConversionOptions {
+        const configuration = workspace.getConfiguration('editor', file);
+        const tabSize = configuration.get('tabSize', 4);
+        const insertSpaces = configuration.get('insertSpaces', true);
+
+        return {
+            eol: source.includes('\r\n') ? '\r\n' : '\n',
+            tabSize,
+            indentation: insertSpaces ? ' '.repeat(tabSize) : '\t',
+        };
+    }
+
+    private async _supportsFileScopedNamespace(file: Uri, supportedProjects: Map<string, boolean>): Promise<boolean> {
+        const csprojReader = await CsprojReader.createFromPath(file.fsPath);
+        if (!csprojReader) {
+            return false;
+        }
+
+        const projectPath = csprojReader.getFilePath();
+        if (!supportedProjects.has(projectPath)) {
+            const languageVersion = await csprojReader.getLanguageVersion();
+            supportedProjects.set(projectPath, languageVersion !== undefined && languageVersion >= NamespaceStyleConverter.FileScopedNamespaceLanguageVersion);
+        }
+
+        return supportedProjects.get(projectPath) === true;
+    }
+
+    private async _findFilesFromUri(uri: Uri): Promise<Uri[]> {
+        const stat = await workspace.fs.stat(uri);
+
+        if (stat.type & FileType.Directory) {
+            return await this._findFilesInFolder(uri);
+        }
+
+        if (uri.fsPath.endsWith('.csproj')) {
+            return await this._findFilesInFolder(Uri.file(path.dirname(uri.fsPath)));
+        }
+
+        return uri.fsPath.endsWith('.cs') ? [uri] : [];
+    }
+
+    private async _findFilesInFolder(folder: Uri): Promise<Uri[]> {
+        return await workspace.findFiles(new RelativePattern(folder, '**/*.cs'), NamespaceStyleConverter.ExcludedFolders);
+    }
+
+    private async _pickFiles(): Promise<Uri[] | undefined> {
+        const items = new Array<ScopeQuickPickItem>();
+        const document = window.activeTextEditor?.document;
+
+        if (document?.languageId === 'csharp' && !document.isUntitled) {
+            items.push({ label: 'Current file', description: workspace.asRelativePath(document.uri), findFiles: async () => [document.uri] });
+
+            const projectPath = (await CsprojReader.createFromPath(document.fileName))?.getFilePath();
+            if (projectPath) {
+                items.push({
+                    label: 'Current project',
+                    description: path.basename(projectPath),
+                    findFiles: async () => await this._findFilesInFolder(Uri.file(path.dirname(projectPath))),
+                });
+            }
+        }
+
+        items.push({ label: 'Workspace', findFiles: async () => await workspace.findFiles('**/*.cs', NamespaceStyleConverter.ExcludedFolders) });
+
+        const scope = await window.showQuickPick(items, { title: 'Select the files to convert' });
+
+        return scope ? await scope.findFiles() : undefined;
+    }
+}
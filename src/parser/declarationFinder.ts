@@ -0,0 +1,325 @@
+import { BodyDeclaration, CompilationUnit, MemberDeclaration, MemberKind, NamespaceDeclaration, TypeDeclaration, TypeKind } from './declarations';
+import { Token, TokenKind } from './tokenizer';
+
+const Accessibilities = ['public', 'private', 'protected', 'internal', 'file'];
+
+function flattenTypes(types: TypeDeclaration[]): TypeDeclaration[] {
+    return types.flatMap(type => [type, ...flattenTypes(type.types)]);
+}
+
+/**
+ * Retrieves all the namespaces declared in the compilation unit, nested ones included
+ *
+ * @param unit The parsed compilation unit
+ * @returns The namespaces in declaration order
+ */
+export function getAllNamespaces(unit: CompilationUnit): NamespaceDeclaration[] {
+    const flatten = (namespaces: NamespaceDeclaration[]): NamespaceDeclaration[] => namespaces.flatMap(ns => [ns, ...flatten(ns.namespaces)]);
+
+    return flatten(unit.namespaces);
+}
+
+/**
+ * Retrieves all the types declared in the compilation unit, nested ones included
+ *
+ * @param unit The parsed compilation unit
+ * @returns The types in declaration order
+ */
+export function getAllTypes(unit: CompilationUnit): TypeDeclaration[] {
+    return [
+        ...flattenTypes(unit.types),
+        ...getAllNamespaces(unit).flatMap(ns => flattenTypes(ns.types)),
+    ].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Retrieves the types declared directly in a namespace or in the global namespace
+ *
+ * @param unit The parsed compilation unit
+ * @returns The top level types in declaration order
+ */
+export function getTopLevelTypes(unit: CompilationUnit): TypeDeclaration[] {
+    return [...unit.types, ...getAllNamespaces(unit).flatMap(ns => ns.types)].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds the innermost type containing the given offset
+ *
+ * @param unit The parsed compilation unit
+ * @param offset The offset to look for, i.e. the cursor position
+ * @param kinds The accepted kinds of type, all if not specified
+ * @returns The innermost type, or undefined
+ */
+export function findTypeAtOffset(unit: CompilationUnit, offset: number, kinds?: TypeKind[]): TypeDeclaration | undefined {
+    return getAllTypes(unit)
+        .filter(type => type.fullStart <= offset && offset <= type.end)
+        .filter(type => !kinds || kinds.includes(type.kind))
+        .sort((a, b) => b.depth - a.depth)[0];
+}
+
+/**
+ * Finds the member of the type containing the given offset
+ *
+ * @param type The type declaring the member
+ * @param offset The offset to look for, i.e. the cursor position
+ * @param kinds The accepted kinds of member, all if not specified
+ * @returns The member, or undefined
+ */
+export function findMemberAtOffset(type: TypeDeclaration, offset: number, kinds?: MemberKind[]): MemberDeclaration | undefined {
+    return type.members
+        .filter(member => member.fullStart <= offset && offset <= member.end)
+        .find(member => !kinds || kinds.includes(member.kind));
+}
+
+/**
+ * Finds the file scoped namespace of the compilation unit
+ *
+ * @param unit The parsed compilation unit
+ * @returns The file scoped namespace, or undefined if the namespaces are block scoped
+ */
+export function getFileScopedNamespace(unit: CompilationUnit): NamespaceDeclaration | undefined {
+    return unit.namespaces.find(ns => ns.isFileScoped);
+}
+
+/**
+ * Retrieves the accessibility of a declaration, i.e. `protected internal`
+ *
+ * @param modifiers The modifiers of the declaration
+ * @returns The accessibility, or undefined if it's not explicitly declared
+ */
+export function getAccessibility(modifiers: string[]): string | undefined {
+    const accessibility = modifiers.filter(modifier => Accessibilities.includes(modifier));
+
+    return accessibility.length ? accessibility.join(' ') : undefined;
+}
+
+/**
+ * Retrieves the names of the members assigned within a body, i.e. `_logger` for `_logger = logger;` or `A` and `B` for `(this.A, this.B) = (a, b);`
+ *
+ * @param unit The parsed compilation unit
+ * @param body The body of a constructor or method
+ * @returns The assigned member names
+ */
+export function getAssignedMembers(unit: CompilationUnit, body: BodyDeclaration): string[] {
+    const tokens = unit.tokens.filter(token => token.start >= body.start && token.end <= body.end);
+    const isMemberReference = (index: number) => tokens[index].kind === TokenKind.Identifier
+        && tokens[index].text !== 'this'
+        && (tokens[index - 1]?.text !== '.' || tokens[index - 2]?.text === 'this');
+    const assigned = new Set<string>();
+
+    tokens.forEach((token, index) => {
+        if (token.kind !== TokenKind.Punctuation || token.text !== '=' || index === 0) {
+            return;
+        }
+
+        if (tokens[index - 1].text !== ')') {
+            if (isMemberReference(index - 1)) {
+                assigned.add(tokens[index - 1].text);
+            }
+
+            return;
+        }
+
+        // Deconstruction, i.e. `(A, B) = (a, b)`
+        let depth = 0;
+        let tupleStart = index - 1;
+        for (; tupleStart >= 0; tupleStart--) {
+            if (tokens[tupleStart].text === ')') {
+                depth++;
+            } else if (tokens[tupleStart].text === '(') {
+                depth--;
+                if (depth === 0) {
+                    break;
+                }
+            }
+        }
+
+        for (let i = tupleStart + 1; i < index - 1; i++) {
+            if (isMemberReference(i) && [',', ')'].includes(tokens[i + 1].text)) {
+                assigned.add(tokens[i].text);
+            }
+        }
+    });
+
+    return Array.from(assigned);
+}
+
+/**
+ * Retrieves the offset right after the closing angle bracket of the type parameters of a type
+ *
+ * @param unit The parsed compilation unit
+ * @param type The type declaration
+ * @returns The end offset of the type parameter list, undefined if the type is not generic
+ */
+export function getTypeParametersEnd(unit: CompilationUnit, type: TypeDeclaration): number | undefined {
+    if (!type.typeParameters) {
+        return undefined;
+    }
+
+    let depth = 0;
+    const closingToken = unit.tokens.find(token => {
+        if (token.start < type.nameEnd) {
+            return false;
+        }
+
+        if (token.text === '<') {
+            depth++;
+        } else if (token.text === '>') {
+            depth--;
+        }
+
+        return depth === 0;
+    });
+
+    return closingToken?.end;
+}
+
+/**
+ * Counts the statements of a body, nested blocks count as part of their statement
+ *
+ * @param unit The parsed compilation unit
+ * @param body The body of a member
+ * @returns The number of top level statements, one for expression bodies
+ */
+export function countStatements(unit: CompilationUnit, body: BodyDeclaration): number {
+    if (body.kind === 'expression') {
+        return 1;
+    }
+
+    let depth = 0;
+    let count = 0;
+    unit.tokens
+        .filter(token => token.start > body.start && token.end < body.end)
+        .forEach(token => {
+            if (['(', '[', '{'].includes(token.text)) {
+                depth++;
+            } else if ([')', ']', '}'].includes(token.text)) {
+                depth--;
+                if (depth === 0 && token.text === '}') {
+                    count++;
+                }
+            } else if (depth === 0 && token.text === ';') {
+                count++;
+            }
+        });
+
+    return count;
+}
+
+// The keywords preceding an identifier which is referenced rather than declared, i.e. `return name;`
+const ExpressionKeywords = ['return', 'await', 'throw', 'new', 'in', 'is', 'as', 'case', 'yield', 'else', 'goto', 'out', 'ref', 'when', 'not', 'and', 'or'];
+
+interface LambdaScope {
+    name: string,
+    /** Offset of the declaration of the lambda parameter */
+    start: number,
+    /** Offset right after the body of the lambda */
+    end: number,
+}
+
+/**
+ * Retrieves the ranges where a name refers to a local rather than to a member or a parameter of the type:
+ * the whole range for the locals, i.e. `var name = ...`, `out Foo name` or `catch (Exception name)`,
+ * the lambda only for its parameters, i.e. `name => ...`
+ *
+ * @param unit The parsed compilation unit
+ * @param start The start of the range, i.e. of a member
+ * @param end The end of the range
+ * @param name The name
+ * @returns The ranges where the name is shadowed, empty if it's never declared within the range
+ */
+export function getLocalScopes(unit: CompilationUnit, start: number, end: number, name: string): Array<{ start: number, end: number }> {
+    const tokens = unit.tokens.filter(token => token.start >= start && token.end <= end);
+    const lambdaScopes = _getLambdaScopes(tokens);
+    const locals = _getLocalNames(tokens.filter(token => !lambdaScopes.some(scope => scope.start === token.start)));
+
+    if (locals.includes(name)) {
+        return [{ start, end }];
+    }
+
+    return lambdaScopes.filter(scope => scope.name === name).map(scope => ({ start: scope.start, end: scope.end }));
+}
+
+// The locals declared by the tokens, i.e. `var name = ...`, `out Foo name` or `catch (Exception name)`
+function _getLocalNames(tokens: Token[]): string[] {
+    const locals = new Set<string>();
+
+    tokens.forEach((token, index) => {
+        const previous = tokens[index - 1];
+        if (token.kind !== TokenKind.Identifier || !previous) {
+            return;
+        }
+
+        const followsType = (previous.kind === TokenKind.Identifier && !ExpressionKeywords.includes(previous.text))
+            || [']', '?'].includes(previous.text)
+            || (previous.text === '>' && _closesTypeArguments(tokens, index - 1));
+        if (followsType && ['=', ';', ',', ')', 'in', '&&', '||'].includes(tokens[index + 1]?.text ?? '')) {
+            locals.add(token.text);
+        }
+    });
+
+    return Array.from(locals);
+}
+
+// The parameters of the lambdas, i.e. `name => ...` or `(a, b) => { ... }`, only shadow within the lambda
+function _getLambdaScopes(tokens: Token[]): LambdaScope[] {
+    const scopes = new Array<LambdaScope>();
+
+    tokens.forEach((token, index) => {
+        if (token.text !== '=>') {
+            return;
+        }
+
+        const parameters = new Array<Token>();
+        if (tokens[index - 1]?.kind === TokenKind.Identifier) {
+            parameters.push(tokens[index - 1]);
+        } else if (tokens[index - 1]?.text === ')') {
+            for (let i = index - 2; i >= 0 && tokens[i].text !== '('; i--) {
+                // The last identifier before each comma is the name, i.e. `(int a, b)`
+                if (tokens[i].kind === TokenKind.Identifier && [',', ')'].includes(tokens[i + 1].text)) {
+                    parameters.push(tokens[i]);
+                }
+            }
+        }
+
+        const end = _getLambdaEnd(tokens, index + 1);
+        parameters.forEach(parameter => scopes.push({ name: parameter.text, start: parameter.start, end }));
+    });
+
+    return scopes;
+}
+
+// The end of the body of a lambda, a block or an expression ending with its enclosing argument list or statement
+function _getLambdaEnd(tokens: Token[], bodyIndex: number): number {
+    let depth = 0;
+    for (let i = bodyIndex; i < tokens.length; i++) {
+        const text = tokens[i].text;
+        if (['(', '[', '{'].includes(text)) {
+            depth++;
+        } else if ([')', ']', '}'].includes(text)) {
+            depth--;
+        }
+
+        const isBlockEnd = depth === 0 && text === '}' && tokens[bodyIndex].text === '{';
+        if (isBlockEnd || depth < 0 || (depth === 0 && [',', ';'].includes(text))) {
+            return tokens[i].end;
+        }
+    }
+
+    return tokens[tokens.length - 1]?.end ?? 0;
+}
+
+// Whether `>` closes type arguments, i.e. `List<int> name`, rather than comparing, i.e. `a > name`
+function _closesTypeArguments(tokens: Token[], index: number): boolean {
+    for (let i = index - 1; i >= 0; i--) {
+        if (tokens[i].text === '<') {
+            return true;
+        }
+
+        if ([';', '{', '}', '(', ')', '=', '&&', '||', '>'].includes(tokens[i].text)) {
+            return false;
+        }
+    }
+
+    return false;
+}
@@ -0,0 +1,1029 @@
+import {
+    AccessorDeclaration,
+    AttributeSection,
+    BodyDeclaration,
+    CompilationUnit,
+    MemberDeclaration,
+    NamespaceDeclaration,
+    ParameterDeclaration,
+    SyntaxNode,
+    TypeDeclaration,
+    TypeKind,
+    UsingDirective,
+} from './declarations';
+import Tokenizer, { Comment, Token, TokenKind } from './tokenizer';
+
+interface DeclarationContainer {
+    usings: UsingDirective[],
+    namespaces: NamespaceDeclaration[],
+    types: TypeDeclaration[],
+}
+
+interface DeclarationHeader {
+    start: number,
+    headerStart: number,
+    attributes: AttributeSection[],
+    modifiers: string[],
+}
+
+interface TypeSyntax {
+    text: string,
+    start: number,
+    end: number,
+}
+
+interface ParameterList {
+    parameters: ParameterDeclaration[],
+    start: number,
+    end: number,
+}
+
+interface AccessorList {
+    accessors: AccessorDeclaration[],
+    start: number,
+    end: number,
+}
+
+/**
+ * Lightweight parser of the C# declarations.
+ * It does not validate the code: it only recognizes usings, namespaces, types and members,
+ * skipping statements and expressions. Incomplete code never makes it throw.
+ */
+export default class DeclarationParser {
+    private static readonly Modifiers = new Set([
+        'public', 'private', 'protected', 'internal', 'file', 'static', 'sealed', 'abstract', 'partial', 'readonly',
+        'const', 'virtual', 'override', 'new', 'extern', 'unsafe', 'volatile', 'async', 'required', 'ref', 'fixed',
+        'implicit', 'explicit',
+    ]);
+    private static readonly ParameterModifiers = new Set(['this', 'ref', 'out', 'in', 'params', 'scoped', 'readonly']);
+    private static readonly AccessorModifiers = new Set(['public', 'private', 'protected', 'internal', 'readonly']);
+    private static readonly AccessorKeywords = new Set(['get', 'set', 'init', 'add', 'remove']);
+    private static readonly TypeKeywords = new Set(['class', 'struct', 'interface', 'enum']);
+    private static readonly GenericArgumentTokens = new Set([',', '.', '::', '?', '[', ']', '(', ')', '*', '<', '>']);
+
+    private readonly _source: string;
+    private readonly _tokens: Token[];
+    private readonly _comments: Comment[];
+    private readonly _lineStarts: number[];
+    private _index = 0;
+
+    private constructor(source: string) {
+        const { tokens, comments } = Tokenizer.tokenize(source);
+
+        this._source = source;
+        this._tokens = tokens;
+        this._comments = comments;
+        this._lineStarts = [0];
+
+        for (let i = 0; i < source.length; i++) {
+            if (source[i] === '\n') {
+                this._lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    /**
+     * Parses the declarations of the given C# source
+     *
+     * @param source The C# source code
+     * @returns The compilation unit with usings, namespaces and types of the source
+     */
+    public static parse(source: string): CompilationUnit {
+        const parser = new DeclarationParser(source);
+        const unit: CompilationUnit = {
+            source,
+            tokens: parser._tokens,
+            comments: parser._comments,
+            usings: [],
+            namespaces: [],
+            types: [],
+        };
+
+        parser._parseNamespaceMembers(unit, '', 0, false);
+
+        return unit;
+    }
+
+    private _current(): Token | undefined {
+        return this._tokens[this._index];
+    }
+
+    private _is(text: string, lookahead = 0): boolean {
+        const token = this._tokens[this._index + lookahead];
+
+        return !!token && token.text === text && token.kind !== TokenKind.StringLiteral && token.kind !== TokenKind.CharLiteral;
+    }
+
+    private _isIdentifier(lookahead = 0): boolean {
+        return this._tokens[this._index + lookahead]?.kind === TokenKind.Identifier;
+    }
+
+    private _isEof(): boolean {
+        return this._index >= this._tokens.length;
+    }
+
+    private _advance(): Token {
+        return this._tokens[this._index++];
+    }
+
+    private _lastEnd(): number {
+        return this._index > 0 ? this._tokens[this._index - 1].end : 0;
+    }
+
+    private _currentStart(): number {
+        return this._current()?.start ?? this._source.length;
+    }
+
+    private _lineOf(offset: number): number {
+        let low = 0;
+        let high = this._lineStarts.length - 1;
+
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this._lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return low;
+    }
+
+    private _node(start: number, end: number): SyntaxNode {
+        return {
+            start,
+            end,
+            startLine: this._lineOf(start),
+            endLine: this._lineOf(Math.max(start, end - 1)),
+        };
+    }
+
+    private _textBetween(start: number, end: number): string {
+        return this._source.substring(start, end).trim();
+    }
+
+    private _getFullStart(start: number): number {
+        let fullStart = start;
+
+        for (let i = this._comments.length - 1; i >= 0; i--) {
+            const comment = this._comments[i];
+            if (comment.end > fullStart) {
+                continue;
+            }
+
+            const lineStart = this._lineStarts[this._lineOf(comment.start)];
+            const isOnItsOwnLine = this._source.substring(lineStart, comment.start).trim() === '';
+            const isAdjacent = this._source.substring(comment.end, fullStart).trim() === '';
+
+            if (!isOnItsOwnLine || !isAdjacent) {
+                break;
+            }
+
+            fullStart = comment.start;
+        }
+
+        return fullStart;
+    }
+
+    private _parseNamespaceMembers(container: DeclarationContainer, namespace: string, depth: number, isBlock: boolean): void {
+        while (!this._isEof()) {
+            if (isBlock && this._is('}')) {
+                return;
+            }
+
+            const startIndex = this._index;
+
+            if ((this._is('using') || (this._is('global') && this._is('using', 1))) && this._tryParseUsing(container)) {
+                continue;
+            }
+
+            if (this._is('namespace')) {
+                this._parseNamespace(container, namespace, depth);
+                continue;
+            }
+
+            const header = this._parseDeclarationHeader();
+            if (this._isTypeKeyword()) {
+                container.types.push(this._parseType(header, namespace, depth, []));
+                continue;
+            }
+
+            if (header.attributes.length && !header.modifiers.length) {
+                // Global attributes, i.e. `[assembly: InternalsVisibleTo("Tests")]`
+                continue;
+            }
+
+            this._skipStatement();
+            if (this._index === startIndex) {
+                this._advance();
+            }
+        }
+    }
+
+    private _tryParseUsing(container: DeclarationContainer): boolean {
+        const startIndex = this._index;
+        const start = this._currentStart();
+        const isGlobal = this._is('global');
+
+        if (isGlobal) {
+            this._advance();
+        }
+        this._advance();
+
+        const isStatic = this._is('static');
+        if (isStatic) {
+            this._advance();
+        }
+
+        let alias: string | undefined;
+        if (this._isIdentifier() && this._is('=', 1)) {
+            alias = this._advance().text;
+            this._advance();
+        }
+
+        const nameStart = this._currentStart();
+        while (!this._isEof() && !this._is(';')) {
+            const isStatement = this._is('{') || this._is('}') || (!alias && (this._is('=') || this._is('(')));
+            if (isStatement) {
+                this._index = startIndex;
+
+                return false;
+            }
+
+            this._advance();
+        }
+
+        const name = this._textBetween(nameStart, this._lastEnd());
+        if (this._is(';')) {
+            this._advance();
+        }
+
+        container.usings.push({ ...this._node(start, this._lastEnd()), name, alias, isGlobal, isStatic });
+
+        return true;
+    }
+
+    private _parseNamespace(container: DeclarationContainer, parentNamespace: string, depth: number): void {
+        const start = this._advance().start;
+        const nameStart = this._currentStart();
+
+        while (this._isIdentifier() || this._is('.')) {
+            this._advance();
+        }
+
+        const nameEnd = this._lastEnd();
+        const name = this._source.substring(nameStart, nameEnd).replace(/\s/g, '');
+        const fullName = parentNamespace ? `${parentNamespace}.${name}` : name;
+        const namespace: NamespaceDeclaration = {
+            ...this._node(start, nameEnd),
+            name,
+            nameStart,
+            nameEnd,
+            isFileScoped: this._is(';'),
+            usings: [],
+            namespaces: [],
+            types: [],
+        };
+
+        if (this._is(';')) {
+            this._advance();
+            this._parseNamespaceMembers(namespace, fullName, depth, false);
+        } else if (this._is('{')) {
+            namespace.openBrace = this._advance().start;
+            this._parseNamespaceMembers(namespace, fullName, depth + 1, true);
+
+            if (this._is('}')) {
+                namespace.closeBrace = this._advance().start;
+            }
+        }
+
+        Object.assign(namespace, this._node(start, Math.max(nameEnd, this._lastEnd())));
+        container.namespaces.push(namespace);
+    }
+
+    private _parseDeclarationHeader(): DeclarationHeader {
+        const start = this._currentStart();
+        const attributes = new Array<AttributeSection>();
+        const modifiers = new Array<string>();
+
+        while (this._is('[')) {
+            const attributeStart = this._currentStart();
+            this._skipBalanced('[', ']');
+            const attributeEnd = this._lastEnd();
+
+            attributes.push({
+                ...this._node(attributeStart, attributeEnd),
+                text: this._textBetween(attributeStart + 1, attributeEnd - 1),
+            });
+        }
+
+        const headerStart = this._currentStart();
+        while (this._isIdentifier() && DeclarationParser.Modifiers.has(this._current()?.text ?? '')) {
+            modifiers.push(this._advance().text);
+        }
+
+        return { start, headerStart, attributes, modifiers };
+    }
+
+    private _isTypeKeyword(): boolean {
+        if (!this._isIdentifier()) {
+            return false;
+        }
+
+        if (this._is('record')) {
+            return this._isIdentifier(1);
+        }
+
+        return DeclarationParser.TypeKeywords.has(this._current()?.text ?? '');
+    }
+
+    private _parseType(header: DeclarationHeader, namespace: string, depth: number, containingTypes: string[]): TypeDeclaration {
+        const keyword = this._advance();
+        let kind = keyword.text as TypeKind;
+
+        if (kind === 'record' && (this._is('class') || this._is('struct'))) {
+            if (this._advance().text === 'struct') {
+                kind = 'record struct';
+            }
+        }
+
+        const nameToken = this._isIdentifier() ? this._advance() : keyword;
+        const type: TypeDeclaration = {
+            ...this._node(header.start, nameToken.end),
+            kind,
+            name: nameToken === keyword ? '' : nameToken.text,
+            nameStart: nameToken.start,
+            nameEnd: nameToken.end,
+            fullStart: this._getFullStart(header.start),
+            depth,
+            namespace,
+            containingTypes,
+            attributes: header.attributes,
+            modifiers: header.modifiers,
+            headerStart: header.headerStart,
+            typeParameters: '',
+            baseTypes: [],
+            constraintClauses: [],
+            members: [],
+            types: [],
+        };
+
+        if (this._is('<')) {
+            const typeParametersStart = this._currentStart();
+            this._skipBalanced('<', '>');
+            type.typeParameters = this._textBetween(typeParametersStart + 1, this._lastEnd() - 1);
+        }
+
+        if (this._is('(')) {
+            const parameterList = this._parseParameterList('(', ')');
+            type.parameters = parameterList.parameters;
+            type.parameterListStart = parameterList.start;
+            type.parameterListEnd = parameterList.end;
+        }
+
+        if (this._is(':')) {
+            this._advance();
+            type.baseListStart = this._currentStart();
+
+            while (!this._isEof()) {
+                const baseTypeStart = this._currentStart();
+                this._skipUntil(['{', ';', ','], ['where']);
+                type.baseTypes.push(this._textBetween(baseTypeStart, this._lastEnd()));
+
+                if (!this._is(',')) {
+                    break;
+                }
+
+                this._advance();
+            }
+
+            type.baseListEnd = this._lastEnd();
+        }
+
+        while (this._is('where')) {
+            const clauseStart = this._advance().start;
+            this._skipUntil(['{', ';'], ['where']);
+            type.constraintClauses.push(this._textBetween(clauseStart, this._lastEnd()));
+        }
+
+        if (this._is('{')) {
+            type.openBrace = this._currentStart();
+
+            if (kind === 'enum') {
+                this._skipBalanced('{', '}');
+                type.closeBrace = this._lastEnd() - 1;
+            } else {
+                this._advance();
+                this._parseTypeMembers(type);
+
+                if (this._is('}')) {
+                    type.closeBrace = this._advance().start;
+                }
+            }
+        }
+
+        if (this._is(';')) {
+            this._advance();
+        }
+
+        Object.assign(type, this._node(header.start, this._lastEnd()));
+
+        return type;
+    }
+
+    private _parseTypeMembers(type: TypeDeclaration): void {
+        while (!this._isEof() && !this._is('}')) {
+            const startIndex = this._index;
+
+            if (this._is(';')) {
+                this._advance();
+                continue;
+            }
+
+            const header = this._parseDeclarationHeader();
+            if (this._isTypeKeyword()) {
+                type.types.push(this._parseType(header, type.namespace, type.depth + 1, [...type.containingTypes, type.name]));
+                continue;
+            }
+
+            const members = this._parseMember(header, type);
+            if (members) {
+                type.members.push(...members);
+            } else {
+                this._skipStatement();
+            }
+
+            if (this._index === startIndex) {
+                this._advance();
+            }
+        }
+    }
+
+    private _createMember(header: DeclarationHeader, kind: MemberDeclaration['kind'], name: string, nameStart: number, nameEnd: number, type: string): MemberDeclaration {
+        return {
+            ...this._node(header.start, nameEnd),
+            kind,
+            name,
+            nameStart,
+            nameEnd,
+            fullStart: this._getFullStart(header.start),
+            type,
+            attributes: header.attributes,
+            modifiers: header.modifiers,
+            headerStart: header.headerStart,
+            typeParameters: '',
+            parameters: [],
+            accessors: [],
+        };
+    }
+
+    private _finishMember(member: MemberDeclaration): MemberDeclaration {
+        return Object.assign(member, this._node(member.start, this._lastEnd()));
+    }
+
+    private _parseMember(header: DeclarationHeader, containingType: TypeDeclaration): MemberDeclaration[] | undefined {
+        if (this._is('delegate')) {
+            return undefined;
+        }
+
+        if (this._is('event')) {
+            this._advance();
+
+            return this._parseEvent(header);
+        }
+
+        if (this._is('~') && this._isIdentifier(1)) {
+            this._advance();
+            const nameToken = this._advance();
+            const destructor = this._createMember(header, 'destructor', nameToken.text, nameToken.start, nameToken.end, '');
+            this._parseMethodRest(destructor);
+
+            return [this._finishMember(destructor)];
+        }
+
+        if (this._isIdentifier() && this._current()?.text === containingType.name && this._is('(', 1)) {
+            const nameToken = this._advance();
+            const constructor = this._createMember(header, 'constructor', nameToken.text, nameToken.start, nameToken.end, '');
+            this._parseMethodRest(constructor);
+
+            return [this._finishMember(constructor)];
+        }
+
+        if (this._is('operator')) {
+            // Conversion operator, i.e. `public static implicit operator string(Name name)`
+            const operatorToken = this._advance();
+            const targetType = this._parseTypeSyntax();
+            const operator = this._createMember(header, 'operator', `operator ${targetType?.text ?? ''}`.trim(), operatorToken.start, this._lastEnd(), targetType?.text ?? '');
+            this._parseMethodRest(operator);
+
+            return [this._finishMember(operator)];
+        }
+
+        const type = this._parseTypeSyntax();
+        if (!type) {
+            return undefined;
+        }
+
+        if (this._is('operator')) {
+            const operatorToken = this._advance();
+            while (!this._isEof() && !this._is('(') && !this._is('{') && !this._is(';')) {
+                this._advance();
+            }
+
+            const name = this._source.substring(operatorToken.start, this._lastEnd()).replace(/\s+/g, ' ');
+            const operator = this._createMember(header, 'operator', name, operatorToken.start, this._lastEnd(), type.text);
+            this._parseMethodRest(operator);
+
+            return [this._finishMember(operator)];
+        }
+
+        if (this._is('this') && this._is('[', 1)) {
+            const thisToken = this._advance();
+            const indexer = this._createMember(header, 'indexer', 'this', thisToken.start, thisToken.end, type.text);
+            const parameterList = this._parseParameterList('[', ']');
+            indexer.parameters = parameterList.parameters;
+            indexer.parameterListStart = parameterList.start;
+            indexer.parameterListEnd = parameterList.end;
+            this._parsePropertyRest(indexer);
+
+            return [this._finishMember(indexer)];
+        }
+
+        if (!this._isIdentifier()) {
+            return undefined;
+        }
+
+        const qualifiedNameStart = this._currentStart();
+        let nameToken = this._advance();
+        let explicitInterfaceEnd: number | undefined;
+
+        let isQualifiedName = true;
+        while (isQualifiedName) {
+            const lookaheadIndex = this._index;
+            if (this._is('<') && this._tryParseGenericArguments() && this._is('.')) {
+                continue;
+            }
+            this._index = lookaheadIndex;
+
+            isQualifiedName = this._is('.') && this._isIdentifier(1);
+            if (isQualifiedName) {
+                explicitInterfaceEnd = this._advance().start;
+                nameToken = this._advance();
+            }
+        }
+
+        if (this._is('(') || this._is('<')) {
+            const method = this._createMember(header, 'method', nameToken.text, nameToken.start, nameToken.end, type.text);
+            if (explicitInterfaceEnd !== undefined) {
+                method.explicitInterface = this._textBetween(qualifiedNameStart, explicitInterfaceEnd);
+            }
+
+            if (this._is('<')) {
+                const typeParametersStart = this._currentStart();
+                this._skipBalanced('<', '>');
+                method.typeParameters = this._textBetween(typeParametersStart + 1, this._lastEnd() - 1);
+            }
+
+            if (!this._is('(')) {
+                return undefined;
+            }
+
+            this._parseMethodRest(method);
+
+            return [this._finishMember(method)];
+        }
+
+        if (this._is('{') || this._is('=>')) {
+            const property = this._createMember(header, 'property', nameToken.text, nameToken.start, nameToken.end, type.text);
+            if (explicitInterfaceEnd !== undefined) {
+                property.explicitInterface = this._textBetween(qualifiedNameStart, explicitInterfaceEnd);
+            }
+
+            this._parsePropertyRest(property);
+
+            return [this._finishMember(property)];
+        }
+
+        if (this._is('=') || this._is(';') || this._is(',') || this._is('[')) {
+            return this._parseFieldDeclarators(header, 'field', nameToken, type.text);
+        }
+
+        return undefined;
+    }
+
+    private _parseEvent(header: DeclarationHeader): MemberDeclaration[] | undefined {
+        const type = this._parseTypeSyntax();
+        if (!type || !this._isIdentifier()) {
+            return undefined;
+        }
+
+        const nameToken = this._advance();
+        if (this._is('{')) {
+            const event = this._createMember(header, 'event', nameToken.text, nameToken.start, nameToken.end, type.text);
+            this._parsePropertyRest(event);
+
+            return [this._finishMember(event)];
+        }
+
+        return this._parseFieldDeclarators(header, 'event', nameToken, type.text);
+    }
+
+    private _parseFieldDeclarators(header: DeclarationHeader, kind: 'field' | 'event', firstNameToken: Token, type: string): MemberDeclaration[] {
+        const members = new Array<MemberDeclaration>();
+        let nameToken: Token | undefined = firstNameToken;
+
+        while (nameToken) {
+            const member = this._createMember(header, kind, nameToken.text, nameToken.start, nameToken.end, type);
+            members.push(member);
+            nameToken = undefined;
+
+            if (this._is('[')) {
+                // Fixed size buffer
+                this._skipBalanced('[', ']');
+            }
+
+            if (this._is('=')) {
+                this._advance();
+                const initializerStart = this._currentStart();
+                this._skipFieldInitializer();
+                member.initializer = this._textBetween(initializerStart, this._lastEnd());
+            }
+
+            if (this._is(',') && this._isIdentifier(1)) {
+                this._advance();
+                nameToken = this._advance();
+            }
+        }
+
+        if (this._is(';')) {
+            this._advance();
+        }
+
+        return members.map(member => this._finishMember(member));
+    }
+
+    private _skipFieldInitializer(): void {
+        let depth = 0;
+
+        while (!this._isEof()) {
+            if (depth === 0) {
+                if (this._is(';') || this._is('}')) {
+                    return;
+                }
+
+                const isNextDeclarator = this._is(',') && this._isIdentifier(1) && (this._is('=', 2) || this._is(',', 2) || this._is(';', 2));
+                if (isNextDeclarator) {
+                    return;
+                }
+            }
+
+            const token = this._advance();
+            if (['(', '[', '{'].includes(token.text) && token.kind === TokenKind.Punctuation) {
+                depth++;
+            } else if ([')', ']', '}'].includes(token.text) && token.kind === TokenKind.Punctuation) {
+                depth--;
+            }
+        }
+    }
+
+    private _parseMethodRest(member: MemberDeclaration): void {
+        if (this._is('(')) {
+            const parameterList = this._parseParameterList('(', ')');
+            member.parameters = parameterList.parameters;
+            member.parameterListStart = parameterList.start;
+            member.parameterListEnd = parameterList.end;
+        }
+
+        if (this._is(':') && (this._is('base', 1) || this._is('this', 1))) {
+            this._advance();
+            const initializerStart = this._advance().start;
+            if (this._is('(')) {
+                this._skipBalanced('(', ')');
+            }
+            member.constructorInitializer = this._textBetween(initializerStart, this._lastEnd());
+        }
+
+        while (this._is('where')) {
+            this._advance();
+            this._skipUntil(['{', ';', '=>'], ['where']);
+        }
+
+        member.body = this._parseBody();
+    }
+
+    private _parsePropertyRest(member: MemberDeclaration): void {
+        if (this._is('=>')) {
+            member.body = this._parseBody();
+
+            return;
+        }
+
+        if (this._is('{')) {
+            const accessorList = this._parseAccessorList();
+            member.accessors = accessorList.accessors;
+            member.accessorListStart = accessorList.start;
+            member.accessorListEnd = accessorList.end;
+        }
+
+        if (this._is('=')) {
+            this._advance();
+            const initializerStart = this._currentStart();
+            this._skipUntil([';', '}'], []);
+            member.initializer = this._textBetween(initializerStart, this._lastEnd());
+
+            if (this._is(';')) {
+                this._advance();
+            }
+        }
+    }
+
+    private _parseAccessorList(): AccessorList {
+        const start = this._advance().start;
+        const accessors = new Array<AccessorDeclaration>();
+
+        while (!this._isEof() && !this._is('}')) {
+            const accessorStart = this._currentStart();
+            const modifiers = new Array<string>();
+
+            while (this._is('[')) {
+                this._skipBalanced('[', ']');
+            }
+
+            while (this._isIdentifier() && DeclarationParser.AccessorModifiers.has(this._current()?.text ?? '')) {
+                modifiers.push(this._advance().text);
+            }
+
+            if (!this._isIdentifier() || !DeclarationParser.AccessorKeywords.has(this._current()?.text ?? '')) {
+                this._advance();
+                continue;
+            }
+
+            const kind = this._advance().text as AccessorDeclaration['kind'];
+            const body = this._parseBody();
+
+            accessors.push({ ...this._node(accessorStart, this._lastEnd()), kind, modifiers, body });
+        }
+
+        if (this._is('}')) {
+            this._advance();
+        }
+
+        return { accessors, start, end: this._lastEnd() };
+    }
+
+    private _parseBody(): BodyDeclaration | undefined {
+        if (this._is('{')) {
+            const start = this._currentStart();
+            this._skipBalanced('{', '}');
+
+            return { kind: 'block', start, end: this._lastEnd() };
+        }
+
+        if (this._is('=>')) {
+            const start = this._advance().start;
+            this._skipUntil([';', '}'], []);
+            if (this._is(';')) {
+                this._advance();
+            }
+
+            return { kind: 'expression', start, end: this._lastEnd() };
+        }
+
+        if (this._is(';')) {
+            this._advance();
+        }
+
+        return undefined;
+    }
+
+    private _parseParameterList(open: string, close: string): ParameterList {
+        const start = this._advance().start;
+        const parameters = new Array<ParameterDeclaration>();
+
+        while (!this._isEof() && !this._is(close)) {
+            const startIndex = this._index;
+            const parameterStart = this._currentStart();
+            const attributes = new Array<AttributeSection>();
+            const modifiers = new Array<string>();
+
+            while (this._is('[')) {
+                const attributeStart = this._currentStart();
+                this._skipBalanced('[', ']');
+                const attributeEnd = this._lastEnd();
+
+                attributes.push({
+                    ...this._node(attributeStart, attributeEnd),
+                    text: this._textBetween(attributeStart + 1, attributeEnd - 1),
+                });
+            }
+
+            while (this._isIdentifier() && DeclarationParser.ParameterModifiers.has(this._current()?.text ?? '') && !this._is(close, 1) && !this._is(',', 1)) {
+                modifiers.push(this._advance().text);
+            }
+
+            const type = this._parseTypeSyntax();
+            if (type && this._isIdentifier()) {
+                const name = this._advance().text;
+                let defaultValue: string | undefined;
+
+                if (this._is('=')) {
+                    this._advance();
+                    const defaultValueStart = this._currentStart();
+                    this._skipUntil([',', close], []);
+                    defaultValue = this._textBetween(defaultValueStart, this._lastEnd());
+                }
+
+                parameters.push({
+                    ...this._node(parameterStart, this._lastEnd()),
+                    name,
+                    type: type.text,
+                    modifiers,
+                    attributes,
+                    defaultValue,
+                });
+            } else {
+                this._skipUntil([',', close], []);
+            }
+
+            if (this._is(',')) {
+                this._advance();
+            }
+
+            if (this._index === startIndex) {
+                this._advance();
+            }
+        }
+
+        if (this._is(close)) {
+            this._advance();
+        }
+
+        return { parameters, start, end: this._lastEnd() };
+    }
+
+    private _parseTypeSyntax(): TypeSyntax | undefined {
+        const startIndex = this._index;
+
+        if (this._is('(')) {
+            this._skipBalanced('(', ')');
+        } else if (this._isIdentifier()) {
+            this._advance();
+
+            let isTypeName = true;
+            while (isTypeName) {
+                const lookaheadIndex = this._index;
+                if (this._is('<')) {
+                    isTypeName = this._tryParseGenericArguments();
+                    if (!isTypeName) {
+                        this._index = lookaheadIndex;
+                    }
+                    continue;
+                }
+
+                isTypeName = (this._is('.') || this._is('::')) && this._isIdentifier(1);
+                if (isTypeName) {
+                    this._advance();
+                    this._advance();
+                }
+            }
+        } else {
+            return undefined;
+        }
+
+        while (!this._isEof()) {
+            if (this._is('?') || this._is('*')) {
+                this._advance();
+            } else if (this._is('[') && (this._is(']', 1) || this._is(',', 1))) {
+                this._skipBalanced('[', ']');
+            } else {
+                break;
+            }
+        }
+
+        const start = this._tokens[startIndex].start;
+        const end = this._lastEnd();
+
+        return { text: this._source.substring(start, end).replace(/\s+/g, ' '), start, end };
+    }
+
+    private _tryParseGenericArguments(): boolean {
+        let depth = 0;
+
+        while (!this._isEof()) {
+            const token = this._advance();
+
+            if (token.text === '<') {
+                depth++;
+            } else if (token.text === '>') {
+                depth--;
+                if (depth === 0) {
+                    return true;
+                }
+            } else if (token.kind !== TokenKind.Identifier && !DeclarationParser.GenericArgumentTokens.has(token.text)) {
+                return false;
+            }
+        }
+
+        return false;
+    }
+
+    private _skipBalanced(open: string, close: string): void {
+        let depth = 0;
+
+        while (!this._isEof()) {
+            const token = this._advance();
+
+            if (token.kind !== TokenKind.Punctuation) {
+                continue;
+            }
+
+            if (token.text === open) {
+                depth++;
+            } else if (token.text === close) {
+                depth--;
+                if (depth === 0) {
+                    return;
+                }
+            }
+        }
+    }
+
+    /**
+     * Skips the tokens until one of the given punctuations or keywords is found outside of any bracket.
+     * Angle brackets are considered only when the stop punctuation include the comma, as in the type lists.
+     */
+    private _skipUntil(punctuations: string[], keywords: string[]): void {
+        let depth = 0;
+        let angleDepth = 0;
+        const trackAngles = punctuations.includes(',') && punctuations.includes('{');
+
+        while (!this._isEof()) {
+            const token = this._current() as Token;
+            const isPunctuation = token.kind === TokenKind.Punctuation;
+
+            if (depth === 0 && angleDepth === 0) {
+                if (isPunctuation && punctuations.includes(token.text)) {
+                    return;
+                }
+
+                if (token.kind === TokenKind.Identifier && keywords.includes(token.text)) {
+                    return;
+                }
+            }
+
+            if (depth === 0 && isPunctuation && [')', ']', '}'].includes(token.text)) {
+                // Unbalanced closing bracket: it belongs to the outer declaration
+                return;
+            }
+
+            this._advance();
+
+            if (!isPunctuation) {
+                continue;
+            }
+
+            if (['(', '[', '{'].includes(token.text)) {
+                depth++;
+            } else if ([')', ']', '}'].includes(token.text)) {
+                depth--;
+            } else if (trackAngles && token.text === '<') {
+                angleDepth++;
+            } else if (trackAngles && token.text === '>' && angleDepth > 0) {
+                angleDepth--;
+            }
+        }
+    }
+
+    private _skipStatement(): void {
+        let depth = 0;
+
+        while (!this._isEof()) {
+            const token = this._current() as Token;
+            const isPunctuation = token.kind === TokenKind.Punctuation;
+
+            if (isPunctuation && depth === 0 && token.text === '}') {
+                return;
+            }
+
+            this._advance();
+
+            if (!isPunctuation) {
+                continue;
+            }
+
+            if (depth === 0 && token.text === ';') {
+                return;
+            }
+
+            if (['(', '[', '{'].includes(token.text)) {
+                depth++;
+            } else if ([')', ']', '}'].includes(token.text)) {
+                depth--;
+                if (depth === 0 && token.text === '}') {
+                    return;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,140 @@
+import { Comment, Token } from './tokenizer';
+
+export interface SyntaxNode {
+    /** Offset of the first character of the node, attributes included */
+    start: number,
+    /** Offset right after the last character of the node */
+    end: number,
+    startLine: number,
+    endLine: number,
+}
+
+export interface UsingDirective extends SyntaxNode {
+    name: string,
+    alias?: string,
+    isGlobal: boolean,
+    isStatic: boolean,
+}
+
+export interface AttributeSection extends SyntaxNode {
+    /** The content between the square brackets, i.e. `Serializable` or `property: JsonPropertyName("id")` */
+    text: string,
+}
+
+export interface NamespaceDeclaration extends SyntaxNode {
+    name: string,
+    nameStart: number,
+    nameEnd: number,
+    isFileScoped: boolean,
+    /** Offset of the opening brace, undefined for file scoped namespaces */
+    openBrace?: number,
+    /** Offset of the closing brace, undefined for file scoped namespaces or unbalanced braces */
+    closeBrace?: number,
+    usings: UsingDirective[],
+    namespaces: NamespaceDeclaration[],
+    types: TypeDeclaration[],
+}
+
+export type TypeKind = 'class' | 'struct' | 'interface' | 'enum' | 'record' | 'record struct';
+
+export interface TypeDeclaration extends SyntaxNode {
+    kind: TypeKind,
+    name: string,
+    nameStart: number,
+    nameEnd: number,
+    /** Start offset including the leading comments, i.e. the documentation */
+    fullStart: number,
+    /** Number of enclosing block scoped namespaces and types */
+    depth: number,
+    /** The namespace containing the type, empty for the global namespace */
+    namespace: string,
+    /** Names of the enclosing types, outermost first */
+    containingTypes: string[],
+    attributes: AttributeSection[],
+    modifiers: string[],
+    /** Offset of the first modifier or of the type keyword */
+    headerStart: number,
+    /** The text between angle brackets, i.e. `T, U` */
+    typeParameters: string,
+    /** Primary constructor or positional record parameters, undefined if there's no parameter list */
+    parameters?: ParameterDeclaration[],
+    parameterListStart?: number,
+    parameterListEnd?: number,
+    baseTypes: string[],
+    baseListStart?: number,
+    baseListEnd?: number,
+    constraintClauses: string[],
+    /** Offset of the opening brace, undefined when the type is declared without body */
+    openBrace?: number,
+    /** Offset of the closing brace, undefined when the type is declared without body or the braces are unbalanced */
+    closeBrace?: number,
+    members: MemberDeclaration[],
+    types: TypeDeclaration[],
+}
+
+export type MemberKind = 'field' | 'property' | 'method' | 'constructor' | 'destructor' | 'event' | 'indexer' | 'operator';
+
+export interface MemberDeclaration extends SyntaxNode {
+    kind: MemberKind,
+    name: string,
+    nameStart: number,
+    nameEnd: number,
+    /** Start offset including the leading comments, i.e. the documentation */
+    fullStart: number,
+    /** The declared type, the return type for methods, empty for constructors and destructors */
+    type: string,
+    /** The explicitly implemented interface, i.e. `IDisposable` for `void IDisposable.Dispose()` */
+    explicitInterface?: string,
+    attributes: AttributeSection[],
+    modifiers: string[],
+    /** Offset of the first modifier or of the type */
+    headerStart: number,
+    typeParameters: string,
+    parameters: ParameterDeclaration[],
+    parameterListStart?: number,
+    parameterListEnd?: number,
+    /** The constructor initializer, i.e. `base(name)` */
+    constructorInitializer?: string,
+    accessors: AccessorDeclaration[],
+    /** Offset of the opening brace of the accessor list */
+    accessorListStart?: number,
+    /** Offset right after the closing brace of the accessor list */
+    accessorListEnd?: number,
+    /** Field or property initializer without the equal sign */
+    initializer?: string,
+    body?: BodyDeclaration,
+}
+
+export type AccessorKind = 'get' | 'set' | 'init' | 'add' | 'remove';
+
+export interface AccessorDeclaration extends SyntaxNode {
+    kind: AccessorKind,
+    modifiers: string[],
+    body?: BodyDeclaration,
+}
+
+export interface ParameterDeclaration extends SyntaxNode {
+    name: string,
+    type: string,
+    modifiers: string[],
+    attributes: AttributeSection[],
+    defaultValue?: string,
+}
+
+export interface BodyDeclaration {
+    kind: 'block' | 'expression',
+    /** Offset of the opening brace or of the arrow */
+    start: number,
+    /** Offset right after the closing brace or the semicolon */
+    end: number,
+}
+
+export interface CompilationUnit {
+    source: string,
+    tokens: Token[],
+    comments: Comment[],
+    usings: UsingDirective[],
+    namespaces: NamespaceDeclaration[],
+    /** Types declared in the global namespace */
+    types: TypeDeclaration[],
+}
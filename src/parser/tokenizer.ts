@@ -0,0 +1,278 @@
+export enum TokenKind {
+    Identifier,
+    NumericLiteral,
+    StringLiteral,
+    CharLiteral,
+    Punctuation,
+}
+
+export interface Token {
+    kind: TokenKind,
+    text: string,
+    start: number,
+    end: number,
+}
+
+export interface Comment {
+    start: number,
+    end: number,
+    isDocumentation: boolean,
+}
+
+export interface TokenizeResult {
+    tokens: Token[],
+    comments: Comment[],
+}
+
+export default class Tokenizer {
+    private static readonly MultiCharPunctuations = [
+        '??=', '<<=', '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '::', '++', '--',
+        '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '->',
+    ];
+
+    private readonly _source: string;
+    private _position = 0;
+    private _tokens = new Array<Token>();
+    private _comments = new Array<Comment>();
+
+    private constructor(source: string) {
+        this._source = source;
+    }
+
+    /**
+     * Splits the given C# source into tokens.
+     * Whitespaces and preprocessor directives are skipped, comments are returned apart.
+     *
+     * @param source The C# source code
+     * @returns The tokens and the comments found in the source
+     */
+    public static tokenize(source: string): TokenizeResult {
+        const tokenizer = new Tokenizer(source);
+        tokenizer._scan();
+
+        return { tokens: tokenizer._tokens, comments: tokenizer._comments };
+    }
+
+    private _scan(): void {
+        let isLineStart = true;
+
+        while (this._position < this._source.length) {
+            const char = this._source[this._position];
+
+            if (char === '\n') {
+                isLineStart = true;
+                this._position++;
+                continue;
+            }
+
+            if (/\s/.test(char)) {
+                this._position++;
+                continue;
+            }
+
+            if (char === '#' && isLineStart) {
+                this._skipToLineEnd();
+                continue;
+            }
+
+            isLineStart = false;
+
+            if (char === '/' && this._peek(1) === '/') {
+                const start = this._position;
+                this._skipToLineEnd();
+                this._comments.push({ start, end: this._position, isDocumentation: this._source.startsWith('///', start) });
+                continue;
+            }
+
+            if (char === '/' && this._peek(1) === '*') {
+                const start = this._position;
+                const end = this._source.indexOf('*/', start + 2);
+                this._position = end < 0 ? this._source.length : end + 2;
+                this._comments.push({ start, end: this._position, isDocumentation: false });
+                continue;
+            }
+
+            const start = this._position;
+            const stringKind = this._scanStringPrefix();
+            if (stringKind !== undefined) {
+                this._scanString(stringKind.prefixLength, stringKind.isVerbatim, stringKind.isInterpolated);
+                this._push(TokenKind.StringLiteral, start);
+                continue;
+            }
+
+            if (char === '\'') {
+                this._scanChar();
+                this._push(TokenKind.CharLiteral, start);
+                continue;
+            }
+
+            if (this._isIdentifierStart(char) || (char === '@' && this._isIdentifierStart(this._peek(1)))) {
+                this._position++;
+                while (this._position < this._source.length && this._isIdentifierPart(this._source[this._position])) {
+                    this._position++;
+                }
+                this._push(TokenKind.Identifier, start);
+                continue;
+            }
+
+            if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(this._peek(1)))) {
+                this._position++;
+                while (this._position < this._source.length && /[\w.]/.test(this._source[this._position])) {
+                    if (this._source[this._position] === '.' && !/[0-9]/.test(this._peek(1))) {
+                        break;
+                    }
+                    this._position++;
+                }
+                this._push(TokenKind.NumericLiteral, start);
+                continue;
+            }
+
+            const punctuation = Tokenizer.MultiCharPunctuations.find(p => this._source.startsWith(p, this._position));
+            this._position += punctuation ? punctuation.length : 1;
+            this._push(TokenKind.Punctuation, start);
+        }
+    }
+
+    private _peek(offset: number): string {
+        return this._source[this._position + offset] ?? '';
+    }
+
+    private _push(kind: TokenKind, start: number): void {
+        this._tokens.push({ kind, text: this._source.substring(start, this._position), start, end: this._position });
+    }
+
+    private _skipToLineEnd(): void {
+        const end = this._source.indexOf('\n', this._position);
+        this._position = end < 0 ? this._source.length : end;
+        if (this._source[this._position - 1] === '\r') {
+            this._position--;
+        }
+    }
+
+    private _isIdentifierStart(char: string): boolean {
+        return /[\p{L}_]/u.test(char);
+    }
+
+    private _isIdentifierPart(char: string): boolean {
+        return /[\p{L}\p{N}_]/u.test(char);
+    }
+
+    private _scanStringPrefix(): { prefixLength: number, isVerbatim: boolean, isInterpolated: boolean } | undefined {
+        const prefix = /^(\$+@?|@\$+|@)?"/.exec(this._source.substring(this._position, this._position + 8));
+        if (!prefix) {
+            return undefined;
+        }
+
+        const modifiers = prefix[1] ?? '';
+
+        return {
+            prefixLength: modifiers.length,
+            isVerbatim: modifiers.includes('@'),
+            isInterpolated: modifiers.includes('$'),
+        };
+    }
+
+    private _scanString(prefixLength: number, isVerbatim: boolean, isInterpolated: boolean): void {
+        this._position += prefixLength;
+
+        const quotes = /^"+/.exec(this._source.substring(this._position))?.[0].length ?? 1;
+        if (quotes >= 3 && !isVerbatim) {
+            // Raw string literal: ends with the same amount of quotes, verbatim strings escape their quotes by doubling them
+            const delimiter = '"'.repeat(quotes);
+            const end = this._source.indexOf(delimiter, this._position + quotes);
+            this._position = end < 0 ? this._source.length : end + quotes;
+
+            return;
+        }
+
+        this._position++;
+        while (this._position < this._source.length) {
+            const char = this._source[this._position];
+
+            if (char === '"') {
+                if (isVerbatim && this._peek(1) === '"') {
+                    this._position += 2;
+                    continue;
+                }
+
+                this._position++;
+
+                return;
+            }
+
+            if (char === '\\' && !isVerbatim) {
+                this._position += 2;
+                continue;
+            }
+
+            if (char === '\n' && !isVerbatim) {
+                // Unterminated string literal
+                return;
+            }
+
+            if (char === '{' && isInterpolated) {
+                if (this._peek(1) === '{') {
+                    this._position += 2;
+                    continue;
+                }
+
+                this._skipInterpolation();
+                continue;
+            }
+
+            this._position++;
+        }
+    }
+
+    private _skipInterpolation(): void {
+        let depth = 0;
+
+        while (this._position < this._source.length) {
+            const char = this._source[this._position];
+            const stringKind = this._scanStringPrefix();
+
+            if (stringKind !== undefined) {
+                this._scanString(stringKind.prefixLength, stringKind.isVerbatim, stringKind.isInterpolated);
+                continue;
+            }
+
+            if (char === '\'') {
+                this._scanChar();
+                continue;
+            }
+
+            this._position++;
+
+            if (char === '{') {
+                depth++;
+            } else if (char === '}') {
+                depth--;
+                if (depth === 0) {
+                    return;
+                }
+            }
+        }
+    }
+
+    private _scanChar(): void {
+        this._position++;
+        while (this._position < this._source.length) {
+            const char = this._source[this._position];
+
+            if (char === '\\') {
+                this._position += 2;
+                continue;
+            }
+
+            if (char === '\n') {
+                return;
+            }
+
+            this._position++;
+
+            if (char === '\'') {
+                return;
+            }
+        }
+    }
+}
@@ -3,6 +3,7 @@ export interface Csproj {
 }
 
 export interface Project {
+    $?: ProjectAttribute
     PropertyGroup: Array<PropertyGroup>
     ItemGroup: Array<ItemGroup>
     Import?: Array<Import>
@@ -12,10 +13,19 @@ export interface PropertyGroup {
     RootNamespace?: Array<string>
     TargetFramework?: Array<string>
     ImplicitUsings?: Array<string>
+    LangVersion?: Array<string>
+    Nullable?: Array<string>
 }
 
 export interface ItemGroup {
     Using?: Array<Using>
+    PackageReference?: Array<PackageReference>
+    PackageVersion?: Array<PackageReference>
+}
+
+export interface PackageReference {
+    $?: PackageReferenceAttribute
+    Version?: Array<string>
 }
 
 export interface Using {
@@ -26,11 +36,21 @@ export interface Import {
     $: ImportAttribute
 }
 
+export interface ProjectAttribute {
+    Sdk?: string
+}
+
 export interface UsingAttribute {
     Include?: string
     Remove?: string
 }
 
+export interface PackageReferenceAttribute {
+    Include?: string
+    Version?: string
+    VersionOverride?: string
+}
+
 export interface ImportAttribute {
     Project: string
 }
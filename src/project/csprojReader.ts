@@ -5,9 +5,12 @@ import { Logger } from '../logging/log';
 import { Csproj, PropertyGroup, Using } from './csproj';
 import ProjectReader from './projectReader';
 import FileHandler from '../io/fileHandler';
+import { getDefaultLanguageVersion, parseLanguageVersion } from './targetFramework';
 
 
 export default class CsprojReader extends ProjectReader {
+    private static readonly CentralPackagesFileName = 'Directory.Packages.props';
+
     private readonly xmlParser: Parser;
 
     /**
@@ -76,6 +79,31 @@ export default class CsprojReader extends ProjectReader {
         return Number(versionMatch[0]) >= 6;
     }
 
+    /**
+     * Retrieves the C# language version of this project, either set through `LangVersion` or defaulted from the TargetFramework
+     *
+     * @returns The C# language version, `Infinity` for `latest` and `preview`, undefined if it can't be determined
+     */
+    public async getLanguageVersion(): Promise<number | undefined> {
+        let langVersion: string | undefined;
+
+        try {
+            const propertyGroups = await this.getPropertyGroups();
+            langVersion = propertyGroups?.find(p => p.LangVersion)?.LangVersion?.[0];
+        } catch (errParsingXml) {
+            Logger.error(`Error parsing project xml: ${errParsingXml}`);
+
+            return;
+        }
+
+        const targetFramework = await this.getTargetFramework();
+        if (langVersion) {
+            return parseLanguageVersion(langVersion, targetFramework);
+        }
+
+        return targetFramework ? getDefaultLanguageVersion(targetFramework) : undefined;
+    }
+
     /**
      * Whether the 'ImplicitUsings' option is set to `enable`
      *
@@ -99,6 +127,40 @@ export default class CsprojReader extends ProjectReader {
         return propertyGroupWithImplicitUsings.ImplicitUsings[0] === 'enable';
     }
 
+    /**
+     * Whether the 'Nullable' option is set to `enable`, the nullable reference types being annotated
+     *
+     * @returns If the 'Nullable' option is set to `enable`
+     */
+    public async isNullableEnabled(): Promise<boolean> {
+        try {
+            const propertyGroups = await this.getPropertyGroups();
+
+            return propertyGroups?.find(p => p.Nullable)?.Nullable?.[0] === 'enable';
+        } catch (errParsingXml) {
+            Logger.error(`Error parsing project xml: ${errParsingXml}`);
+        }
+
+        return false;
+    }
+
+    /**
+     * Retrieves the SDK of this project file, i.e. `Microsoft.NET.Sdk.Web`
+     *
+     * @returns The SDK of the project, undefined for the projects which don't use one
+     */
+    public async getSdk(): Promise<string | undefined> {
+        try {
+            const xmlContent = await this.getXmlContent();
+
+            return xmlContent?.Project?.$?.Sdk;
+        } catch (errParsingXml) {
+            Logger.error(`Error parsing project xml: ${errParsingXml}`);
+        }
+
+        return undefined;
+    }
+
     /**
      * Retrieve the content of this project file
      *
@@ -165,6 +227,43 @@ export default class CsprojReader extends ProjectReader {
         return usings.filter(u => u.$ !== undefined && u.$.Remove !== undefined).map(u => u.$?.Remove as string);
     }
 
+    /**
+     * Retrieves the names of the NuGet packages referenced by this project file
+     *
+     * @returns The names of the referenced packages, i.e. `xunit`
+     */
+    public async getPackageReferences(): Promise<string[]> {
+        const packages = await this.getPackages();
+
+        return packages.map(p => p.name);
+    }
+
+    /**
+     * Retrieves the NuGet packages referenced by this project file with their version,
+     * read from the nearest `Directory.Packages.props` when the versions are managed centrally
+     *
+     * @returns The referenced packages
+     */
+    public async getPackages(): Promise<PackageInfo[]> {
+        let packages: PackageInfo[];
+        try {
+            const xmlContent = await this.getXmlContent();
+            packages = CsprojReader.readPackages(xmlContent, 'PackageReference');
+        } catch (errParsingXml) {
+            Logger.error(`Error parsing project xml: ${errParsingXml}`);
+
+            return [];
+        }
+
+        if (packages.every(p => p.version)) {
+            return packages;
+        }
+
+        const centralVersions = await this.getCentralPackageVersions();
+
+        return packages.map(p => ({ name: p.name, version: p.version ?? centralVersions.get(p.name.toLowerCase()) }));
+    }
+
     /**
      * Tries to create a new csproj reader from the given path, searched upwards
      *
@@ -175,6 +274,32 @@ export default class CsprojReader extends ProjectReader {
         return await this.createProjectFromPath(findFromPath, '*.csproj');
     }
 
+    private async getCentralPackageVersions(): Promise<Map<string, string>> {
+        const propsPath = await ProjectReader.findProjectPath(this.filePath, CsprojReader.CentralPackagesFileName);
+        if (!propsPath) {
+            return new Map();
+        }
+
+        try {
+            const xmlContent = await this.getXmlContent(propsPath);
+
+            return new Map(CsprojReader.readPackages(xmlContent, 'PackageVersion')
+                .filter(p => p.version)
+                .map(p => [p.name.toLowerCase(), p.version as string]));
+        } catch (errParsingXml) {
+            Logger.error(`Error parsing ${propsPath}: ${errParsingXml}`);
+        }
+
+        return new Map();
+    }
+
+    private static readPackages(xmlContent: Csproj, itemName: 'PackageReference' | 'PackageVersion'): PackageInfo[] {
+        return (xmlContent?.Project?.ItemGroup ?? [])
+            .flatMap(g => g[itemName] ?? [])
+            .filter(p => !!p.$?.Include)
+            .map(p => ({ name: p.$?.Include as string, version: p.$?.VersionOverride ?? p.$?.Version ?? p.Version?.[0] }));
+    }
+
     private async getUsings(): Promise<Using[]> {
         const xmlContent = await this.getXmlContent();
         if (!xmlContent?.Project?.ItemGroup) {
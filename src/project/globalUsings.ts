@@ -3,6 +3,9 @@ import * as path from 'path';
 import Result from '../common/result';
 import FileHandler from '../io/fileHandler';
 import { EOL } from 'os';
+import { uniq } from 'lodash';
+import CsprojReader from './csprojReader';
+import { getSdkImplicitUsings } from './implicitUsings';
 
 export default class GlobalUsingFinder {
     public static async find(projectFilePath: string, frameworkVersion: string): Promise<Result<string[]>> {
@@ -37,4 +40,33 @@ export default class GlobalUsingFinder {
 
         return Result.ok<string[]>(globalUsings);
     }
+
+    /**
+     * Retrieves the namespaces imported for the whole project, i.e. the generated global usings and the `Using` items.
+     * The implicit usings of the SDK are used instead of the generated ones when the project hasn't been built yet.
+     *
+     * @param csprojReader The reader of the project file
+     * @returns The global usings of the project, empty if the target framework is lower than .NET 6
+     */
+    public static async findForProject(csprojReader: CsprojReader): Promise<string[]> {
+        if (await csprojReader.isTargetFrameworkHigherThanOrEqualToDotNet6() !== true) {
+            return [];
+        }
+
+        let globalUsings: string[] = [];
+        const frameworkVersion = (await csprojReader.getTargetFramework()) as string;
+        const globalUsingsResult = await GlobalUsingFinder.find(csprojReader.getFilePath(), frameworkVersion);
+        if (globalUsingsResult.isOk()) {
+            globalUsings = globalUsingsResult.value();
+        } else if (await csprojReader.useImplicitUsings()) {
+            const sdk = await csprojReader.getSdk();
+            globalUsings = sdk ? [...getSdkImplicitUsings(sdk)] : [];
+        }
+
+        const namespaceInclude = await csprojReader.getUsingsInclude();
+        const namespaceRemove = await csprojReader.getUsingsRemove();
+        globalUsings.push(...namespaceInclude);
+
+        return uniq(globalUsings).filter(gu => !namespaceRemove.includes(gu));
+    }
 }
@@ -0,0 +1,55 @@
+const BaseImplicitUsings = [
+    'System',
+    'System.Collections.Generic',
+    'System.IO',
+    'System.Linq',
+    'System.Net.Http',
+    'System.Threading',
+    'System.Threading.Tasks',
+];
+
+const HostingImplicitUsings = [
+    'Microsoft.Extensions.Configuration',
+    'Microsoft.Extensions.DependencyInjection',
+    'Microsoft.Extensions.Hosting',
+    'Microsoft.Extensions.Logging',
+];
+
+/** The namespaces imported by the SDKs when `ImplicitUsings` is enabled */
+const SdkImplicitUsings: Record<string, string[]> = {
+    'microsoft.net.sdk': BaseImplicitUsings,
+    'microsoft.net.sdk.razor': BaseImplicitUsings,
+    'microsoft.net.sdk.worker': [...BaseImplicitUsings, ...HostingImplicitUsings],
+    'microsoft.net.sdk.web': [
+        ...BaseImplicitUsings,
+        'System.Net.Http.Json',
+        'Microsoft.AspNetCore.Builder',
+        'Microsoft.AspNetCore.Hosting',
+        'Microsoft.AspNetCore.Http',
+        'Microsoft.AspNetCore.Routing',
+        ...HostingImplicitUsings,
+    ],
+    'microsoft.net.sdk.blazorwebassembly': [
+        ...BaseImplicitUsings,
+        'System.Net.Http.Json',
+        'Microsoft.AspNetCore.Components.WebAssembly.Hosting',
+        'Microsoft.Extensions.Configuration',
+        'Microsoft.Extensions.DependencyInjection',
+        'Microsoft.Extensions.Logging',
+    ],
+    // WPF projects don't import `System.IO` and `System.Net.Http`, only the namespaces common to WPF and Windows Forms are kept
+    'microsoft.net.sdk.windowsdesktop': BaseImplicitUsings.filter(using => !['System.IO', 'System.Net.Http'].includes(using)),
+};
+
+/**
+ * Retrieves the namespaces an SDK imports when the `ImplicitUsings` option is enabled,
+ * used when the generated `GlobalUsings.g.cs` is not available, i.e. before the first build
+ *
+ * @param sdk The SDK of the project, i.e. `Microsoft.NET.Sdk.Web` or `Microsoft.NET.Sdk/8.0.100`
+ * @returns The implicit usings of the SDK, empty if the SDK is unknown
+ */
+export function getSdkImplicitUsings(sdk: string): string[] {
+    const name = sdk.split('/')[0].trim().toLowerCase();
+
+    return SdkImplicitUsings[name] ?? [];
+}
@@ -0,0 +1,121 @@
+export type TargetFrameworkFamily = 'netframework' | 'netstandard' | 'netcore';
+
+export interface TargetFrameworkVersion {
+    family: TargetFrameworkFamily,
+    major: number,
+    minor: number,
+}
+
+/**
+ * Parses a target framework moniker, i.e. `net472`, `netstandard2.0`, `netcoreapp3.1` or `net8.0-windows`
+ *
+ * @param targetFramework The target framework moniker
+ * @returns The family and the version of the framework, undefined if the moniker is not recognized
+ */
+export function parseTargetFramework(targetFramework: string): TargetFrameworkVersion | undefined {
+    const moniker = targetFramework.trim().toLowerCase();
+
+    const coreMatch = /^netcoreapp(\d+)\.(\d+)/.exec(moniker);
+    if (coreMatch) {
+        return { family: 'netcore', major: Number(coreMatch[1]), minor: Number(coreMatch[2]) };
+    }
+
+    const standardMatch = /^netstandard(\d+)\.(\d+)/.exec(moniker);
+    if (standardMatch) {
+        return { family: 'netstandard', major: Number(standardMatch[1]), minor: Number(standardMatch[2]) };
+    }
+
+    // .NET 5 and later, i.e. `net5.0`
+    const netMatch = /^net(\d+)\.(\d+)/.exec(moniker);
+    if (netMatch) {
+        return { family: 'netcore', major: Number(netMatch[1]), minor: Number(netMatch[2]) };
+    }
+
+    // .NET Framework, i.e. `net48` or `net472`
+    const frameworkMatch = /^net(\d)(\d)\d?$/.exec(moniker);
+    if (frameworkMatch) {
+        return { family: 'netframework', major: Number(frameworkMatch[1]), minor: Number(frameworkMatch[2]) };
+    }
+
+    return undefined;
+}
+
+/**
+ * Whether the `System.HashCode` struct is available, i.e. .NET Core 2.1 or later and .NET Standard 2.1
+ *
+ * @param targetFramework The target framework moniker, undefined if unknown
+ * @returns If `HashCode.Combine` can be used
+ */
+export function isHashCodeSupported(targetFramework: string | undefined): boolean {
+    const version = targetFramework ? parseTargetFramework(targetFramework) : undefined;
+
+    if (!version || version.family === 'netframework') {
+        return false;
+    }
+
+    return version.major > 2 || (version.major === 2 && version.minor >= 1);
+}
+
+/**
+ * Whether `ArgumentNullException.ThrowIfNull` is available, i.e. .NET 6 or later
+ *
+ * @param targetFramework The target framework moniker, undefined if unknown
+ * @returns If `ArgumentNullException.ThrowIfNull` can be used
+ */
+export function isThrowIfNullSupported(targetFramework: string | undefined): boolean {
+    const version = targetFramework ? parseTargetFramework(targetFramework) : undefined;
+
+    return version?.family === 'netcore' && version.major >= 6;
+}
+
+/**
+ * Retrieves the C# version used by default by the compiler for a target framework
+ *
+ * @param targetFramework The target framework moniker
+ * @returns The default C# language version, undefined if the moniker is not recognized
+ */
+export function getDefaultLanguageVersion(targetFramework: string): number | undefined {
+    const version = parseTargetFramework(targetFramework);
+
+    if (!version) {
+        return undefined;
+    }
+
+    if (version.family === 'netcore' && version.major >= 5) {
+        // .NET 5 defaults to C# 9, every following version to the next C# version
+        return version.major + 4;
+    }
+
+    if (version.family === 'netcore' && version.major === 3) {
+        return 8;
+    }
+
+    if (version.family === 'netstandard' && (version.major > 2 || (version.major === 2 && version.minor >= 1))) {
+        return 8;
+    }
+
+    return 7.3;
+}
+
+/**
+ * Parses the `LangVersion` property of a project
+ *
+ * @param langVersion The value of the `LangVersion` property, i.e. `10.0`, `latest` or `preview`
+ * @param targetFramework The target framework moniker, used when the language version is `default`
+ * @returns The C# language version, undefined if it can't be determined
+ */
+export function parseLanguageVersion(langVersion: string, targetFramework?: string): number | undefined {
+    const value = langVersion.trim().toLowerCase();
+
+    if (['latest', 'latestmajor', 'latestminor', 'preview'].includes(value)) {
+        return Number.POSITIVE_INFINITY;
+    }
+
+    if (value === 'default') {
+        return targetFramework ? getDefaultLanguageVersion(targetFramework) : undefined;
+    }
+
+    const version = Number(value.replace(/^iso-/, ''));
+
+    return Number.isNaN(version) ? undefined : version;
+}
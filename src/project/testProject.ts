@@ -0,0 +1,100 @@
+import * as path from 'path';
+
+import { TemplateType } from '../template/templateType';
+
+export type TestTemplateType = TemplateType.XUnit | TemplateType.NUnit | TemplateType.MsTest;
+
+export type MockingLibrary = 'Moq' | 'NSubstitute';
+
+/** The suffixes of the test projects, i.e. `Foo.Tests` for `Foo` */
+const TestProjectSuffixes = ['.Tests', '.UnitTests', '.Test'];
+
+const TestFrameworkPackages: Array<{ template: TestTemplateType, packages: string[] }> = [
+    { template: TemplateType.XUnit, packages: ['xunit', 'xunit.core', 'xunit.v3'] },
+    { template: TemplateType.NUnit, packages: ['nunit'] },
+    { template: TemplateType.MsTest, packages: ['mstest', 'mstest.sdk', 'mstest.testframework'] },
+];
+
+const TestSdkPackage = 'microsoft.net.test.sdk';
+
+const MockingLibraryPackages: Array<{ library: MockingLibrary, packages: string[] }> = [
+    { library: 'Moq', packages: ['moq'] },
+    { library: 'NSubstitute', packages: ['nsubstitute'] },
+];
+
+/**
+ * Retrieves the names of the projects which may contain the tests of a project
+ *
+ * @param projectName The name of the tested project, i.e. `Foo` for `Foo.csproj`
+ * @param mapping The test project names by project name configured by the user
+ * @returns The candidate names, the configured one first
+ */
+export function getTestProjectNames(projectName: string, mapping: Record<string, string>): string[] {
+    const mappedName = mapping[projectName];
+    const conventionalNames = TestProjectSuffixes.map(suffix => `${projectName}${suffix}`);
+
+    return mappedName ? [mappedName, ...conventionalNames.filter(name => name !== mappedName)] : conventionalNames;
+}
+
+/**
+ * Builds the path of the test file of a class, the folders of the class within its project being mirrored in the test project
+ *
+ * @param filePath The path of the file declaring the class
+ * @param projectPath The path of the project of the class
+ * @param testProjectPath The path of the test project
+ * @param className The name of the tested class
+ * @returns The path of the test file without extension, i.e. `Foo.Tests/Services/CustomerServiceTests`
+ */
+export function getTestFilePath(filePath: string, projectPath: string, testProjectPath: string, className: string): string {
+    const relativeFolder = path.relative(path.dirname(projectPath), path.dirname(filePath));
+
+    return path.join(path.dirname(testProjectPath), relativeFolder, `${className}Tests`);
+}
+
+/**
+ * Detects the test framework from the packages referenced by a test project
+ *
+ * @param packageNames The names of the referenced packages
+ * @returns The template of the test framework, undefined if no known framework is referenced
+ */
+export function detectTestFramework(packageNames: string[]): TestTemplateType | undefined {
+    return detectTestFrameworks(packageNames)[0];
+}
+
+/**
+ * Detects every test framework referenced by a project
+ *
+ * @param packageNames The names of the referenced packages
+ * @returns The templates of the referenced test frameworks
+ */
+export function detectTestFrameworks(packageNames: string[]): TestTemplateType[] {
+    const names = packageNames.map(name => name.toLowerCase());
+
+    return TestFrameworkPackages
+        .filter(framework => framework.packages.some(p => names.includes(p)))
+        .map(framework => framework.template);
+}
+
+/**
+ * Whether a project is a test project, i.e. it references the test SDK or a test framework
+ *
+ * @param packageNames The names of the packages referenced by the project
+ * @returns If the project contains tests
+ */
+export function isTestProject(packageNames: string[]): boolean {
+    const names = packageNames.map(name => name.toLowerCase());
+
+    return names.includes(TestSdkPackage) || detectTestFrameworks(packageNames).length > 0;
+}
+
+/**
+ * Detects the mocking library from the packages referenced by a test project
+ *
+ * @param packageNames The names of the referenced packages
+ * @returns The mocking library, undefined if no known library is referenced
+ */
+export function detectMockingLibrary(packageNames: string[]): MockingLibrary | undefined {
+    const names = packageNames.map(name => name.toLowerCase());
+
+    return MockingLibraryPackages.find(library => library.packages.some(p => names.includes(p)))?.library;
+}
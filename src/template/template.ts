@@ -4,6 +4,7 @@ import * as path from 'path';
 import { TemplateType } from './templateType';
 import TemplateConfiguration from './templateConfiguration';
 import { EMPTY, SPACE, getIndentation } from '../util';
+import { generateTestMethods, generateTestSetup, getTestUsings } from '../generator/testGenerator';
 
 export default class Template {
     private static readonly ClassnameRegex = new RegExp(/\${classname}/, 'g');
@@ -50,15 +51,15 @@ export default class Template {
     }
 
     private _partialBuild(filename: string, namespace: string) {
-        let content = this._content;
+        let content = this._handleTests(this._content);
         if (this._configuration.getUseFileScopedNamespace()) {
-            content = this._getFileScopedNamespaceFormOfTemplate(this._content);
+            content = this._getFileScopedNamespaceFormOfTemplate(content);
         }
 
         content = content
             .replace(Template.NamespaceRegex, namespace)
             .replace(Template.ClassnameRegex, filename)
-            .replace('${namespaces}', this._handleUsings());
+            .replace('${namespaces}', this._handleUsings(namespace));
         if (this._configuration.getTemplateType() === TemplateType.CustomTemplate) {
             const customTemplate = this._configuration.getCustomTemplate() as CustomTemplate;
             const genericsDefinition = customTemplate.genericsDefinition
@@ -85,6 +86,22 @@ export default class Template {
 
         return content;
     }
+
+    private _handleTests(content: string): string {
+        const type = this._configuration.getTemplateType();
+        if (type !== TemplateType.XUnit && type !== TemplateType.NUnit && type !== TemplateType.MsTest) {
+            return content;
+        }
+
+        const testedClass = this._configuration.getTestedClass();
+        const options = this._configuration.getTestOptions();
+
+        // Replaced through functions, the generated code must not be read as replacement patterns, i.e. `$&`
+        return content
+            .replace('${setup}', () => generateTestSetup(type, testedClass, options))
+            .replace('${tests}', () => generateTestMethods(type, testedClass, options));
+    }
+
     private _handleGenericsWhereClauses() {
         const customTemplate = this._configuration.getCustomTemplate() as CustomTemplate;
         if (!customTemplate.genericsWhereClauses || isEmpty(customTemplate.genericsWhereClauses)) {
@@ -154,24 +171,16 @@ export default class Template {
         return usings.filter(using => !implicitUsings.includes(using));
     }
 
-    private _handleUsings(): string {
+    private _handleUsings(namespace: string): string {
         const includeNamespaces = this._configuration.getIncludeNamespaces();
         const skipImplicit = this._configuration.getUseImplicitUsings();
         const eol = this._configuration.getEolSettings();
         let usings = this._handleWithCustomUsings();
         if (includeNamespaces) usings = usings.concat(this._configuration.getOptionalUsings());
+        usings = usings.concat(getTestUsings(namespace, this._configuration.getTestedClass(), this._configuration.getTestOptions()));
         if (skipImplicit) usings = this._removeImplicitUsings(usings, this._configuration.getImplicitUsings());
 
-        if (!usings.length) return '';
-
-        usings = uniq(usings);
-        usings = sortBy(usings, [(using) => !using.startsWith('System'), (using) => using]);
-
-        const joinedUsings = usings
-            .map(using => `using ${using};`)
-            .join(eol);
-
-        return `${joinedUsings}${eol}${eol}`;
+        return Template.buildUsings(usings, eol);
     }
 
     private _handleWithCustomUsings(): string[] {
@@ -188,6 +197,25 @@ export default class Template {
         return customTemplate.header.split(';').map(u => u.replace('using', EMPTY).replace('\n', EMPTY).trim()).filter(l => l !== EMPTY);
     }
 
+    /**
+     * Builds the using directives of a new file, the `System` namespaces first
+     *
+     * @param usings The imported namespaces, i.e. `System.Linq` or `static System.Math`
+     * @param eol The end of line to use
+     * @returns The directives followed by an empty line, empty if there's no using
+     */
+    public static buildUsings(usings: string[], eol: string): string {
+        if (!usings.length) return '';
+
+        const sortedUsings = sortBy(uniq(usings), [(using) => !using.startsWith('System'), (using) => using]);
+
+        const joinedUsings = sortedUsings
+            .map(using => `using ${using};`)
+            .join(eol);
+
+        return `${joinedUsings}${eol}${eol}`;
+    }
+
     public static getExtension(type: TemplateType): string {
         switch (type) {
             case TemplateType.Class:
@@ -4,6 +4,7 @@ import Template from './template';
 import Result from '../common/result';
 import templateConfigurationStatuses from './templateConfigurationStatuses';
 import { ExtensionError } from '../errors/extensionError';
+import { TestOptions, TestedClass } from '../generator/testGenerator';
 
 export default class TemplateConfiguration {
     private _templateType: TemplateType;
@@ -17,6 +18,8 @@ export default class TemplateConfiguration {
     private _useImplicitUsings: boolean;
     private _implicitUsings: Array<string>;
     private _customTemplate?: CustomTemplate;
+    private _testedClass?: TestedClass;
+    private _testOptions?: TestOptions;
 
     private constructor(
         templateType: TemplateType,
@@ -30,6 +33,8 @@ export default class TemplateConfiguration {
         tabSize: number,
         useSpaces: boolean,
         customTemplate?: CustomTemplate,
+        testedClass?: TestedClass,
+        testOptions?: TestOptions,
     ) {
         this._templateType = templateType;
         this._includeNamespaces = includeNamespaces;
@@ -42,6 +47,8 @@ export default class TemplateConfiguration {
         this._customTemplate = customTemplate;
         this._tabSize = tabSize;
         this._useSpaces = useSpaces;
+        this._testedClass = testedClass;
+        this._testOptions = testOptions;
     }
 
     public getTemplateType(): TemplateType { return this._templateType; }
@@ -55,6 +62,8 @@ export default class TemplateConfiguration {
     public getCustomTemplate(): CustomTemplate | undefined { return this._customTemplate; }
     public getTabSize(): number { return this._tabSize; }
     public getUseSapces(): boolean{ return this._useSpaces; }
+    public getTestedClass(): TestedClass | undefined { return this._testedClass; }
+    public getTestOptions(): TestOptions | undefined { return this._testOptions; }
 
     public static create(
         type: TemplateType,
@@ -67,6 +76,8 @@ export default class TemplateConfiguration {
         customTemplate?: CustomTemplate,
         tabSize = 4,
         useSpaces = true,
+        testedClass?: TestedClass,
+        testOptions?: TestOptions,
     ): Result<TemplateConfiguration> {
         if (tabSize < 1) {
             return Result.error<TemplateConfiguration>(
@@ -112,6 +123,8 @@ export default class TemplateConfiguration {
                 tabSize,
                 useSpaces,
                 customTemplate,
+                testedClass,
+                testOptions,
             )
         );
     }
@@ -0,0 +1,175 @@
+import {
+    commands,
+    window,
+    workspace,
+    CodeAction,
+    CodeActionContext,
+    CodeActionKind,
+    CodeActionProvider as VSCodeCodeActionProvider,
+    CodeActionTriggerKind,
+    Disposable,
+    Position,
+    Range,
+    TextDocument,
+    Uri,
+} from 'vscode';
+import * as path from 'path';
+
+import CSharpFileCreator from './creator/cShaprFileCreator';
+import CsprojReader from './project/csprojReader';
+import FileHandler from './io/fileHandler';
+import { Logger } from './logging/log';
+import { formatDocument, openFile } from './document/documentAction';
+import { parseDocument } from './document/documentParser';
+import { getTopLevelTypes } from './parser/declarationFinder';
+import { TypeKind } from './parser/declarations';
+import { getTestedClass } from './generator/testGenerator';
+import { detectMockingLibrary, getTestFilePath, getTestProjectNames } from './project/testProject';
+import { pickTestFramework } from './ui/testFrameworkPicker';
+
+export default class TestCreator implements VSCodeCodeActionProvider {
+    public static readonly ProvidedCodeActionKinds = [CodeActionKind.RefactorExtract];
+
+    private static readonly ExcludedFolders = '**/{bin,obj}/**';
+    private static readonly TestedTypeKinds: TypeKind[] = ['class', 'record', 'struct', 'record struct'];
+
+    private _commandIds = {
+        createUnitTest: 'csharpextensions.createUnitTest',
+    };
+
+    private readonly _templatesPath: string;
+
+    /**
+     * @param templatesPath The folder containing the templates of the extension
+     */
+    constructor(templatesPath: string) {
+        this._templatesPath = templatesPath;
+    }
+
+    /**
+     * Registers the command creating the unit test of a class
+     *
+     * @returns The disposable unregistering the command
+     */
+    public register(): Disposable {
+        return commands.registerCommand(this._commandIds.createUnitTest, this.executeCreateUnitTest, this);
+    }
+
+    public provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext): CodeAction[] {
+        if (context.triggerKind !== CodeActionTriggerKind.Invoke || document.isUntitled) {
+            return [];
+        }
+
+        const offset = document.offsetAt(range.start);
+        const type = getTopLevelTypes(parseDocument(document))
+            .find(t => TestCreator.TestedTypeKinds.includes(t.kind) && offset >= t.fullStart && offset <= t.end);
+
+        if (!type || /Tests?$/.test(type.name)) {
+            return [];
+        }
+
+        const codeAction = new CodeAction('Create unit test for this class', CodeActionKind.RefactorExtract);
+        codeAction.command = {
+            title: codeAction.title,
+            command: this._commandIds.createUnitTest,
+            arguments: [document, type.name],
+        };
+
+        return [codeAction];
+    }
+
+    /**
+     * Creates the test class of a class in the test project matching the project of the class.
+     * The test file mirrors the folders of the class and uses the test framework referenced by the test project,
+     * with a test stub per public method of the class and its dependencies mocked by the mocking library of the test project.
+     *
+     * @param document The document declaring the class
+     * @param className The name of the class to test
+     */
+    private async executeCreateUnitTest(document: TextDocument, className: string) {
+        const { uri } = document;
+        const type = getTopLevelTypes(parseDocument(document)).find(t => TestCreator.TestedTypeKinds.includes(t.kind) && t.name === className);
+        if (!type) {
+            Logger.error(`The class ${className} was not found in ${uri.fsPath}`);
+
+            return;
+        }
+
+        const csprojReader = await CsprojReader.createFromPath(uri.fsPath);
+        if (!csprojReader) {
+            window.showErrorMessage(`${path.basename(uri.fsPath)} is not part of a project`);
+
+            return;
+        }
+
+        const projectPath = csprojReader.getFilePath();
+        const testProjectPath = await this._findTestProject(projectPath);
+        if (!testProjectPath) {
+            return;
+        }
+
+        const pathWithoutExtension = getTestFilePath(uri.fsPath, projectPath, testProjectPath, className);
+        if (await FileHandler.fileExists(`${pathWithoutExtension}.cs`)) {
+            await openFile(`${pathWithoutExtension}.cs`, undefined);
+
+            return;
+        }
+
+        const packageReferences = await new CsprojReader(testProjectPath).getPackageReferences();
+        const template = await pickTestFramework(path.basename(testProjectPath), packageReferences);
+        if (template === undefined) {
+            return;
+        }
+
+        const testOptions = {
+            mockingLibrary: detectMockingLibrary(packageReferences),
+            privateMemberPrefix: workspace.getConfiguration().get('csharpextensions.privateMemberPrefix', ''),
+        };
+
+        await workspace.fs.createDirectory(Uri.file(path.dirname(pathWithoutExtension)));
+
+        const createdFileResult = await CSharpFileCreator.createFromSettings(template, this._templatesPath, pathWithoutExtension, `${className}Tests`,
+            undefined, getTestedClass(type), testOptions);
+        if (createdFileResult.isErr()) {
+            Logger.error(createdFileResult.info() ?? `Error trying to create the tests of ${className}`);
+            window.showErrorMessage(createdFileResult.info() ?? `The tests of ${className} could not be created`);
+
+            return;
+        }
+
+        const createdFile = createdFileResult.value();
+        const cursorPosition = createdFile.cursorPositionArray
+            ? new Position(createdFile.cursorPositionArray[0], createdFile.cursorPositionArray[1])
+            : undefined;
+
+        try {
+            await formatDocument(await openFile(createdFile.filePath, cursorPosition));
+        } catch (err) {
+            Logger.error(`Error trying to open the file path ${createdFile.filePath}: ${err}`);
+        }
+    }
+
+    private async _findTestProject(projectPath: string): Promise<string | undefined> {
+        const projectName = path.basename(projectPath, '.csproj');
+        const mapping = workspace.getConfiguration().get<Record<string, string>>('csharpextensions.testProjectMapping', {});
+        const names = getTestProjectNames(projectName, mapping);
+
+        const files = await workspace.findFiles(`**/{${names.join(',')}}.csproj`, TestCreator.ExcludedFolders);
+        const candidates = files
+            .map(file => ({ path: file.fsPath, rank: names.indexOf(path.basename(file.fsPath, '.csproj')) }))
+            .sort((a, b) => a.rank - b.rank);
+
+        if (!candidates.length) {
+            window.showErrorMessage(`No test project found for ${projectName}, create ${names[0]}.csproj or map it through csharpextensions.testProjectMapping`);
+
+            return undefined;
+        }
+
+        const bestCandidates = candidates.filter(candidate => candidate.rank === candidates[0].rank);
+        if (bestCandidates.length === 1) {
+            return bestCandidates[0].path;
+        }
+
+        return await window.showQuickPick(bestCandidates.map(candidate => candidate.path), { title: `Select the test project of ${projectName}` });
+    }
+}
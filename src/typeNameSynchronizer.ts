@@ -0,0 +1,90 @@
+import {
+    commands,
+    window,
+    workspace,
+    Disposable,
+    FileRenameEvent,
+    TextDocument,
+    WorkspaceEdit,
+} from 'vscode';
+import * as path from 'path';
+
+import { Logger } from './logging/log';
+import { toTextEdits } from './document/documentAction';
+import { parseDocument } from './document/documentParser';
+import { isValidTypeName } from './generator/naming';
+import { findFileTypes, renameTypeDeclarations } from './generator/typeRenamer';
+
+export default class TypeNameSynchronizer {
+    /**
+     * Starts offering to rename the type declared by a C# file when the file is renamed
+     *
+     * @returns The disposable stopping the synchronization
+     */
+    public watch(): Disposable {
+        return workspace.onDidRenameFiles(event => this.onDidRenameFiles(event));
+    }
+
+    private async onDidRenameFiles(event: FileRenameEvent) {
+        for (const file of event.files) {
+            if (file.oldUri.scheme !== 'file' || !file.oldUri.fsPath.endsWith('.cs') || !file.newUri.fsPath.endsWith('.cs')) {
+                continue;
+            }
+
+            const oldName = path.basename(file.oldUri.fsPath, '.cs');
+            const newName = path.basename(file.newUri.fsPath, '.cs');
+            if (oldName === newName || !isValidTypeName(newName)) {
+                continue;
+            }
+
+            try {
+                await this._offerTypeRename(await workspace.openTextDocument(file.newUri), oldName, newName);
+            } catch (err) {
+                Logger.error(`Error trying to rename the type ${oldName} to ${newName} - ${err}`);
+            }
+        }
+    }
+
+    private async _offerTypeRename(document: TextDocument, oldName: string, newName: string) {
+        const version = document.version;
+        const unit = parseDocument(document);
+        const types = findFileTypes(unit, oldName);
+        if (!types.length) {
+            return;
+        }
+
+        const answer = await window.showInformationMessage(`Rename the ${types[0].kind} '${oldName}' to '${newName}' as well?`, 'Rename');
+        if (answer !== 'Rename') {
+            return;
+        }
+
+        if (document.isClosed || document.version !== version) {
+            Logger.error(`The document changed while confirming, ${oldName} has not been renamed`);
+
+            return;
+        }
+
+        // The rename provider of the C# language server updates the references too, the declarations are renamed alone otherwise
+        const renameEdit = await this._getRenameEdit(document, types[0].nameStart, newName);
+        if (renameEdit?.size) {
+            await workspace.applyEdit(renameEdit);
+
+            return;
+        }
+
+        const edit = new WorkspaceEdit();
+        edit.set(document.uri, toTextEdits(document, renameTypeDeclarations(types, newName)));
+
+        await workspace.applyEdit(edit);
+    }
+
+    private async _getRenameEdit(document: TextDocument, offset: number, newName: string): Promise<WorkspaceEdit | undefined> {
+        try {
+            return await commands.executeCommand<WorkspaceEdit>('vscode.executeDocumentRenameProvider', document.uri, document.positionAt(offset), newName);
+        } catch (err) {
+            Logger.debug(`No rename provider available for ${document.fileName} - ${err}`);
+
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,77 @@
+import { Disposable, QuickInputButton, QuickPickItem, ThemeIcon, window } from 'vscode';
+
+interface PickableMember {
+    name: string,
+    type: string,
+}
+
+interface MemberQuickPickItem<T extends PickableMember> extends QuickPickItem {
+    member: T,
+}
+
+const moveUpButton: QuickInputButton = { iconPath: new ThemeIcon('arrow-up'), tooltip: 'Move up' };
+const moveDownButton: QuickInputButton = { iconPath: new ThemeIcon('arrow-down'), tooltip: 'Move down' };
+
+/**
+ * Shows a multi-select quick pick listing the given members with their type.
+ * The items can be moved up and down through the item buttons, the order of the items is kept in the result.
+ *
+ * @param title The title of the quick pick
+ * @param members The candidate members
+ * @param isPicked Whether a member should be selected when the quick pick is shown
+ * @returns The selected members in the order defined by the user, undefined when the quick pick has been dismissed
+ */
+export async function showMemberPicker<T extends PickableMember>(title: string, members: Array<T>, isPicked: (member: T) => boolean): Promise<Array<T> | undefined> {
+    const disposables: Disposable[] = [];
+    const quickPick = window.createQuickPick<MemberQuickPickItem<T>>();
+
+    try {
+        return await new Promise<Array<T> | undefined>((resolve) => {
+            let items = members.map<MemberQuickPickItem<T>>(member => ({
+                label: member.name,
+                description: member.type,
+                buttons: [moveUpButton, moveDownButton],
+                member,
+            }));
+
+            quickPick.title = title;
+            quickPick.placeholder = 'Select the members, use the arrows to change their order';
+            quickPick.canSelectMany = true;
+            quickPick.ignoreFocusOut = true;
+            quickPick.items = items;
+            quickPick.selectedItems = items.filter(item => isPicked(item.member));
+
+            disposables.push(
+                quickPick.onDidTriggerItemButton(event => {
+                    const index = items.indexOf(event.item);
+                    const newIndex = event.button === moveUpButton ? index - 1 : index + 1;
+
+                    if (newIndex < 0 || newIndex >= items.length) {
+                        return;
+                    }
+
+                    const selectedItems = quickPick.selectedItems;
+                    items = [...items];
+                    items.splice(index, 1);
+                    items.splice(newIndex, 0, event.item);
+
+                    quickPick.items = items;
+                    quickPick.selectedItems = selectedItems;
+                    quickPick.activeItems = [event.item];
+                }),
+                quickPick.onDidAccept(() => {
+                    const selectedItems = quickPick.selectedItems;
+
+                    resolve(items.filter(item => selectedItems.includes(item)).map(item => item.member));
+                    quickPick.hide();
+                }),
+                quickPick.onDidHide(() => resolve(undefined)),
+            );
+
+            quickPick.show();
+        });
+    } finally {
+        disposables.forEach(d => d.dispose());
+        quickPick.dispose();
+    }
+}
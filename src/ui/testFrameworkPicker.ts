@@ -0,0 +1,31 @@
+import { window } from 'vscode';
+
+import { TemplateType } from '../template/templateType';
+import { TestTemplateType, detectTestFrameworks } from '../project/testProject';
+
+const TestFrameworks: Array<{ label: string, template: TestTemplateType }> = [
+    { label: 'xUnit', template: TemplateType.XUnit },
+    { label: 'NUnit', template: TemplateType.NUnit },
+    { label: 'MSTest', template: TemplateType.MsTest },
+];
+
+/**
+ * Picks the test framework of a project from its packages, the user being asked only when the project references none or several
+ *
+ * @param projectName The name of the project, shown in the quick pick
+ * @param packageNames The names of the packages referenced by the project
+ * @returns The template of the test framework, undefined when the quick pick has been dismissed
+ */
+export async function pickTestFramework(projectName: string, packageNames: string[]): Promise<TestTemplateType | undefined> {
+    const detected = detectTestFrameworks(packageNames);
+    if (detected.length === 1) {
+        return detected[0];
+    }
+
+    const frameworks = detected.length
+        ? TestFrameworks.filter(framework => detected.includes(framework.template))
+        : TestFrameworks;
+    const picked = await window.showQuickPick(frameworks, { title: `Select the test framework of ${projectName}` });
+
+    return picked?.template;
+}
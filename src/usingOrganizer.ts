@@ -0,0 +1,103 @@
+import {
+    commands,
+    window,
+    workspace,
+    CodeAction,
+    CodeActionContext,
+    CodeActionKind,
+    CodeActionProvider as VSCodeCodeActionProvider,
+    CodeActionTriggerKind,
+    Disposable,
+    EndOfLine,
+    Range,
+    TextDocument,
+    Uri,
+    WorkspaceEdit,
+} from 'vscode';
+
+import CsprojReader from './project/csprojReader';
+import GlobalUsingFinder from './project/globalUsings';
+import { Logger } from './logging/log';
+import { toTextEdits } from './document/documentAction';
+import { parseDocument } from './document/documentParser';
+import { getAllNamespaces } from './parser/declarationFinder';
+import { organizeUsings } from './generator/usingGenerator';
+
+export default class UsingOrganizer implements VSCodeCodeActionProvider {
+    public static readonly ProvidedCodeActionKinds = [CodeActionKind.SourceOrganizeImports];
+
+    private _commandIds = {
+        organizeUsings: 'csharpextensions.organizeUsings',
+    };
+
+    /**
+     * Registers the command organizing the usings of a document
+     *
+     * @returns The disposable unregistering the command
+     */
+    public register(): Disposable {
+        return commands.registerCommand(this._commandIds.organizeUsings, this.executeOrganizeUsings, this);
+    }
+
+    public provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext): CodeAction[] {
+        const isRequested = context.only?.contains(CodeActionKind.SourceOrganizeImports) === true;
+        if (context.triggerKind !== CodeActionTriggerKind.Invoke && !isRequested) {
+            return [];
+        }
+
+        const unit = parseDocument(document);
+        const usings = [...unit.usings, ...getAllNamespaces(unit).flatMap(namespace => namespace.usings)].filter(using => !using.isGlobal);
+        const start = document.offsetAt(range.start);
+        const end = document.offsetAt(range.end);
+
+        if (!usings.length || (!isRequested && !usings.some(using => start <= using.end && end >= using.start))) {
+            return [];
+        }
+
+        const codeAction = new CodeAction('Organize usings', CodeActionKind.SourceOrganizeImports);
+        codeAction.command = {
+            title: codeAction.title,
+            command: this._commandIds.organizeUsings,
+            arguments: [document.uri],
+        };
+
+        return [codeAction];
+    }
+
+    /**
+     * Removes the usings of a document already in scope, i.e. the global usings, the `Using` items
+     * and the implicit usings of its project, and sorts the others the way the templates do
+     *
+     * @param uri The document to organize, the active one when the command is invoked from the command palette
+     */
+    private async executeOrganizeUsings(uri?: Uri) {
+        const document = uri ? await workspace.openTextDocument(uri) : window.activeTextEditor?.document;
+        if (!document || document.languageId !== 'csharp') {
+            window.showErrorMessage('Organize usings requires a C# document');
+
+            return;
+        }
+
+        const version = document.version;
+        const csprojReader = document.isUntitled ? undefined : await CsprojReader.createFromPath(document.fileName);
+        const globalUsings = csprojReader ? await GlobalUsingFinder.findForProject(csprojReader) : [];
+        if (document.version !== version) {
+            Logger.error('The document changed while reading its project, the usings have not been organized');
+
+            return;
+        }
+
+        const eol = document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+        const result = organizeUsings(parseDocument(document), globalUsings, eol);
+        if (result.isErr()) {
+            window.showInformationMessage(result.info() ?? 'The usings could not be organized');
+
+            return;
+        }
+
+        const edit = new WorkspaceEdit();
+        edit.set(document.uri, toTextEdits(document, result.value()));
+
+        await workspace.applyEdit(edit);
+    }
+}
@@ -5,6 +5,7 @@ import * as path from 'path';
 import * as sinon from 'sinon';
 
 import CsprojReader from '../../../src/project/csprojReader';
+import ProjectReader from '../../../src/project/projectReader';
 import FileHandler from '../../../src/io/fileHandler';
 import { Logger } from '../../../src/logging/log';
 
@@ -566,4 +567,110 @@ suite('CsprojReader', () => {
         const result = await CsprojReader.createFromPath(filePath);
         assert.strictEqual(undefined, result);
     });
+
+    const languageVersions = [
+        { langVersion: '', targetFramework: 'net6.0', expected: 10 },
+        { langVersion: '<LangVersion>9.0</LangVersion>', targetFramework: 'net8.0', expected: 9 },
+        { langVersion: '<LangVersion>latest</LangVersion>', targetFramework: 'net48', expected: Number.POSITIVE_INFINITY },
+        { langVersion: '<LangVersion>default</LangVersion>', targetFramework: 'netcoreapp3.1', expected: 8 },
+    ];
+
+    languageVersions.forEach(({ langVersion, targetFramework, expected }) => {
+        test(`getLanguageVersion with ${langVersion || 'no LangVersion'} targeting ${targetFramework} should return ${expected}`, async () => {
+            const csproj = `<Project Sdk="Microsoft.NET.Sdk"><PropertyGroup><TargetFramework>${targetFramework}</TargetFramework>${langVersion}</PropertyGroup></Project>`;
+            fakeFileHandler.read = sinon.fake.resolves(csproj);
+            sinon.replace(FileHandler, 'read', fakeFileHandler.read);
+            sinon.replace(Logger, 'error', () => {});
+            const detector = new CsprojReader(`${fixture_path}/xyz.csproj`);
+            const actual = await detector.getLanguageVersion();
+
+            assert.strictEqual(actual, expected);
+        });
+    });
+
+    const nullableOptions = [
+        { nullable: '<Nullable>enable</Nullable>', expected: true },
+        { nullable: '<Nullable>disable</Nullable>', expected: false },
+        { nullable: '', expected: false },
+    ];
+
+    nullableOptions.forEach(({ nullable, expected }) => {
+        test(`isNullableEnabled with ${nullable || 'no Nullable'} should return ${expected}`, async () => {
+            const csproj = `<Project Sdk="Microsoft.NET.Sdk"><PropertyGroup><TargetFramework>net8.0</TargetFramework>${nullable}</PropertyGroup></Project>`;
+            fakeFileHandler.read = sinon.fake.resolves(csproj);
+            sinon.replace(FileHandler, 'read', fakeFileHandler.read);
+            sinon.replace(Logger, 'error', () => {});
+            const detector = new CsprojReader(`${fixture_path}/xyz.csproj`);
+            const actual = await detector.isNullableEnabled();
+
+            assert.strictEqual(actual, expected);
+        });
+    });
+
+    const sdks = [
+        { project: '<Project Sdk="Microsoft.NET.Sdk.Web">', expected: 'Microsoft.NET.Sdk.Web' },
+        { project: '<Project ToolsVersion="15.0">', expected: undefined },
+    ];
+
+    sdks.forEach(({ project, expected }) => {
+        test(`getSdk of ${project} should return ${expected}`, async () => {
+            const csproj = `${project}<PropertyGroup><TargetFramework>net8.0</TargetFramework></PropertyGroup></Project>`;
+            fakeFileHandler.read = sinon.fake.resolves(csproj);
+            sinon.replace(FileHandler, 'read', fakeFileHandler.read);
+            sinon.replace(Logger, 'error', () => {});
+            const detector = new CsprojReader(`${fixture_path}/xyz.csproj`);
+            const actual = await detector.getSdk();
+
+            assert.strictEqual(actual, expected);
+        });
+    });
+
+    test('getPackageReferences should return the names of the referenced packages', async () => {
+        const csproj = `<Project Sdk="Microsoft.NET.Sdk">
+            <ItemGroup>
+                <PackageReference Include="Microsoft.NET.Test.Sdk" Version="17.8.0" />
+                <PackageReference Include="xunit" Version="2.6.2" />
+            </ItemGroup>
+            <ItemGroup>
+                <Using Include="Xunit" />
+                <PackageReference Include="Moq" />
+            </ItemGroup>
+        </Project>`;
+        fakeFileHandler.read = sinon.fake.resolves(csproj);
+        sinon.replace(FileHandler, 'read', fakeFileHandler.read);
+        sinon.replace(Logger, 'error', () => {});
+        const detector = new CsprojReader(`${fixture_path}/xyz.csproj`);
+        const actual = await detector.getPackageReferences();
+
+        assert.deepStrictEqual(actual, ['Microsoft.NET.Test.Sdk', 'xunit', 'Moq']);
+    });
+
+    test('getPackages should read the versions of the centrally managed packages', async () => {
+        const csproj = `<Project Sdk="Microsoft.NET.Sdk">
+            <ItemGroup>
+                <PackageReference Include="xunit" />
+                <PackageReference Include="Moq" VersionOverride="4.18.4" />
+                <PackageReference Include="Unlisted" />
+            </ItemGroup>
+        </Project>`;
+        const props = `<Project>
+            <ItemGroup>
+                <PackageVersion Include="xUnit" Version="2.6.2" />
+                <PackageVersion Include="Moq" Version="4.20.70" />
+            </ItemGroup>
+        </Project>`;
+        const read = sinon.stub(FileHandler, 'read');
+        read.onCall(0).resolves(csproj);
+        read.onCall(1).resolves(props);
+        sinon.replace(ProjectReader, 'findProjectPath', sinon.fake.resolves(`${fixture_path}/Directory.Packages.props`));
+        sinon.replace(Logger, 'error', () => {});
+        const detector = new CsprojReader(`${fixture_path}/xyz.csproj`);
+        const actual = await detector.getPackages();
+
+        assert.deepStrictEqual(actual, [
+            { name: 'xunit', version: '2.6.2' },
+            { name: 'Moq', version: '4.18.4' },
+            { name: 'Unlisted', version: undefined },
+        ]);
+    });
 });
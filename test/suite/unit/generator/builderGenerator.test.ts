@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { BuilderOptions, addNestedBuilder, generateBuilderMembers } from '../../../../src/generator/builderGenerator';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('BuilderGenerator', () => {
+    const options: BuilderOptions = {
+        eol: '\n',
+        indentation: '    ',
+        memberIndentation: '    ',
+        privateMemberPrefix: '_',
+        useThisForCtorAssignments: false,
+        isNested: false,
+    };
+
+    function generate(lines: string[], generationOptions = options): string | undefined {
+        const unit = DeclarationParser.parse(lines.join('\n'));
+        const result = generateBuilderMembers(getAllTypes(unit)[0], generationOptions);
+
+        return result.isOk() ? result.value().join('\n\n') : undefined;
+    }
+
+    test('generateBuilderMembers calls the widest constructor and sets the other properties', () => {
+        const result = generate([
+            'public class Order',
+            '{',
+            '    public Order() { }',
+            '    public Order(string name, int quantity) { }',
+            '    public string Name { get; }',
+            '    public int Quantity { get; }',
+            '    public string Notes { get; set; }',
+            '    public decimal Total => Quantity * 2;',
+            '    public static int Count { get; set; }',
+            '}',
+        ]);
+
+        assert.strictEqual(result, [
+            '    private string _name;',
+            '    private int _quantity;',
+            '    private string _notes;',
+            '',
+            '    public OrderBuilder WithName(string name)',
+            '    {',
+            '        _name = name;',
+            '',
+            '        return this;',
+            '    }',
+            '',
+            '    public OrderBuilder WithQuantity(int quantity)',
+            '    {',
+            '        _quantity = quantity;',
+            '',
+            '        return this;',
+            '    }',
+            '',
+            '    public OrderBuilder WithNotes(string notes)',
+            '    {',
+            '        _notes = notes;',
+            '',
+            '        return this;',
+            '    }',
+            '',
+            '    public Order Build()',
+            '    {',
+            '        return new Order(_name, _quantity) { Notes = _notes };',
+            '    }',
+        ].join('\n'));
+    });
+
+    test('generateBuilderMembers uses an object initializer when there is no constructor', () => {
+        const result = generate([
+            'public record Person<T>',
+            '{',
+            '    public string Name { get; init; }',
+            '    public T Tag { get; private set; }',
+            '}',
+        ], { ...options, privateMemberPrefix: '', useThisForCtorAssignments: true });
+
+        assert.strictEqual(result, [
+            '    private string name;',
+            '',
+            '    public PersonBuilder<T> WithName(string name)',
+            '    {',
+            '        this.name = name;',
+            '',
+            '        return this;',
+            '    }',
+            '',
+            '    public Person<T> Build()',
+            '    {',
+            '        return new Person<T> { Name = name };',
+            '    }',
+        ].join('\n'));
+    });
+
+    test('generateBuilderMembers passes the positional parameters of records', () => {
+        const result = generate(['public record Point(int X, int Y);']);
+
+        assert.ok(result?.includes('public PointBuilder WithX(int x)'));
+        assert.ok(result?.endsWith('        return new Point(_x, _y);\n    }'));
+    });
+
+    test('generateBuilderMembers refuses the types which can\'t be instantiated', () => {
+        assert.strictEqual(generate(['public static class Helpers', '{', '}']), undefined);
+        assert.strictEqual(generate(['public class Order', '{', '    private Order(int id) { }', '    public int Id { get; }', '}']), undefined);
+    });
+
+    test('addNestedBuilder appends the builder to the type, its private constructors being accessible', () => {
+        const source = [
+            'namespace Shop',
+            '{',
+            '    public class Order',
+            '    {',
+            '        private Order(int id) { }',
+            '        public int Id { get; }',
+            '    }',
+            '}',
+        ].join('\n');
+        const unit = DeclarationParser.parse(source);
+        const result = addNestedBuilder(unit, getAllTypes(unit)[0], options);
+
+        assert.ok(result.isOk(), result.info());
+        assert.strictEqual(applySourceEdits(source, [result.value()]), [
+            'namespace Shop',
+            '{',
+            '    public class Order',
+            '    {',
+            '        private Order(int id) { }',
+            '        public int Id { get; }',
+            '',
+            '        public class OrderBuilder',
+            '        {',
+            '            private int _id;',
+            '',
+            '            public OrderBuilder WithId(int id)',
+            '            {',
+            '                _id = id;',
+            '',
+            '                return this;',
+            '            }',
+            '',
+            '            public Order Build()',
+            '            {',
+            '                return new Order(_id);',
+            '            }',
+            '        }',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+});
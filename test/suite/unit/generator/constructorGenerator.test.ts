@@ -0,0 +1,343 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { addMembersFromParameters, addMembersToConstructor, ConstructorGenerationOptions, getUnassignedParameters, getUninitializedMembers } from '../../../../src/generator/constructorGenerator';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('ConstructorGenerator', () => {
+    const options: ConstructorGenerationOptions = {
+        eol: '\n',
+        indentation: '    ',
+        privateMemberPrefix: '_',
+        useThisForCtorAssignments: false,
+    };
+
+    function addMembers(lines: string[], members: Array<{ name: string, type: string }>, generationOptions = options): string {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const ctor = getAllTypes(unit)[0].members.find(m => m.kind === 'constructor');
+
+        assert.ok(ctor);
+
+        return applySourceEdits(source, addMembersToConstructor(unit, ctor, members, generationOptions));
+    }
+
+    test('getUninitializedMembers filters the assigned members', () => {
+        const source = [
+            'public class Foo',
+            '{',
+            '    private readonly ILogger _logger;',
+            '    private readonly IClock _clock;',
+            '    public string Name { get; }',
+            '    public Foo(ILogger logger) { _logger = logger; }',
+            '}',
+        ].join('\n');
+        const unit = DeclarationParser.parse(source);
+        const ctor = getAllTypes(unit)[0].members.find(m => m.kind === 'constructor');
+        const members = [
+            { name: '_logger', type: 'ILogger' },
+            { name: '_clock', type: 'IClock' },
+            { name: 'Name', type: 'string' },
+        ];
+
+        assert.ok(ctor);
+        assert.deepStrictEqual(getUninitializedMembers(unit, ctor, members).map(m => m.name), ['_clock', 'Name']);
+    });
+
+    test('addMembersToConstructor appends parameters and assignments to a block body', () => {
+        const result = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo(ILogger logger)',
+            '    {',
+            '        _logger = logger;',
+            '    }',
+            '}',
+        ], [{ name: '_clock', type: 'IClock' }, { name: 'Name', type: 'string' }]);
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public Foo(ILogger logger, IClock clock, string name)',
+            '    {',
+            '        _logger = logger;',
+            '        _clock = clock;',
+            '        Name = name;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersToConstructor handles empty parameter lists and single line bodies', () => {
+        const result = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo() { Init(); }',
+            '}',
+        ], [{ name: 'Name', type: 'string' }], { ...options, useThisForCtorAssignments: true });
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public Foo(string name) { Init();',
+            '        this.Name = name;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersToConstructor keeps multi-line parameters aligned', () => {
+        const result = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo(',
+            '        ILogger logger)',
+            '    {',
+            '    }',
+            '}',
+        ], [{ name: '_clock', type: 'IClock' }]);
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public Foo(',
+            '        ILogger logger,',
+            '        IClock clock)',
+            '    {',
+            '        _clock = clock;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersToConstructor inserts the parameters before the optional and params ones', () => {
+        const result = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo(ILogger logger, int retries = 3, params string[] tags)',
+            '    {',
+            '    }',
+            '}',
+        ], [{ name: 'Name', type: 'string' }]);
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public Foo(ILogger logger, string name, int retries = 3, params string[] tags)',
+            '    {',
+            '        Name = name;',
+            '    }',
+            '}',
+        ].join('\n'));
+
+        const multilineResult = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo(',
+            '        params string[] tags)',
+            '    {',
+            '    }',
+            '}',
+        ], [{ name: '_clock', type: 'IClock' }]);
+
+        assert.strictEqual(multilineResult, [
+            'public class Foo',
+            '{',
+            '    public Foo(',
+            '        IClock clock,',
+            '        params string[] tags)',
+            '    {',
+            '        _clock = clock;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersToConstructor does not duplicate existing parameters', () => {
+        const result = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo(string name)',
+            '    {',
+            '    }',
+            '}',
+        ], [{ name: 'Name', type: 'string' }]);
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public Foo(string name)',
+            '    {',
+            '        Name = name;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersToConstructor extends the deconstruction of an expression body', () => {
+        const result = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo(ILogger logger) => _logger = logger;',
+            '    public Bar(int a, int b) => (A, B) = (a, b);',
+            '}',
+        ], [{ name: '_clock', type: 'IClock' }]);
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public Foo(ILogger logger, IClock clock) => (_logger, _clock) = (logger, clock);',
+            '    public Bar(int a, int b) => (A, B) = (a, b);',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersToConstructor converts other expression bodies to block bodies', () => {
+        const result = addMembers([
+            'public class Foo',
+            '{',
+            '    public Foo() => Init();',
+            '}',
+        ], [{ name: '_clock', type: 'IClock' }]);
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public Foo(IClock clock)',
+            '    {',
+            '        Init();',
+            '        _clock = clock;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    function addFromParameters(lines: string[], kind: CSharpMemberKind, generationOptions = options): string {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const type = getAllTypes(unit)[0];
+        const ctor = type.members.find(m => m.kind === 'constructor');
+
+        assert.ok(ctor);
+
+        const parameters = getUnassignedParameters(unit, ctor, generationOptions.privateMemberPrefix);
+
+        return applySourceEdits(source, addMembersFromParameters(unit, type, ctor, parameters, kind, generationOptions));
+    }
+
+    test('getUnassignedParameters skips the parameters assigned to a member', () => {
+        const source = [
+            'public class Foo',
+            '{',
+            '    public Foo(ILogger logger, IClock clock, string name, out int count) => (_logger, Name, count) = (logger, name, 0);',
+            '}',
+        ].join('\n');
+        const unit = DeclarationParser.parse(source);
+        const ctor = getAllTypes(unit)[0].members.find(m => m.kind === 'constructor');
+
+        assert.ok(ctor);
+        assert.deepStrictEqual(getUnassignedParameters(unit, ctor, '_').map(p => p.name), ['clock']);
+    });
+
+    test('addMembersFromParameters declares and assigns get-only properties', () => {
+        const result = addFromParameters([
+            'public class Foo',
+            '{',
+            '    public Foo(string firstName, int age)',
+            '    {',
+            '    }',
+            '}',
+        ], 'property');
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public string FirstName { get; }',
+            '    public int Age { get; }',
+            '',
+            '    public Foo(string firstName, int age)',
+            '    {',
+            '        FirstName = firstName;',
+            '        Age = age;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersFromParameters declares the fields after the existing ones and extends expression bodies', () => {
+        const result = addFromParameters([
+            'public class Foo',
+            '{',
+            '    private readonly ILogger _logger;',
+            '',
+            '    public Foo(ILogger logger, IClock clock) => _logger = logger;',
+            '}',
+        ], 'field');
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    private readonly ILogger _logger;',
+            '    private readonly IClock _clock;',
+            '',
+            '    public Foo(ILogger logger, IClock clock) => (_logger, _clock) = (logger, clock);',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersFromParameters only assigns the members already declared', () => {
+        const result = addFromParameters([
+            'public class Foo',
+            '{',
+            '    public string Name { get; }',
+            '    public Foo(string name) { }',
+            '}',
+        ], 'property', { ...options, useThisForCtorAssignments: true });
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public string Name { get; }',
+            '    public Foo(string name) {',
+            '        this.Name = name;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addMembersFromParameters assigns the escaped and all-caps parameters as they are', () => {
+        const result = addFromParameters([
+            'public class Foo',
+            '{',
+            '    public Foo(int @class, string URL)',
+            '    {',
+            '    }',
+            '}',
+        ], 'property');
+
+        assert.strictEqual(result, [
+            'public class Foo',
+            '{',
+            '    public int Class { get; }',
+            '    public string URL { get; }',
+            '',
+            '    public Foo(int @class, string URL)',
+            '    {',
+            '        Class = @class;',
+            '        this.URL = URL;',
+            '    }',
+            '}',
+        ].join('\n'));
+
+        const fieldResult = addFromParameters([
+            'public class Foo',
+            '{',
+            '    public Foo(int @class) { }',
+            '}',
+        ], 'field', { ...options, privateMemberPrefix: '' });
+
+        assert.ok(fieldResult.includes('    private readonly int @class;'));
+        assert.ok(fieldResult.includes('    public Foo(int @class) {\n        this.@class = @class;'));
+    });
+});
@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { ConstructorGenerationOptions } from '../../../../src/generator/constructorGenerator';
+import { addDependency, getDependencyFieldName, getWellKnownNamespace } from '../../../../src/generator/dependencyGenerator';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('DependencyGenerator', () => {
+    const options: ConstructorGenerationOptions = {
+        eol: '\n',
+        indentation: '    ',
+        privateMemberPrefix: '_',
+        useThisForCtorAssignments: false,
+    };
+
+    function inject(lines: string[], dependencyType: string, generationOptions = options): string {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const result = addDependency(unit, getAllTypes(unit)[0], dependencyType, generationOptions);
+
+        assert.ok(result.isOk(), result.info());
+
+        return applySourceEdits(source, result.value());
+    }
+
+    test('getDependencyFieldName names the field after the type', () => {
+        assert.strictEqual(getDependencyFieldName('IOrderService', '_'), '_orderService');
+        assert.strictEqual(getDependencyFieldName('ILogger<OrderService>', '_'), '_logger');
+        assert.strictEqual(getDependencyFieldName('Shop.Clock?', ''), 'clock');
+    });
+
+    test('getWellKnownNamespace knows the framework dependencies', () => {
+        assert.strictEqual(getWellKnownNamespace('ILogger<OrderService>'), 'Microsoft.Extensions.Logging');
+        assert.strictEqual(getWellKnownNamespace('IOptions<ShopOptions>'), 'Microsoft.Extensions.Options');
+        assert.strictEqual(getWellKnownNamespace('IOrderService'), undefined);
+    });
+
+    test('addDependency adds the field after the existing ones and extends the constructor', () => {
+        const result = inject([
+            'public class OrderService',
+            '{',
+            '    private readonly IClock _clock;',
+            '',
+            '    public OrderService(IClock clock)',
+            '    {',
+            '        _clock = clock;',
+            '    }',
+            '}',
+        ], 'ILogger<OrderService>');
+
+        assert.strictEqual(result, [
+            'public class OrderService',
+            '{',
+            '    private readonly IClock _clock;',
+            '    private readonly ILogger<OrderService> _logger;',
+            '',
+            '    public OrderService(IClock clock, ILogger<OrderService> logger)',
+            '    {',
+            '        _clock = clock;',
+            '        _logger = logger;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addDependency creates the constructor when there is none', () => {
+        const result = inject([
+            'public class OrderService',
+            '{',
+            '    public void Save() { }',
+            '}',
+        ], 'IOrderRepository', { ...options, privateMemberPrefix: '', useThisForCtorAssignments: true });
+
+        assert.strictEqual(result, [
+            'public class OrderService',
+            '{',
+            '    private readonly IOrderRepository orderRepository;',
+            '',
+            '    public OrderService(IOrderRepository orderRepository)',
+            '    {',
+            '        this.orderRepository = orderRepository;',
+            '    }',
+            '',
+            '    public void Save() { }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addDependency creates the constructor after the existing fields', () => {
+        const result = inject([
+            'public abstract class OrderService',
+            '{',
+            '    private int _count;',
+            '    public void Save() { }',
+            '}',
+        ], 'IOrderRepository');
+
+        assert.strictEqual(result, [
+            'public abstract class OrderService',
+            '{',
+            '    private int _count;',
+            '    private readonly IOrderRepository _orderRepository;',
+            '',
+            '    protected OrderService(IOrderRepository orderRepository)',
+            '    {',
+            '        _orderRepository = orderRepository;',
+            '    }',
+            '',
+            '    public void Save() { }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addDependency extends the primary constructor', () => {
+        const result = inject([
+            'public class OrderService(IClock clock)',
+            '{',
+            '}',
+        ], 'IOrderRepository');
+
+        assert.strictEqual(result, [
+            'public class OrderService(IClock clock, IOrderRepository orderRepository)',
+            '{',
+            '    private readonly IOrderRepository _orderRepository = orderRepository;',
+            '}',
+        ].join('\n'));
+    });
+
+    test('addDependency inserts the parameter before the optional ones', () => {
+        const primaryResult = inject([
+            'public class OrderService(IClock clock, int retries = 3)',
+            '{',
+            '}',
+        ], 'IOrderRepository');
+
+        assert.strictEqual(primaryResult, [
+            'public class OrderService(IClock clock, IOrderRepository orderRepository, int retries = 3)',
+            '{',
+            '    private readonly IOrderRepository _orderRepository = orderRepository;',
+            '}',
+        ].join('\n'));
+
+        const result = inject([
+            'public class OrderService',
+            '{',
+            '    public OrderService(params string[] tags) { }',
+            '}',
+        ], 'ILogger<OrderService>');
+
+        assert.ok(result.includes('public OrderService(ILogger<OrderService> logger, params string[] tags) {'));
+    });
+
+    test('addDependency refuses the dependencies already declared', () => {
+        const source = 'public class OrderService\n{\n    private readonly IClock _clock;\n}';
+        const unit = DeclarationParser.parse(source);
+
+        assert.ok(addDependency(unit, getAllTypes(unit)[0], 'IClock', options).isErr());
+    });
+});
@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+
+import { generateDebuggerDisplay, generateToString } from '../../../../src/generator/displayGenerator';
+
+suite('DisplayGenerator', () => {
+    const options = { eol: '\n', memberIndentation: '        ', indentation: '    ' };
+
+    test('generateToString lists the members', () => {
+        assert.strictEqual(generateToString('Foo', [{ name: 'Id' }, { name: 'Name' }], options), [
+            '        public override string ToString()',
+            '        {',
+            '            return $"Foo {{ Id = {Id}, Name = {Name} }}";',
+            '        }',
+        ].join('\n'));
+    });
+
+    test('generateToString without members returns the type name', () => {
+        assert.ok(generateToString('Foo', [], options).includes('return $"Foo";'));
+    });
+
+    test('generateDebuggerDisplay lists the members', () => {
+        assert.strictEqual(generateDebuggerDisplay([{ name: 'Id' }, { name: '_name' }]), '[DebuggerDisplay("Id = {Id}, _name = {_name}")]');
+    });
+});
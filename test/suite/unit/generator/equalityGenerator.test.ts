@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+
+import { EqualityGenerationOptions, generateEqualityMembers } from '../../../../src/generator/equalityGenerator';
+
+suite('EqualityGenerator', () => {
+    const options: EqualityGenerationOptions = {
+        eol: '\n',
+        memberIndentation: '    ',
+        indentation: '    ',
+        useHashCode: true,
+        generateOperators: false,
+    };
+    const members = [{ name: 'Id', type: 'int' }, { name: 'Name', type: 'string' }, { name: 'Tags', type: 'List<string>' }];
+
+    test('generateEqualityMembers for a class with HashCode', () => {
+        const generated = generateEqualityMembers('Foo', false, members, options);
+
+        assert.deepStrictEqual(generated.namespaces, ['System', 'System.Collections.Generic']);
+        assert.deepStrictEqual(generated.members, [
+            [
+                '    public override bool Equals(object obj)',
+                '    {',
+                '        return Equals(obj as Foo);',
+                '    }',
+            ].join('\n'),
+            [
+                '    public bool Equals(Foo other)',
+                '    {',
+                '        return !ReferenceEquals(other, null)',
+                '            && Id == other.Id',
+                '            && Name == other.Name',
+                '            && EqualityComparer<List<string>>.Default.Equals(Tags, other.Tags);',
+                '    }',
+            ].join('\n'),
+            [
+                '    public override int GetHashCode()',
+                '    {',
+                '        return HashCode.Combine(Id, Name, Tags);',
+                '    }',
+            ].join('\n'),
+        ]);
+    });
+
+    test('generateEqualityMembers for a struct with operators and a manual hash', () => {
+        const generated = generateEqualityMembers('Point', true, [{ name: 'X', type: 'int' }, { name: 'Label', type: 'string' }], {
+            ...options,
+            useHashCode: false,
+            generateOperators: true,
+        });
+
+        assert.deepStrictEqual(generated.namespaces, ['System', 'System.Collections.Generic']);
+        assert.deepStrictEqual(generated.members, [
+            [
+                '    public override bool Equals(object obj)',
+                '    {',
+                '        return obj is Point other && Equals(other);',
+                '    }',
+            ].join('\n'),
+            [
+                '    public bool Equals(Point other)',
+                '    {',
+                '        return X == other.X',
+                '            && Label == other.Label;',
+                '    }',
+            ].join('\n'),
+            [
+                '    public override int GetHashCode()',
+                '    {',
+                '        unchecked',
+                '        {',
+                '            int hashCode = 17;',
+                '            hashCode = hashCode * 23 + X.GetHashCode();',
+                '            hashCode = hashCode * 23 + EqualityComparer<string>.Default.GetHashCode(Label);',
+                '            return hashCode;',
+                '        }',
+                '    }',
+            ].join('\n'),
+            [
+                '    public static bool operator ==(Point left, Point right)',
+                '    {',
+                '        return left.Equals(right);',
+                '    }',
+            ].join('\n'),
+            [
+                '    public static bool operator !=(Point left, Point right)',
+                '    {',
+                '        return !(left == right);',
+                '    }',
+            ].join('\n'),
+        ]);
+    });
+
+    test('generateEqualityMembers uses a HashCode instance beyond eight members', () => {
+        const manyMembers = Array.from({ length: 9 }, (_, index) => ({ name: `P${index}`, type: 'int' }));
+        const generated = generateEqualityMembers('Foo', false, manyMembers, { ...options, generateOperators: true });
+
+        assert.deepStrictEqual(generated.namespaces, ['System', 'System.Collections.Generic']);
+        assert.ok(generated.members[2].includes('        var hash = new HashCode();\n        hash.Add(P0);'));
+        assert.ok(generated.members[2].includes('        return hash.ToHashCode();'));
+        assert.ok(generated.members[3].includes('return EqualityComparer<Foo>.Default.Equals(left, right);'));
+    });
+
+    test('generateEqualityMembers does not require System.Collections.Generic for value types only', () => {
+        const generated = generateEqualityMembers('Point', true, [{ name: 'X', type: 'int' }], options);
+
+        assert.deepStrictEqual(generated.namespaces, ['System']);
+    });
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { NullCheckOptions, addNullChecks, generateThrowExpression, getUncheckedParameters, isNullCheckable, isReferenceType } from '../../../../src/generator/guardGenerator';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('GuardGenerator', () => {
+    const options: NullCheckOptions = {
+        eol: '\n',
+        indentation: '    ',
+        useThrowIfNull: true,
+    };
+
+    function guard(lines: string[], memberName: string, generationOptions = options): string {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const type = getAllTypes(unit)[0];
+        const member = type.members.find(m => m.name === memberName)!;
+        const result = addNullChecks(unit, member, getUncheckedParameters(unit, type, member), generationOptions);
+
+        assert.ok(result.isOk(), result.info());
+
+        return applySourceEdits(source, result.value());
+    }
+
+    test('isNullCheckable skips the value types and the nullable parameters', () => {
+        assert.ok(isNullCheckable('string'));
+        assert.ok(isNullCheckable('IEnumerable<int>'));
+        assert.ok(isNullCheckable('int[]'));
+        assert.ok(!isNullCheckable('string?'));
+        assert.ok(!isNullCheckable('int'));
+        assert.ok(!isNullCheckable('System.Guid'));
+        assert.ok(!isNullCheckable('(int, string)'));
+        assert.ok(!isNullCheckable('ReadOnlySpan<char>'));
+        assert.ok(!isNullCheckable('T', ['T']));
+    });
+
+    test('generateThrowExpression throws when the parameter is null', () => {
+        assert.strictEqual(generateThrowExpression('name'), 'name ?? throw new ArgumentNullException(nameof(name))');
+    });
+
+    test('addNullChecks checks the reference type parameters at the beginning of the constructor', () => {
+        const result = guard([
+            'public class OrderService',
+            '{',
+            '    public OrderService(IOrderRepository repository, string? name, int retries, Point origin, ILogger logger)',
+            '    {',
+            '        ArgumentNullException.ThrowIfNull(logger);',
+            '        _repository = repository;',
+            '    }',
+            '}',
+            'public struct Point { }',
+        ], 'OrderService');
+
+        assert.strictEqual(result, [
+            'public class OrderService',
+            '{',
+            '    public OrderService(IOrderRepository repository, string? name, int retries, Point origin, ILogger logger)',
+            '    {',
+            '        ArgumentNullException.ThrowIfNull(repository);',
+            '',
+            '        ArgumentNullException.ThrowIfNull(logger);',
+            '        _repository = repository;',
+            '    }',
+            '}',
+            'public struct Point { }',
+        ].join('\n'));
+    });
+
+    test('addNullChecks uses throw expressions before .NET 6', () => {
+        const result = guard([
+            'public class OrderService',
+            '{',
+            '    public void Save(Order order, OrderStatus status, out string error) { error = ""; }',
+            '}',
+            'public class Order { }',
+        ], 'Save', { ...options, useThrowIfNull: false });
+
+        assert.strictEqual(result, [
+            'public class OrderService',
+            '{',
+            '    public void Save(Order order, OrderStatus status, out string error) {',
+            '        _ = order ?? throw new ArgumentNullException(nameof(order));',
+            '',
+            '        error = ""; }',
+            '}',
+            'public class Order { }',
+        ].join('\n'));
+    });
+
+    test('isReferenceType only accepts the types known to be classes or interfaces', () => {
+        assert.ok(isReferenceType('string'));
+        assert.ok(isReferenceType('byte[]'));
+        assert.ok(isReferenceType('IEnumerable<Order>'));
+        assert.ok(isReferenceType('Order', ['Order']));
+        assert.ok(!isReferenceType('OrderStatus'));
+    });
+
+    test('getUncheckedParameters skips the parameters defaulting to null', () => {
+        const unit = DeclarationParser.parse([
+            'public class OrderService',
+            '{',
+            '    public void Save(string id, string name = null, ILogger logger = default, string label = "") { }',
+            '}',
+        ].join('\n'));
+        const type = getAllTypes(unit)[0];
+
+        assert.deepStrictEqual(getUncheckedParameters(unit, type, type.members[0]).map(p => p.name), ['id', 'label']);
+    });
+
+    test('addNullChecks converts the expression bodies to blocks', () => {
+        const result = guard([
+            'public class OrderService',
+            '{',
+            '    public async Task<Order> LoadAsync<T>(string id, T filter) => await _repository.LoadAsync(id, filter);',
+            '}',
+        ], 'LoadAsync');
+
+        assert.strictEqual(result, [
+            'public class OrderService',
+            '{',
+            '    public async Task<Order> LoadAsync<T>(string id, T filter)',
+            '    {',
+            '        ArgumentNullException.ThrowIfNull(id);',
+            '',
+            '        return await _repository.LoadAsync(id, filter);',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+});
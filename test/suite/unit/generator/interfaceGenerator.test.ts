@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { generateInterfaceMember, getInterfaceCandidates } from '../../../../src/generator/interfaceGenerator';
+
+suite('InterfaceGenerator', () => {
+    function generate(lines: string[]): string[] {
+        const unit = DeclarationParser.parse(['public class Customer', '{', ...lines, '}'].join('\n'));
+        const type = unit.types[0];
+
+        return getInterfaceCandidates(type).map(member => generateInterfaceMember(unit, member));
+    }
+
+    test('getInterfaceCandidates keeps the public instance members', () => {
+        const result = generate([
+            '    public Customer(string name) { }',
+            '    public const int Max = 10;',
+            '    public string Code;',
+            '    public static Customer Create() => new();',
+            '    internal void Reset() { }',
+            '    void IDisposable.Dispose() { }',
+            '    public void Save() { }',
+        ]);
+
+        assert.deepStrictEqual(result, ['void Save();']);
+    });
+
+    test('generateInterfaceMember declares the methods with their type parameters and constraints', () => {
+        const result = generate([
+            '    public async Task<T> LoadAsync<T>(int id, CancellationToken token = default) where T : class, new()',
+            '    {',
+            '    }',
+            '',
+            '    public string Format(string? format) => format ?? string.Empty;',
+        ]);
+
+        assert.deepStrictEqual(result, [
+            'Task<T> LoadAsync<T>(int id, CancellationToken token = default) where T : class, new();',
+            'string Format(string? format);',
+        ]);
+    });
+
+    test('generateInterfaceMember declares the public accessors of the properties', () => {
+        const result = generate([
+            '    public string Name { get; private set; }',
+            '    public int Age { get; init; }',
+            '    public bool IsAdult => Age >= 18;',
+            '    public string Secret { private get; set; }',
+            '    public string Hidden { private get; private set; }',
+        ]);
+
+        assert.deepStrictEqual(result, [
+            'string Name { get; }',
+            'int Age { get; init; }',
+            'bool IsAdult { get; }',
+            'string Secret { set; }',
+        ]);
+    });
+
+    test('generateInterfaceMember declares the indexers and the events', () => {
+        const result = generate([
+            '    public event EventHandler? Changed;',
+            '    public event EventHandler Saved { add { } remove { } }',
+            '    public Order this[int index] { get => _orders[index]; set => _orders[index] = value; }',
+        ]);
+
+        assert.deepStrictEqual(result, [
+            'event EventHandler? Changed;',
+            'event EventHandler Saved;',
+            'Order this[int index] { get; set; }',
+        ]);
+    });
+});
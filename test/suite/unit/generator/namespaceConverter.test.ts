@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { convertToBlockScopedNamespace, convertToFileScopedNamespace, NamespaceConversionOptions } from '../../../../src/generator/namespaceConverter';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('NamespaceConverter', () => {
+    const options: NamespaceConversionOptions = { eol: '\n', tabSize: 4, indentation: '    ' };
+
+    function toFileScoped(lines: string[], conversionOptions = options): string | undefined {
+        const source = lines.join('\n');
+        const result = convertToFileScopedNamespace(DeclarationParser.parse(source), conversionOptions);
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    function toBlockScoped(lines: string[], conversionOptions = options): string | undefined {
+        const source = lines.join('\n');
+        const result = convertToBlockScopedNamespace(DeclarationParser.parse(source), conversionOptions);
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    test('convertToFileScopedNamespace unindents the content of the namespace', () => {
+        const result = toFileScoped([
+            'using System;',
+            '',
+            'namespace App.Domain',
+            '{',
+            '    public class Foo',
+            '    {',
+            '        private const string S = @"first',
+            '    second";',
+            '    }',
+            '}',
+            '',
+        ]);
+
+        assert.strictEqual(result, [
+            'using System;',
+            '',
+            'namespace App.Domain;',
+            '',
+            'public class Foo',
+            '{',
+            '    private const string S = @"first',
+            '    second";',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    test('convertToFileScopedNamespace handles tabs and any tab size', () => {
+        assert.strictEqual(toFileScoped([
+            'namespace App {',
+            '\tclass Foo',
+            '\t{',
+            '\t\tint A;',
+            '\t}',
+            '}',
+        ]), 'namespace App;\n\nclass Foo\n{\n\tint A;\n}');
+
+        assert.strictEqual(toFileScoped([
+            'namespace App',
+            '{',
+            '',
+            '  class Foo',
+            '  {',
+            '    int A;',
+            '  }',
+            '}',
+        ], { ...options, tabSize: 2 }), 'namespace App;\n\nclass Foo\n{\n  int A;\n}');
+    });
+
+    test('convertToFileScopedNamespace refuses files with several namespaces', () => {
+        assert.strictEqual(toFileScoped(['namespace A { }', 'namespace B { }']), undefined);
+        assert.strictEqual(toFileScoped(['namespace A { namespace B { } }']), undefined);
+        assert.strictEqual(toFileScoped(['namespace A;', 'class Foo { }']), undefined);
+    });
+
+    test('convertToBlockScopedNamespace indents the content of the namespace', () => {
+        const result = toBlockScoped([
+            'using System;',
+            '',
+            'namespace App.Domain;',
+            '',
+            'public class Foo',
+            '{',
+            '',
+            '    private const string S = """',
+            '        raw',
+            '        """;',
+            '}',
+            '',
+        ], { ...options, indentation: '\t' });
+
+        assert.strictEqual(result, [
+            'using System;',
+            '',
+            'namespace App.Domain',
+            '{',
+            '\tpublic class Foo',
+            '\t{',
+            '',
+            '\t    private const string S = """',
+            '        raw',
+            '        """;',
+            '\t}',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    test('convertToBlockScopedNamespace refuses block scoped namespaces', () => {
+        assert.strictEqual(toBlockScoped(['namespace A { }']), undefined);
+    });
+});
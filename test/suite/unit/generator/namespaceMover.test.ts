@@ -0,0 +1,209 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { NamespaceMove, getFolderNamespace, getMovableNamespace, getMovedNamespace, updateNamespaceReferences } from '../../../../src/generator/namespaceMover';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('NamespaceMover', () => {
+    const moveToServices: NamespaceMove = { oldNamespace: 'App.Models', newNamespace: 'App.Services', typeNames: ['Customer'] };
+
+    function update(lines: string[], moves: NamespaceMove[], remainingTypes: Map<string, string[]>, newNamespace?: string, globalUsings: string[] = []): string {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+
+        return applySourceEdits(source, updateNamespaceReferences(unit, moves, remainingTypes, newNamespace, { eol: '\n', globalUsings }));
+    }
+
+    test('getMovableNamespace returns the only namespace', () => {
+        const unit = DeclarationParser.parse('namespace App.Models;\n\npublic class Customer { }');
+
+        assert.strictEqual(getMovableNamespace(unit)?.name, 'App.Models');
+    });
+
+    test('getMovableNamespace ignores files declaring several namespaces', () => {
+        const unit = DeclarationParser.parse('namespace App.A { }\nnamespace App.B { }');
+
+        assert.strictEqual(getMovableNamespace(unit), undefined);
+    });
+
+    test('getMovableNamespace ignores nested namespaces', () => {
+        const unit = DeclarationParser.parse('namespace App { namespace Models { } }');
+
+        assert.strictEqual(getMovableNamespace(unit), undefined);
+    });
+
+    test('getFolderNamespace appends the folders of the file to the root namespace', () => {
+        const root = path.join(path.sep, 'src', 'Shop');
+
+        assert.strictEqual(getFolderNamespace('Shop', path.join(root, 'Models', 'Orders', 'Order.cs'), root), 'Shop.Models.Orders');
+        assert.strictEqual(getFolderNamespace('Shop', path.join(root, 'Program.cs'), root), 'Shop');
+        assert.strictEqual(getFolderNamespace('Shop', path.join(path.sep, 'src', 'Other', 'Order.cs'), root), undefined);
+    });
+
+    test('getMovedNamespace follows the new folder of a file', () => {
+        const root = path.join(path.sep, 'src', 'App');
+
+        assert.strictEqual(getMovedNamespace('Shop.Models', path.join(root, 'Models', 'Customer.cs'), path.join(root, 'Services', 'Api', 'Customer.cs'), root), 'Shop.Services.Api');
+        assert.strictEqual(getMovedNamespace('Shop.Models', path.join(root, 'Models', 'Customer.cs'), path.join(root, 'Customer.cs'), root), 'Shop');
+    });
+
+    test('getMovedNamespace follows a renamed folder whose new path doesn\'t exist yet', () => {
+        const root = path.join(path.sep, 'nonexistent', 'App');
+        const oldPath = path.join(root, 'Models', 'Orders', 'Order.cs');
+        const newPath = path.join(root, 'Domain', 'Orders', 'Order.cs');
+
+        assert.strictEqual(getMovedNamespace('App.Models.Orders', oldPath, newPath, root), 'App.Domain.Orders');
+    });
+
+    test('getMovedNamespace ignores the namespaces not following the folders and the files leaving the project', () => {
+        const root = path.join(path.sep, 'src', 'App');
+
+        assert.strictEqual(getMovedNamespace('App.Domain', path.join(root, 'Models', 'Order.cs'), path.join(root, 'Services', 'Order.cs'), root), undefined);
+        assert.strictEqual(getMovedNamespace('App.Models', path.join(root, 'Models', 'Order.cs'), path.join(path.sep, 'src', 'Other', 'Order.cs'), root), undefined);
+    });
+
+    test('updateNamespaceReferences renames the namespace of the moved file', () => {
+        const result = update([
+            'namespace App.Models',
+            '{',
+            '    public class Customer { }',
+            '}',
+        ], [moveToServices], new Map(), 'App.Services');
+
+        assert.strictEqual(result, [
+            'namespace App.Services',
+            '{',
+            '    public class Customer { }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('updateNamespaceReferences renames the using directives of the emptied namespaces', () => {
+        const result = update([
+            'using System;',
+            'using App.Models;',
+            '',
+            'namespace App.Controllers;',
+            '',
+            'public class CustomerController { Customer _customer; }',
+        ], [moveToServices], new Map());
+
+        assert.strictEqual(result, [
+            'using System;',
+            'using App.Services;',
+            '',
+            'namespace App.Controllers;',
+            '',
+            'public class CustomerController { Customer _customer; }',
+        ].join('\n'));
+    });
+
+    test('updateNamespaceReferences renames the global using directives', () => {
+        const result = update([
+            'global using App.Models;',
+        ], [moveToServices], new Map());
+
+        assert.strictEqual(result, 'global using App.Services;');
+    });
+
+    test('updateNamespaceReferences removes the renamed directives already imported', () => {
+        const result = update([
+            'using App.Models;',
+            'using App.Services;',
+            '',
+            'namespace App.Controllers;',
+        ], [moveToServices], new Map());
+
+        assert.strictEqual(result, [
+            'using App.Services;',
+            '',
+            'namespace App.Controllers;',
+        ].join('\n'));
+    });
+
+    test('updateNamespaceReferences imports the new namespace when the old one keeps types', () => {
+        const result = update([
+            'using App.Models;',
+            '',
+            'namespace App.Controllers;',
+            '',
+            'public class CustomerController { Customer _customer; Order _order; }',
+        ], [moveToServices], new Map([['App.Models', ['Order']]]));
+
+        assert.strictEqual(result, [
+            'using App.Models;',
+            'using App.Services;',
+            '',
+            'namespace App.Controllers;',
+            '',
+            'public class CustomerController { Customer _customer; Order _order; }',
+        ].join('\n'));
+    });
+
+    test('updateNamespaceReferences imports the new namespace in the files of the old one', () => {
+        const result = update([
+            'namespace App.Models;',
+            '',
+            'public class Order { Customer Customer { get; set; } }',
+        ], [moveToServices], new Map([['App.Models', ['Order']]]));
+
+        assert.strictEqual(result, [
+            'using App.Services;',
+            '',
+            'namespace App.Models;',
+            '',
+            'public class Order { Customer Customer { get; set; } }',
+        ].join('\n'));
+    });
+
+    test('updateNamespaceReferences ignores the files not referencing the moved types', () => {
+        const source = [
+            'namespace App.Models;',
+            '',
+            'public class Order { }',
+        ];
+
+        assert.strictEqual(update(source, [moveToServices], new Map([['App.Models', ['Order']]])), source.join('\n'));
+    });
+
+    test('updateNamespaceReferences imports the old namespace in the moved file', () => {
+        const result = update([
+            'using System;',
+            '',
+            'namespace App.Models;',
+            '',
+            'public class Customer { List<Order> Orders { get; } }',
+        ], [moveToServices], new Map([['App.Models', ['Order']]]), 'App.Services');
+
+        assert.strictEqual(result, [
+            'using System;',
+            'using App.Models;',
+            '',
+            'namespace App.Services;',
+            '',
+            'public class Customer { List<Order> Orders { get; } }',
+        ].join('\n'));
+    });
+
+    test('updateNamespaceReferences keeps the parent namespaces visible without directive', () => {
+        const source = [
+            'namespace App.Models.Sales;',
+            '',
+            'public class Invoice { Customer Customer { get; } }',
+        ];
+        const move: NamespaceMove = { oldNamespace: 'App.Models', newNamespace: 'App.Models.Sales', typeNames: ['Customer'] };
+
+        assert.strictEqual(update(source, [move], new Map([['App.Models', ['Order']]])), source.join('\n'));
+    });
+
+    test('updateNamespaceReferences skips the namespaces imported globally', () => {
+        const source = [
+            'namespace App.Models;',
+            '',
+            'public class Order { Customer Customer { get; set; } }',
+        ];
+
+        assert.strictEqual(update(source, [moveToServices], new Map([['App.Models', ['Order']]]), undefined, ['App.Services']), source.join('\n'));
+    });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+
+import { camelize, getAssignmentTarget, getMemberName, getParameterName, isValidNamespace, isValidTypeName } from '../../../../src/generator/naming';
+
+suite('Naming', () => {
+    test('camelize lowers the first letter', () => {
+        assert.strictEqual(camelize('FirstName'), 'firstName');
+    });
+
+    test('getParameterName strips the private member prefix', () => {
+        assert.strictEqual(getParameterName('_logger', '_'), 'logger');
+        assert.strictEqual(getParameterName('m_Logger', 'm_'), 'logger');
+        assert.strictEqual(getParameterName('Name', '_'), 'name');
+    });
+
+    test('getMemberName names the members after the parameters', () => {
+        assert.strictEqual(getMemberName('firstName', 'property', '_'), 'FirstName');
+        assert.strictEqual(getMemberName('logger', 'field', '_'), '_logger');
+        assert.strictEqual(getMemberName('@event', 'property', ''), 'Event');
+    });
+
+    test('getAssignmentTarget keeps this when the names are equal', () => {
+        assert.strictEqual(getAssignmentTarget('Name', 'name', false), 'Name');
+        assert.strictEqual(getAssignmentTarget('Name', 'name', true), 'this.Name');
+        assert.strictEqual(getAssignmentTarget('name', 'name', false), 'this.name');
+    });
+
+    test('isValidNamespace accepts dot separated identifiers only', () => {
+        assert.strictEqual(isValidNamespace('App.Domain_1'), true);
+        assert.strictEqual(isValidNamespace('App.@class'), true);
+        assert.strictEqual(isValidNamespace('My-App.Domain'), false);
+        assert.strictEqual(isValidNamespace('App..Domain'), false);
+        assert.strictEqual(isValidNamespace('App.1Domain'), false);
+        assert.strictEqual(isValidNamespace(''), false);
+    });
+
+    test('isValidTypeName accepts a single identifier only', () => {
+        assert.strictEqual(isValidTypeName('Customer_1'), true);
+        assert.strictEqual(isValidTypeName('@class'), true);
+        assert.strictEqual(isValidTypeName('App.Customer'), false);
+        assert.strictEqual(isValidTypeName('Customer.Tests'), false);
+        assert.strictEqual(isValidTypeName('1Customer'), false);
+        assert.strictEqual(isValidTypeName(''), false);
+    });
+});
@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { NotifyPropertyChangedOptions, implementNotifyPropertyChanged, isNotifyCandidate } from '../../../../src/generator/notifyPropertyChangedGenerator';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('NotifyPropertyChangedGenerator', () => {
+    const options: NotifyPropertyChangedOptions = {
+        eol: '\n',
+        indentation: '    ',
+        privateMemberPrefix: '_',
+        nullable: true,
+    };
+
+    function implement(lines: string[], propertyNames: string[], generationOptions = options) {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const type = getAllTypes(unit)[0];
+        const result = implementNotifyPropertyChanged(unit, type, type.members.filter(member => propertyNames.includes(member.name)), generationOptions);
+
+        assert.ok(result.isOk(), result.info());
+
+        return { source: applySourceEdits(source, result.value().edits), namespaces: result.value().namespaces };
+    }
+
+    test('isNotifyCandidate accepts the instance auto-properties with a setter', () => {
+        const unit = DeclarationParser.parse([
+            'public class ViewModel',
+            '{',
+            '    public string Title { get; set; }',
+            '    public int Count { get; private set; }',
+            '    public int Id { get; init; }',
+            '    public static string Name { get; set; }',
+            '    public string Label => Title;',
+            '}',
+        ].join('\n'));
+        const type = getAllTypes(unit)[0];
+
+        assert.deepStrictEqual(type.members.filter(member => isNotifyCandidate(type, member)).map(member => member.name), ['Title', 'Count']);
+    });
+
+    test('implementNotifyPropertyChanged adds the interface, the event, the helper and raises the notifications', () => {
+        const result = implement([
+            'public class MainViewModel : ViewModelBase',
+            '{',
+            '    public string Title { get; private set; } = "Home";',
+            '    public int Count { get; set; }',
+            '}',
+        ], ['Title']);
+
+        assert.strictEqual(result.source, [
+            'public class MainViewModel : ViewModelBase, INotifyPropertyChanged',
+            '{',
+            '    private string _title = "Home";',
+            '    public string Title',
+            '    {',
+            '        get => _title;',
+            '        private set',
+            '        {',
+            '            if (EqualityComparer<string>.Default.Equals(_title, value))',
+            '            {',
+            '                return;',
+            '            }',
+            '',
+            '            _title = value;',
+            '            OnPropertyChanged();',
+            '        }',
+            '    }',
+            '    public int Count { get; set; }',
+            '',
+            '    public event PropertyChangedEventHandler? PropertyChanged;',
+            '',
+            '    protected virtual void OnPropertyChanged([CallerMemberName] string? propertyName = null)',
+            '    {',
+            '        PropertyChanged?.Invoke(this, new PropertyChangedEventArgs(propertyName));',
+            '    }',
+            '}',
+        ].join('\n'));
+        assert.deepStrictEqual(result.namespaces, ['System.ComponentModel', 'System.Runtime.CompilerServices', 'System.Collections.Generic']);
+    });
+
+    test('implementNotifyPropertyChanged reuses the existing implementation', () => {
+        const result = implement([
+            'public sealed class ViewModel : System.ComponentModel.INotifyPropertyChanged',
+            '{',
+            '    public event PropertyChangedEventHandler PropertyChanged;',
+            '    public int Count { get; set; }',
+            '    private void OnPropertyChanged([CallerMemberName] string propertyName = null) { }',
+            '}',
+        ], ['Count'], { ...options, privateMemberPrefix: '', nullable: false });
+
+        assert.strictEqual(result.source, [
+            'public sealed class ViewModel : System.ComponentModel.INotifyPropertyChanged',
+            '{',
+            '    public event PropertyChangedEventHandler PropertyChanged;',
+            '    private int count;',
+            '    public int Count',
+            '    {',
+            '        get => count;',
+            '        set',
+            '        {',
+            '            if (EqualityComparer<int>.Default.Equals(count, value))',
+            '            {',
+            '                return;',
+            '            }',
+            '',
+            '            count = value;',
+            '            OnPropertyChanged();',
+            '        }',
+            '    }',
+            '    private void OnPropertyChanged([CallerMemberName] string propertyName = null) { }',
+            '}',
+        ].join('\n'));
+        assert.deepStrictEqual(result.namespaces, ['System.Collections.Generic']);
+    });
+
+    test('implementNotifyPropertyChanged generates a private helper in sealed classes', () => {
+        const result = implement(['public sealed class ViewModel', '{', '}'], [], { ...options, nullable: false });
+
+        assert.strictEqual(result.source, [
+            'public sealed class ViewModel : INotifyPropertyChanged',
+            '{',
+            '    public event PropertyChangedEventHandler PropertyChanged;',
+            '',
+            '    private void OnPropertyChanged([CallerMemberName] string propertyName = null)',
+            '    {',
+            '        PropertyChanged?.Invoke(this, new PropertyChangedEventArgs(propertyName));',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+});
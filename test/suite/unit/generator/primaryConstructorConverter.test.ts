@@ -0,0 +1,190 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { ConstructorGenerationOptions } from '../../../../src/generator/constructorGenerator';
+import { convertPrimaryConstructor, initializePrimaryConstructor } from '../../../../src/generator/primaryConstructorConverter';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('PrimaryConstructorConverter', () => {
+    const options: ConstructorGenerationOptions = {
+        eol: '\n',
+        indentation: '    ',
+        privateMemberPrefix: '_',
+        useThisForCtorAssignments: false,
+    };
+
+    function initialize(lines: string[], memberNames: string[]): string | undefined {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const type = getAllTypes(unit)[0];
+        const result = initializePrimaryConstructor(unit, type, type.members.filter(member => memberNames.includes(member.name)), '_');
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    function convert(lines: string[], generationOptions = options): string | undefined {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const result = convertPrimaryConstructor(unit, getAllTypes(unit)[0], generationOptions);
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    test('initializePrimaryConstructor initializes the properties and fields from the parameters', () => {
+        const result = initialize([
+            'public class Order<T> where T : class',
+            '{',
+            '    private readonly IClock _clock;',
+            '',
+            '    public string Name { get; }',
+            '    public int Quantity { get; set; }',
+            '}',
+        ], ['_clock', 'Name']);
+
+        assert.strictEqual(result, [
+            'public class Order<T>(IClock clock, string name) where T : class',
+            '{',
+            '    private readonly IClock _clock = clock;',
+            '',
+            '    public string Name { get; } = name;',
+            '    public int Quantity { get; set; }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('initializePrimaryConstructor refuses the types declaring a constructor', () => {
+        assert.strictEqual(initialize([
+            'public class Order',
+            '{',
+            '    public string Name { get; }',
+            '    public Order() => Name = "";',
+            '}',
+        ], ['Name']), undefined);
+        assert.strictEqual(initialize(['public record Order', '{', '    public string Name { get; }', '}'], ['Name']), undefined);
+    });
+
+    test('convertPrimaryConstructor assigns the initialized members in a constructor', () => {
+        const result = convert([
+            'public class Order(string name, int quantity)',
+            '{',
+            '    public string Name { get; } = name;',
+            '    private readonly int _quantity = quantity * 2;',
+            '',
+            '    public void Save() { }',
+            '}',
+        ]);
+
+        assert.strictEqual(result, [
+            'public class Order',
+            '{',
+            '    public string Name { get; }',
+            '    private readonly int _quantity;',
+            '',
+            '    public Order(string name, int quantity)',
+            '    {',
+            '        Name = name;',
+            '        _quantity = quantity * 2;',
+            '    }',
+            '',
+            '    public void Save() { }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('convertPrimaryConstructor stores the captured parameters in fields', () => {
+        const result = convert([
+            'public abstract class OrderService(IOrderRepository repository, ILogger logger) : IOrderService',
+            '{',
+            '    public void Save(Order order, ILogger logger)',
+            '    {',
+            '        repository.Save(order);',
+            '        logger.Log(order.repository);',
+            '    }',
+            '}',
+        ]);
+
+        assert.strictEqual(result, [
+            'public abstract class OrderService : IOrderService',
+            '{',
+            '    private readonly IOrderRepository _repository;',
+            '',
+            '    protected OrderService(IOrderRepository repository, ILogger logger)',
+            '    {',
+            '        _repository = repository;',
+            '    }',
+            '',
+            '    public void Save(Order order, ILogger logger)',
+            '    {',
+            '        _repository.Save(order);',
+            '        logger.Log(order.repository);',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('convertPrimaryConstructor ignores the locals and lambda parameters named like the parameters', () => {
+        const result = convert([
+            'public class OrderService(ILogger logger, IClock clock)',
+            '{',
+            '    public void Save(Order order)',
+            '    {',
+            '        var logger = Create();',
+            '        logger.Log(order.Name);',
+            '        Items.ForEach(clock => clock.Tick());',
+            '        Items.ForEach((IClock clock) => clock.Tick());',
+            '        if (order.Count > clock.Now) { }',
+            '    }',
+            '}',
+        ]);
+
+        assert.strictEqual(result, [
+            'public class OrderService',
+            '{',
+            '    private readonly IClock _clock;',
+            '',
+            '    public OrderService(ILogger logger, IClock clock)',
+            '    {',
+            '        _clock = clock;',
+            '    }',
+            '',
+            '    public void Save(Order order)',
+            '    {',
+            '        var logger = Create();',
+            '        logger.Log(order.Name);',
+            '        Items.ForEach(clock => clock.Tick());',
+            '        Items.ForEach((IClock clock) => clock.Tick());',
+            '        if (order.Count > _clock.Now) { }',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('convertPrimaryConstructor qualifies the members named like the parameters', () => {
+        const result = convert([
+            'public struct Point(int x)',
+            '{',
+            '    private readonly int x = x;',
+            '    public int X => x;',
+            '}',
+        ], { ...options, privateMemberPrefix: '' });
+
+        assert.strictEqual(result, [
+            'public struct Point',
+            '{',
+            '    private readonly int x;',
+            '    public int X => x;',
+            '',
+            '    public Point(int x)',
+            '    {',
+            '        this.x = x;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('convertPrimaryConstructor refuses the arguments passed to the base type', () => {
+        assert.strictEqual(convert(['public class Admin(string name) : User(name)', '{', '}']), undefined);
+        assert.strictEqual(convert(['public record Admin(string Name);']), undefined);
+    });
+});
@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { PropertyConversionOptions, collapseToAutoProperty, expandAutoProperty, findBackingField } from '../../../../src/generator/propertyConverter';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('PropertyConverter', () => {
+    const options: PropertyConversionOptions = {
+        eol: '\n',
+        indentation: '    ',
+        privateMemberPrefix: '_',
+    };
+
+    function expand(lines: string[], propertyName: string, conversionOptions = options): string | undefined {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const type = getAllTypes(unit)[0];
+        const result = expandAutoProperty(unit, type, type.members.find(member => member.name === propertyName)!, conversionOptions);
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    function collapse(lines: string[], propertyName: string): string | undefined {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const type = getAllTypes(unit)[0];
+        const result = collapseToAutoProperty(unit, type, type.members.find(member => member.name === propertyName)!);
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    test('expandAutoProperty adds a backing field and keeps the accessor modifiers', () => {
+        const result = expand([
+            'public class Order',
+            '{',
+            '    /// <summary>The name</summary>',
+            '    public string Name { get; private set; } = "";',
+            '    public int Id { get; init; }',
+            '}',
+        ], 'Name');
+
+        assert.strictEqual(result, [
+            'public class Order',
+            '{',
+            '    private string _name = "";',
+            '    /// <summary>The name</summary>',
+            '    public string Name',
+            '    {',
+            '        get => _name;',
+            '        private set => _name = value;',
+            '    }',
+            '    public int Id { get; init; }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('expandAutoProperty assigns the readonly field of a get-only property in the constructors', () => {
+        const result = expand([
+            'public class Order',
+            '{',
+            '    public int Id { get; }',
+            '',
+            '    public Order(int id) => this.Id = id;',
+            '}',
+        ], 'Id', { ...options, privateMemberPrefix: '' });
+
+        assert.strictEqual(result, [
+            'public class Order',
+            '{',
+            '    private readonly int id;',
+            '    public int Id',
+            '    {',
+            '        get => id;',
+            '    }',
+            '',
+            '    public Order(int id) => this.id = id;',
+            '}',
+        ].join('\n'));
+    });
+
+    test('expandAutoProperty qualifies the field when a constructor parameter has its name', () => {
+        const result = expand([
+            'public class Order',
+            '{',
+            '    public string Name { get; }',
+            '',
+            '    public Order(string name)',
+            '    {',
+            '        Name = name;',
+            '    }',
+            '}',
+        ], 'Name', { ...options, privateMemberPrefix: '' });
+
+        assert.strictEqual(result, [
+            'public class Order',
+            '{',
+            '    private readonly string name;',
+            '    public string Name',
+            '    {',
+            '        get => name;',
+            '    }',
+            '',
+            '    public Order(string name)',
+            '    {',
+            '        this.name = name;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('expandAutoProperty refuses the abstract properties and the existing fields', () => {
+        assert.strictEqual(expand(['public abstract class Order', '{', '    public abstract int Id { get; }', '}'], 'Id'), undefined);
+        assert.strictEqual(expand(['public class Order', '{', '    private int _id;', '    public int Id { get; set; }', '}'], 'Id'), undefined);
+    });
+
+    test('findBackingField recognizes the trivial accessors only', () => {
+        const unit = DeclarationParser.parse([
+            'public class Order',
+            '{',
+            '    private int _id;',
+            '    private string _name;',
+            '    public int Id { get { return this._id; } set { _id = value; } }',
+            '    public string Name { get => _name; set => _name = value.Trim(); }',
+            '    public string Label => _name;',
+            '}',
+        ].join('\n'));
+        const type = getAllTypes(unit)[0];
+        const find = (name: string) => findBackingField(unit, type, type.members.find(member => member.name === name)!)?.name;
+
+        assert.strictEqual(find('Id'), '_id');
+        assert.strictEqual(find('Name'), undefined);
+        assert.strictEqual(find('Label'), '_name');
+    });
+
+    test('collapseToAutoProperty removes the field and uses the property instead', () => {
+        const result = collapse([
+            'public class Order',
+            '{',
+            '    private int _count = 1;',
+            '',
+            '    public int Count',
+            '    {',
+            '        get => _count;',
+            '        protected set => _count = value;',
+            '    }',
+            '',
+            '    public void Add() => _count++;',
+            '}',
+        ], 'Count');
+
+        assert.strictEqual(result, [
+            'public class Order',
+            '{',
+            '    public int Count { get; protected set; } = 1;',
+            '',
+            '    public void Add() => Count++;',
+            '}',
+        ].join('\n'));
+    });
+
+    test('collapseToAutoProperty refuses the get-only properties whose field is assigned outside of the constructors', () => {
+        const lines = [
+            'public class Order',
+            '{',
+            '    private int _count;',
+            '    public Order(int count) => _count = count;',
+            '    public int Count => _count;',
+            '    public void Reset() => _count = 0;',
+            '}',
+        ];
+
+        assert.strictEqual(collapse(lines, 'Count'), undefined);
+        assert.strictEqual(collapse(lines.filter(line => !line.includes('Reset')), 'Count'), [
+            'public class Order',
+            '{',
+            '    public Order(int count) => Count = count;',
+            '    public int Count { get; }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('collapseToAutoProperty keeps the parameters and the locals named like the field', () => {
+        const result = collapse([
+            'public class Person',
+            '{',
+            '    private string name;',
+            '',
+            '    public string Name',
+            '    {',
+            '        get { return name; }',
+            '        set { name = value; }',
+            '    }',
+            '',
+            '    public void Rename(string name) => this.name = name;',
+            '    public string Describe() => Items.Select(name => name.Trim()).First() + name;',
+            '    public void Reset() { var name = string.Empty; Print(name); }',
+            '}',
+        ], 'Name');
+
+        assert.strictEqual(result, [
+            'public class Person',
+            '{',
+            '    public string Name { get; set; }',
+            '',
+            '    public void Rename(string name) => this.Name = name;',
+            '    public string Describe() => Items.Select(name => name.Trim()).First() + Name;',
+            '    public void Reset() { var name = string.Empty; Print(name); }',
+            '}',
+        ].join('\n'));
+    });
+});
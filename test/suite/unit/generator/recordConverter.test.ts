@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { convertClassToRecord, convertRecordToClass, RecordConversionOptions } from '../../../../src/generator/recordConverter';
+import { applySourceEdits, SourceEdit } from '../../../../src/generator/sourceEdit';
+import Result from '../../../../src/common/result';
+import { CompilationUnit, TypeDeclaration } from '../../../../src/parser/declarations';
+
+suite('RecordConverter', () => {
+    const options: RecordConversionOptions = {
+        eol: '\n',
+        indentation: '    ',
+        useThisForCtorAssignments: false,
+    };
+
+    function convert(lines: string[], converter: (unit: CompilationUnit, type: TypeDeclaration) => Result<SourceEdit[]>): string | undefined {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const result = converter(unit, getAllTypes(unit)[0]);
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    test('convertClassToRecord converts the properties to positional parameters', () => {
+        const result = convert([
+            'public class Dto',
+            '{',
+            '    public int Id { get; }',
+            '    public string Name { get; init; }',
+            '',
+            '    public Dto(int id, string name) => (Id, Name) = (id, name);',
+            '}',
+        ], convertClassToRecord);
+
+        assert.strictEqual(result, 'public record Dto(int Id, string Name);');
+    });
+
+    test('convertClassToRecord keeps the other members, the attributes and the order of the constructor parameters', () => {
+        const result = convert([
+            '[Serializable]',
+            'public sealed class Person<T> : IEntity where T : class',
+            '{',
+            '    [JsonPropertyName("name")]',
+            '    public string Name { get; }',
+            '',
+            '    public int Age { get; init; }',
+            '',
+            '    public Person(int age, string name = "none")',
+            '    {',
+            '        Name = name;',
+            '        Age = age;',
+            '    }',
+            '',
+            '    public string Display() => Name;',
+            '}',
+        ], convertClassToRecord);
+
+        assert.strictEqual(result, [
+            '[Serializable]',
+            'public sealed record Person<T>(int Age, [property: JsonPropertyName("name")] string Name = "none") : IEntity where T : class',
+            '{',
+            '    public string Display() => Name;',
+            '}',
+        ].join('\n'));
+    });
+
+    test('convertClassToRecord refuses classes with mutable properties only or other constructors', () => {
+        assert.strictEqual(convert(['class Foo { public int A { get; set; } }'], convertClassToRecord), undefined);
+        assert.strictEqual(convert([
+            'class Foo',
+            '{',
+            '    public int A { get; }',
+            '    public Foo(int a) { A = a; Log(a); }',
+            '}',
+        ], convertClassToRecord), undefined);
+    });
+
+    test('convertRecordToClass converts the parameters to properties initialized by a constructor', () => {
+        const result = convert([
+            'public record Person([property: JsonPropertyName("n")] string Name, [Required] int Age = 3) : IEntity;',
+        ], (unit, type) => convertRecordToClass(unit, type, options));
+
+        assert.strictEqual(result, [
+            'public class Person : IEntity',
+            '{',
+            '    [JsonPropertyName("n")]',
+            '    public string Name { get; init; }',
+            '    public int Age { get; init; }',
+            '',
+            '    public Person(string name, [Required] int age = 3)',
+            '    {',
+            '        Name = name;',
+            '        Age = age;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('convertRecordToClass keeps the body of the record', () => {
+        const result = convert([
+            'namespace X',
+            '{',
+            '    public sealed record class Foo<T>(T Value)',
+            '    {',
+            '        public int Count => 1;',
+            '    }',
+            '}',
+        ], (unit, type) => convertRecordToClass(unit, type, { ...options, useThisForCtorAssignments: true }));
+
+        assert.strictEqual(result, [
+            'namespace X',
+            '{',
+            '    public sealed class Foo<T>',
+            '    {',
+            '        public T Value { get; init; }',
+            '',
+            '        public Foo(T value)',
+            '        {',
+            '            this.Value = value;',
+            '        }',
+            '',
+            '        public int Count => 1;',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('convertRecordToClass refuses records passing arguments to their base record', () => {
+        assert.strictEqual(convert(['record Foo(int A) : Bar(A);'], (unit, type) => convertRecordToClass(unit, type, options)), undefined);
+    });
+});
@@ -0,0 +1,215 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { TemplateType } from '../../../../src/template/templateType';
+import { generateTestMethods, generateTestSetup, getTestUsings, getTestedClass } from '../../../../src/generator/testGenerator';
+
+suite('TestGenerator', () => {
+    function parse(lines: string[]) {
+        const unit = DeclarationParser.parse(['namespace Shop.Orders', '{', ...lines, '}'].join('\n'));
+
+        return getTestedClass(unit.namespaces[0].types[0]);
+    }
+
+    test('getTestedClass keeps the public methods and the widest public constructor', () => {
+        const testedClass = parse([
+            'public class OrderService',
+            '{',
+            '    static OrderService() { }',
+            '    public OrderService() { }',
+            '    public OrderService(IOrderRepository repository, int retries) { }',
+            '    private OrderService(string name) { }',
+            '    public void Save(Order order) { }',
+            '    internal void Reset() { }',
+            '    void IDisposable.Dispose() { }',
+            '    public static int Count() => 0;',
+            '}',
+        ]);
+
+        assert.strictEqual(testedClass.name, 'OrderService');
+        assert.strictEqual(testedClass.namespace, 'Shop.Orders');
+        assert.deepStrictEqual(testedClass.constructorParameters.map(p => p.name), ['repository', 'retries']);
+        assert.deepStrictEqual(testedClass.methods.map(m => [m.name, m.isStatic]), [['Save', false], ['Count', true]]);
+    });
+
+    test('generateTestMethods generates the default test when there is no method', () => {
+        const testedClass = parse(['public class Empty', '{', '}']);
+
+        assert.strictEqual(generateTestMethods(TemplateType.XUnit, testedClass), [
+            '        [Fact]',
+            '        public void Test1()',
+            '        {',
+            '            Assert.True(true);${cursor}',
+            '        }',
+        ].join('\n'));
+        assert.ok(generateTestMethods(TemplateType.MsTest).startsWith('        [TestMethod]\n        public void TestMethod1()'));
+    });
+
+    test('generateTestMethods generates an Arrange/Act/Assert stub per method', () => {
+        const testedClass = parse([
+            'public class OrderService',
+            '{',
+            '    public bool Save(Order order, int retries = 3) => true;',
+            '    public void Save(Order order, out string error) { error = ""; }',
+            '}',
+        ]);
+
+        assert.strictEqual(generateTestMethods(TemplateType.NUnit, testedClass), [
+            '        [Test]',
+            '        public void Save_StateUnderTest_ExpectedBehavior()',
+            '        {',
+            '            // Arrange',
+            '            var sut = new OrderService();',
+            '            Order order = default;',
+            '            int retries = 3;',
+            '',
+            '            // Act',
+            '            var result = sut.Save(order, retries);',
+            '',
+            '            // Assert${cursor}',
+            '        }',
+            '',
+            '        [Test]',
+            '        public void Save_StateUnderTest_ExpectedBehavior2()',
+            '        {',
+            '            // Arrange',
+            '            var sut = new OrderService();',
+            '            Order order = default;',
+            '',
+            '            // Act',
+            '            sut.Save(order, out var error);',
+            '',
+            '            // Assert',
+            '        }',
+        ].join('\n'));
+    });
+
+    test('generateTestMethods awaits the async methods and calls the static ones on the class', () => {
+        const testedClass = parse([
+            'public static class OrderLoader',
+            '{',
+            '    public static async Task<Order> LoadAsync(int id) => await Task.FromResult(new Order());',
+            '    public static Task ClearAsync() => Task.CompletedTask;',
+            '}',
+        ]);
+
+        assert.strictEqual(generateTestMethods(TemplateType.MsTest, testedClass), [
+            '        [TestMethod]',
+            '        public async Task LoadAsync_StateUnderTest_ExpectedBehavior()',
+            '        {',
+            '            // Arrange',
+            '            int id = default;',
+            '',
+            '            // Act',
+            '            var result = await OrderLoader.LoadAsync(id);',
+            '',
+            '            // Assert${cursor}',
+            '        }',
+            '',
+            '        [TestMethod]',
+            '        public async Task ClearAsync_StateUnderTest_ExpectedBehavior()',
+            '        {',
+            '            // Arrange',
+            '',
+            '            // Act',
+            '            await OrderLoader.ClearAsync();',
+            '',
+            '            // Assert',
+            '        }',
+        ].join('\n'));
+    });
+
+    test('getTestUsings imports the namespace of the class and the tasks when needed', () => {
+        const testedClass = parse([
+            'public class OrderService',
+            '{',
+            '    public Task SaveAsync() => Task.CompletedTask;',
+            '}',
+        ]);
+
+        assert.deepStrictEqual(getTestUsings('Shop.Tests.Orders', testedClass), ['Shop.Orders', 'System.Threading.Tasks']);
+        assert.deepStrictEqual(getTestUsings('Shop.Orders.Tests', testedClass), ['System.Threading.Tasks']);
+        assert.deepStrictEqual(getTestUsings('Shop.Tests'), []);
+    });
+
+    test('generateTestSetup generates the default setup of the framework when there is no dependency', () => {
+        const testedClass = parse(['public class Cart', '{', '    public void Clear() { }', '}']);
+
+        assert.strictEqual(generateTestSetup(TemplateType.XUnit, testedClass), '');
+        assert.strictEqual(generateTestSetup(TemplateType.MsTest), '');
+        assert.strictEqual(generateTestSetup(TemplateType.NUnit, testedClass), [
+            '        [SetUp]',
+            '        public void Setup()',
+            '        {',
+            '        }',
+            '',
+            '',
+        ].join('\n'));
+    });
+
+    test('generateTestSetup mocks the interface dependencies with Moq in the xUnit constructor', () => {
+        const testedClass = parse([
+            'public class OrderService',
+            '{',
+            '    public OrderService(IOrderRepository repository, ILogger<OrderService>? logger, int retries) { }',
+            '    public void Save(Order order) { }',
+            '}',
+        ]);
+        const options = { mockingLibrary: 'Moq' as const, privateMemberPrefix: '_' };
+
+        assert.strictEqual(generateTestSetup(TemplateType.XUnit, testedClass, options), [
+            '        private readonly Mock<IOrderRepository> _repositoryMock;',
+            '        private readonly Mock<ILogger<OrderService>> _loggerMock;',
+            '        private readonly OrderService _sut;',
+            '',
+            '        public ${classname}()',
+            '        {',
+            '            _repositoryMock = new Mock<IOrderRepository>();',
+            '            _loggerMock = new Mock<ILogger<OrderService>>();',
+            '            int retries = default;',
+            '            _sut = new OrderService(_repositoryMock.Object, _loggerMock.Object, retries);',
+            '        }',
+            '',
+            '',
+        ].join('\n'));
+        assert.strictEqual(generateTestMethods(TemplateType.XUnit, testedClass, options), [
+            '        [Fact]',
+            '        public void Save_StateUnderTest_ExpectedBehavior()',
+            '        {',
+            '            // Arrange',
+            '            Order order = default;',
+            '',
+            '            // Act',
+            '            _sut.Save(order);',
+            '',
+            '            // Assert${cursor}',
+            '        }',
+        ].join('\n'));
+        assert.deepStrictEqual(getTestUsings('Shop.Orders.Tests', testedClass, options), ['Moq']);
+    });
+
+    test('generateTestSetup substitutes the interface dependencies with NSubstitute in the setup methods', () => {
+        const testedClass = parse([
+            'public class OrderService',
+            '{',
+            '    public OrderService(IOrderRepository repository) { }',
+            '}',
+        ]);
+        const options = { mockingLibrary: 'NSubstitute' as const, privateMemberPrefix: '' };
+
+        assert.strictEqual(generateTestSetup(TemplateType.MsTest, testedClass, options), [
+            '        private IOrderRepository repository;',
+            '        private OrderService sut;',
+            '',
+            '        [TestInitialize]',
+            '        public void Initialize()',
+            '        {',
+            '            repository = Substitute.For<IOrderRepository>();',
+            '            sut = new OrderService(repository);',
+            '        }',
+            '',
+            '',
+        ].join('\n'));
+        assert.deepStrictEqual(getTestUsings('Shop.Tests', testedClass, options), ['Shop.Orders', 'NSubstitute']);
+    });
+});
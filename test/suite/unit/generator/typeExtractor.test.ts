@@ -0,0 +1,193 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { extractType, getExtractableTypes } from '../../../../src/generator/typeExtractor';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('TypeExtractor', () => {
+    function extract(lines: string[], typeName: string): { content: string, source: string } {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+        const type = getExtractableTypes(unit, 'Customer').find(t => t.name === typeName);
+        assert.ok(type, `${typeName} is not extractable`);
+
+        const extracted = extractType(unit, type, { eol: '\n', indentation: '    ' }).value();
+
+        return { content: extracted.content, source: applySourceEdits(source, extracted.edits) };
+    }
+
+    test('getExtractableTypes ignores the files declaring a single type', () => {
+        const unit = DeclarationParser.parse('namespace App;\n\npublic class Order { }');
+
+        assert.deepStrictEqual(getExtractableTypes(unit, 'Customer'), []);
+    });
+
+    test('getExtractableTypes skips the type matching the file name and the nested types', () => {
+        const unit = DeclarationParser.parse('namespace App;\n\npublic class Customer { class Address { } }\n\npublic enum Status { }');
+
+        assert.deepStrictEqual(getExtractableTypes(unit, 'Customer').map(type => type.name), ['Status']);
+    });
+
+    test('extractType moves a type of a block scoped namespace', () => {
+        const result = extract([
+            'using System;',
+            'using System.Collections.Generic;',
+            '',
+            'namespace App.Models',
+            '{',
+            '    public class Customer',
+            '    {',
+            '    }',
+            '',
+            '    /// <summary>An order</summary>',
+            '    public class Order',
+            '    {',
+            '        public List<string> Lines { get; } = new();',
+            '    }',
+            '}',
+        ], 'Order');
+
+        assert.strictEqual(result.content, [
+            'using System;',
+            'using System.Collections.Generic;',
+            '',
+            'namespace App.Models',
+            '{',
+            '    /// <summary>An order</summary>',
+            '    public class Order',
+            '    {',
+            '        public List<string> Lines { get; } = new();',
+            '    }',
+            '}',
+            '',
+        ].join('\n'));
+        assert.strictEqual(result.source, [
+            'using System;',
+            'using System.Collections.Generic;',
+            '',
+            'namespace App.Models',
+            '{',
+            '    public class Customer',
+            '    {',
+            '    }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('extractType moves a type of a file scoped namespace', () => {
+        const result = extract([
+            'using static System.Math;',
+            'using Json = System.Text.Json;',
+            '',
+            'namespace App.Models;',
+            '',
+            'public record Order(int Id);',
+            '',
+            'public class Customer { }',
+            '',
+        ], 'Order');
+
+        assert.strictEqual(result.content, [
+            'using Json = System.Text.Json;',
+            'using static System.Math;',
+            '',
+            'namespace App.Models;',
+            '',
+            'public record Order(int Id);',
+            '',
+        ].join('\n'));
+        assert.strictEqual(result.source, [
+            'using static System.Math;',
+            'using Json = System.Text.Json;',
+            '',
+            'namespace App.Models;',
+            '',
+            'public class Customer { }',
+            '',
+        ].join('\n'));
+    });
+
+    test('extractType removes the last type of the file', () => {
+        const result = extract([
+            'namespace App.Models;',
+            '',
+            'public class Customer { }',
+            '',
+            'public class Order { }',
+            '',
+        ], 'Order');
+
+        assert.strictEqual(result.source, [
+            'namespace App.Models;',
+            '',
+            'public class Customer { }',
+            '',
+        ].join('\n'));
+    });
+
+    test('extractType reindents the types of nested namespaces', () => {
+        const result = extract([
+            'namespace App',
+            '{',
+            '    namespace Models',
+            '    {',
+            '        public class Customer { }',
+            '',
+            '        public class Order',
+            '        {',
+            '            string Note = @"first',
+            '    second";',
+            '        }',
+            '    }',
+            '}',
+        ], 'Order');
+
+        assert.strictEqual(result.content, [
+            'namespace App.Models',
+            '{',
+            '    public class Order',
+            '    {',
+            '        string Note = @"first',
+            '    second";',
+            '    }',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    test('extractType keeps the types of the global namespace global', () => {
+        const result = extract([
+            'using System;',
+            '',
+            'public class Customer { }',
+            '',
+            'public class Order { }',
+        ], 'Order');
+
+        assert.strictEqual(result.content, [
+            'using System;',
+            '',
+            'public class Order { }',
+            '',
+        ].join('\n'));
+    });
+
+    test('extractType skips the global usings', () => {
+        const result = extract([
+            'global using System;',
+            '',
+            'namespace App;',
+            '',
+            'public class Customer { }',
+            '',
+            'public class Order { }',
+        ], 'Order');
+
+        assert.strictEqual(result.content, [
+            'namespace App;',
+            '',
+            'public class Order { }',
+            '',
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { getAllTypes } from '../../../../src/parser/declarationFinder';
+import { addBaseType, appendMembersToType } from '../../../../src/generator/typeGenerator';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('TypeGenerator', () => {
+    function addBase(source: string, baseType: string): string {
+        const unit = DeclarationParser.parse(source);
+
+        return applySourceEdits(source, [addBaseType(unit, getAllTypes(unit)[0], baseType)]);
+    }
+
+    test('addBaseType appends to the base list', () => {
+        assert.strictEqual(addBase('class Foo : Bar, IBaz { }', 'IQux'), 'class Foo : Bar, IBaz, IQux { }');
+    });
+
+    test('addBaseType creates the base list', () => {
+        assert.strictEqual(addBase('class Foo { }', 'IQux'), 'class Foo : IQux { }');
+        assert.strictEqual(addBase('class Foo<T, U<V>> where T : new() { }', 'IQux'), 'class Foo<T, U<V>> : IQux where T : new() { }');
+        assert.strictEqual(addBase('record Foo(int A);', 'IQux'), 'record Foo(int A) : IQux;');
+    });
+
+    test('appendMembersToType inserts the members before the closing brace', () => {
+        const source = [
+            'class Foo',
+            '{',
+            '    int A;',
+            '}',
+        ].join('\n');
+        const unit = DeclarationParser.parse(source);
+        const edit = appendMembersToType(unit, getAllTypes(unit)[0], ['    int B;', '    int C;'], '\n');
+
+        assert.ok(edit);
+        assert.strictEqual(applySourceEdits(source, [edit]), [
+            'class Foo',
+            '{',
+            '    int A;',
+            '',
+            '    int B;',
+            '',
+            '    int C;',
+            '}',
+        ].join('\n'));
+    });
+
+    test('appendMembersToType handles single line types', () => {
+        const source = 'class Foo { }';
+        const unit = DeclarationParser.parse(source);
+        const edit = appendMembersToType(unit, getAllTypes(unit)[0], ['    int B;'], '\n');
+
+        assert.ok(edit);
+        assert.strictEqual(applySourceEdits(source, [edit]), 'class Foo {\n    int B;\n}');
+    });
+});
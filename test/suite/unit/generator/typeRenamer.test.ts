@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { findFileTypes, getPrimaryType, renameTypeDeclarations } from '../../../../src/generator/typeRenamer';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('TypeRenamer', () => {
+    test('findFileTypes finds every declaration of a partial type', () => {
+        const unit = DeclarationParser.parse('namespace App;\n\npartial class Customer { }\npartial class Customer { }\nenum Status { }');
+
+        assert.deepStrictEqual(findFileTypes(unit, 'Customer').map(type => type.name), ['Customer', 'Customer']);
+    });
+
+    test('findFileTypes ignores the enums and the nested types', () => {
+        const unit = DeclarationParser.parse('namespace App;\n\nenum Status { }\nclass Order { class Customer { } }');
+
+        assert.deepStrictEqual(findFileTypes(unit, 'Status'), []);
+        assert.deepStrictEqual(findFileTypes(unit, 'Customer'), []);
+    });
+
+    test('getPrimaryType returns the only top level type', () => {
+        const unit = DeclarationParser.parse('namespace App;\n\npublic record Customer(string Name) { class Nested { } }');
+
+        assert.strictEqual(getPrimaryType(unit)?.name, 'Customer');
+    });
+
+    test('getPrimaryType ignores the files declaring several types', () => {
+        const unit = DeclarationParser.parse('namespace App;\n\nclass Customer { }\nclass Order { }');
+
+        assert.strictEqual(getPrimaryType(unit), undefined);
+    });
+
+    test('renameTypeDeclarations renames the constructors and the finalizer', () => {
+        const source = [
+            'public class Customer<T> : Base<Customer<T>>',
+            '{',
+            '    static Customer() { }',
+            '    public Customer(string name) : this() { }',
+            '    ~Customer() { }',
+            '    public void Customer2() { }',
+            '}',
+        ].join('\n');
+        const unit = DeclarationParser.parse(source);
+
+        assert.strictEqual(applySourceEdits(source, renameTypeDeclarations(findFileTypes(unit, 'Customer'), 'Client')), [
+            'public class Client<T> : Base<Customer<T>>',
+            '{',
+            '    static Client() { }',
+            '    public Client(string name) : this() { }',
+            '    ~Client() { }',
+            '    public void Customer2() { }',
+            '}',
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { addUsingDirectives, compareUsings, organizeUsings } from '../../../../src/generator/usingGenerator';
+import { applySourceEdits } from '../../../../src/generator/sourceEdit';
+
+suite('UsingGenerator', () => {
+    function addUsings(lines: string[], namespaces: string[], globalUsings: string[] = []): string {
+        const source = lines.join('\n');
+        const unit = DeclarationParser.parse(source);
+
+        return applySourceEdits(source, addUsingDirectives(unit, namespaces, globalUsings, '\n'));
+    }
+
+    function organize(lines: string[], globalUsings: string[] = []): string | undefined {
+        const source = lines.join('\n');
+        const result = organizeUsings(DeclarationParser.parse(source), globalUsings, '\n');
+
+        return result.isOk() ? applySourceEdits(source, result.value()) : undefined;
+    }
+
+    test('compareUsings sorts the System namespaces first', () => {
+        const sorted = ['Xunit', 'System.Linq', 'Microsoft.Extensions', 'System'].sort(compareUsings);
+
+        assert.deepStrictEqual(sorted, ['System', 'System.Linq', 'Microsoft.Extensions', 'Xunit']);
+    });
+
+    test('addUsingDirectives inserts the directives in order', () => {
+        const result = addUsings([
+            'using System;',
+            'using Microsoft.Extensions.Logging;',
+            '',
+            'namespace App;',
+        ], ['Xunit', 'System.Collections.Generic', 'System.Linq', 'System']);
+
+        assert.strictEqual(result, [
+            'using System;',
+            'using System.Collections.Generic;',
+            'using System.Linq;',
+            'using Microsoft.Extensions.Logging;',
+            'using Xunit;',
+            '',
+            'namespace App;',
+        ].join('\n'));
+    });
+
+    test('addUsingDirectives creates the using block', () => {
+        const result = addUsings([
+            '// Header',
+            'namespace App;',
+        ], ['System.Linq', 'System']);
+
+        assert.strictEqual(result, [
+            '// Header',
+            'using System;',
+            'using System.Linq;',
+            '',
+            'namespace App;',
+        ].join('\n'));
+    });
+
+    test('addUsingDirectives skips the namespaces already in scope', () => {
+        const lines = [
+            'namespace App.Domain',
+            '{',
+            '    using System.Linq;',
+            '}',
+        ];
+
+        assert.strictEqual(addUsings(lines, ['System.Linq', 'System', 'App'], ['System']), lines.join('\n'));
+    });
+
+    test('organizeUsings removes the usings in scope and sorts the others', () => {
+        const result = organize([
+            'global using Shared.Models;',
+            'using Xunit;',
+            'using static System.Math;',
+            'using Json = System.Text.Json;',
+            'using System.Linq;',
+            'using Shared.Models;',
+            'using App;',
+            'using Microsoft.Extensions.Logging;',
+            'using global::System.Text;',
+            'using Xunit;',
+            '',
+            'namespace App.Domain;',
+        ], ['System.Linq', 'System']);
+
+        assert.strictEqual(result, [
+            'global using Shared.Models;',
+            'using global::System.Text;',
+            'using Microsoft.Extensions.Logging;',
+            'using Xunit;',
+            'using static System.Math;',
+            'using Json = System.Text.Json;',
+            '',
+            'namespace App.Domain;',
+        ].join('\n'));
+    });
+
+    test('organizeUsings removes the using block when every using is in scope', () => {
+        const result = organize([
+            'using System;',
+            '',
+            'namespace App',
+            '{',
+            '    using System.Linq;',
+            '    using System;',
+            '',
+            '    public class Order { }',
+            '}',
+        ], ['System.Linq', 'System']);
+
+        assert.strictEqual(result, [
+            'namespace App',
+            '{',
+            '    public class Order { }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('organizeUsings removes the usings of the outer scopes from the namespaces', () => {
+        const result = organize([
+            'using Xunit;',
+            '',
+            'namespace App',
+            '{',
+            '    using Xunit;',
+            '    using App.Models;',
+            '    using System;',
+            '',
+            '    public class OrderTests { }',
+            '}',
+        ]);
+
+        assert.strictEqual(result, [
+            'using Xunit;',
+            '',
+            'namespace App',
+            '{',
+            '    using System;',
+            '    using App.Models;',
+            '',
+            '    public class OrderTests { }',
+            '}',
+        ].join('\n'));
+    });
+
+    test('organizeUsings refuses the organized usings and the usings separated by comments', () => {
+        assert.strictEqual(organize(['using System;', 'using Xunit;', '', 'namespace App;']), undefined);
+        assert.strictEqual(organize(['using Xunit;', '// Tests', 'using System;', '', 'namespace App;']), undefined);
+    });
+});
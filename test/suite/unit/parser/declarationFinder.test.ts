@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+import { countStatements, findMemberAtOffset, getAssignedMembers, getLocalScopes, getTypeParametersEnd, findTypeAtOffset, getAccessibility, getAllTypes, getFileScopedNamespace } from '../../../../src/parser/declarationFinder';
+
+suite('DeclarationFinder', () => {
+    const source = [
+        'namespace My.App;',
+        '',
+        'public class Foo',
+        '{',
+        '    public int X { get; set; }',
+        '',
+        '    private class Bar',
+        '    {',
+        '        public int Y { get; set; }',
+        '    }',
+        '}',
+        '',
+        'public record Baz(int Z);',
+    ].join('\n');
+    const unit = DeclarationParser.parse(source);
+
+    test('getAllTypes returns the nested types too', () => {
+        assert.deepStrictEqual(getAllTypes(unit).map(t => t.name), ['Foo', 'Bar', 'Baz']);
+    });
+
+    test('findTypeAtOffset returns the innermost type', () => {
+        assert.strictEqual(findTypeAtOffset(unit, source.indexOf('int X'))?.name, 'Foo');
+        assert.strictEqual(findTypeAtOffset(unit, source.indexOf('int Y'))?.name, 'Bar');
+        assert.strictEqual(findTypeAtOffset(unit, source.indexOf('int Z'))?.name, 'Baz');
+        assert.strictEqual(findTypeAtOffset(unit, source.indexOf('int Z'), ['class']), undefined);
+        assert.strictEqual(findTypeAtOffset(unit, 0), undefined);
+    });
+
+    test('findMemberAtOffset returns the member under the offset', () => {
+        const foo = getAllTypes(unit)[0];
+
+        assert.strictEqual(findMemberAtOffset(foo, source.indexOf('X {'))?.name, 'X');
+        assert.strictEqual(findMemberAtOffset(foo, source.indexOf('X {'), ['method']), undefined);
+    });
+
+    test('getFileScopedNamespace returns the file scoped namespace', () => {
+        assert.strictEqual(getFileScopedNamespace(unit)?.name, 'My.App');
+        assert.strictEqual(getFileScopedNamespace(DeclarationParser.parse('namespace A { }')), undefined);
+    });
+
+    test('getAccessibility joins the accessibility modifiers', () => {
+        assert.strictEqual(getAccessibility(['protected', 'internal', 'static']), 'protected internal');
+        assert.strictEqual(getAccessibility(['static']), undefined);
+    });
+
+    test('getAssignedMembers returns the members assigned within a body', () => {
+        const ctorUnit = DeclarationParser.parse([
+            'class Foo',
+            '{',
+            '    Foo(int a, int b, int c)',
+            '    {',
+            '        A = a;',
+            '        this.B = b;',
+            '        (this.C, _d) = (c, 0);',
+            '        other.E = 1;',
+            '    }',
+            '}',
+        ].join('\n'));
+        const ctor = getAllTypes(ctorUnit)[0].members[0];
+
+        assert.ok(ctor.body);
+        assert.deepStrictEqual(getAssignedMembers(ctorUnit, ctor.body), ['A', 'B', 'C', '_d']);
+    });
+
+    test('getTypeParametersEnd returns the end of the type parameter list', () => {
+        const genericSource = 'class Foo<T, U<V>> : Bar { }';
+        const genericUnit = DeclarationParser.parse(genericSource);
+
+        assert.strictEqual(getTypeParametersEnd(genericUnit, getAllTypes(genericUnit)[0]), genericSource.indexOf(' : '));
+        assert.strictEqual(getTypeParametersEnd(unit, getAllTypes(unit)[0]), undefined);
+    });
+
+    test('countStatements counts the top level statements', () => {
+        const methodUnit = DeclarationParser.parse([
+            'class Foo',
+            '{',
+            '    void A() { Run(() => { Stop(); }); if (b) { c(); } d = 1; }',
+            '    void B() => Run();',
+            '}',
+        ].join('\n'));
+        const [a, b] = getAllTypes(methodUnit)[0].members;
+
+        assert.ok(a.body && b.body);
+        assert.strictEqual(countStatements(methodUnit, a.body), 3);
+        assert.strictEqual(countStatements(methodUnit, b.body), 1);
+    });
+
+    test('getLocalScopes returns the member for the locals and the lambda for its parameters', () => {
+        const methodSource = [
+            'class Foo',
+            '{',
+            '    void A() { var name = Get(); out List<int> items; }',
+            '    void B() { Run(name => name.Trim()); Log(name); }',
+            '}',
+        ].join('\n');
+        const methodUnit = DeclarationParser.parse(methodSource);
+        const [a, b] = getAllTypes(methodUnit)[0].members;
+        const lambda = methodSource.indexOf('name =>');
+
+        assert.deepStrictEqual(getLocalScopes(methodUnit, a.start, a.end, 'name'), [{ start: a.start, end: a.end }]);
+        assert.deepStrictEqual(getLocalScopes(methodUnit, a.start, a.end, 'items'), [{ start: a.start, end: a.end }]);
+        assert.deepStrictEqual(getLocalScopes(methodUnit, b.start, b.end, 'name'), [{ start: lambda, end: methodSource.indexOf('));') + 2 }]);
+        assert.deepStrictEqual(getLocalScopes(methodUnit, b.start, b.end, 'other'), []);
+    });
+});
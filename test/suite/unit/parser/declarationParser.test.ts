@@ -0,0 +1,242 @@
+import * as assert from 'assert';
+
+import DeclarationParser from '../../../../src/parser/declarationParser';
+
+suite('DeclarationParser', () => {
+    test('parse reads using directives', () => {
+        const unit = DeclarationParser.parse([
+            'using System;',
+            'using static System.Math;',
+            'using Json = System.Text.Json;',
+            'global using System.Linq;',
+        ].join('\n'));
+
+        assert.deepStrictEqual(unit.usings.map(u => [u.name, u.alias, u.isStatic, u.isGlobal]), [
+            ['System', undefined, false, false],
+            ['System.Math', undefined, true, false],
+            ['System.Text.Json', 'Json', false, false],
+            ['System.Linq', undefined, false, true],
+        ]);
+    });
+
+    test('parse reads file scoped namespace', () => {
+        const unit = DeclarationParser.parse('namespace My.App;\n\npublic class Foo\n{\n}\n');
+        const namespace = unit.namespaces[0];
+
+        assert.strictEqual(namespace.name, 'My.App');
+        assert.strictEqual(namespace.isFileScoped, true);
+        assert.strictEqual(namespace.types[0].name, 'Foo');
+        assert.strictEqual(namespace.types[0].namespace, 'My.App');
+        assert.strictEqual(namespace.types[0].depth, 0);
+    });
+
+    test('parse reads block scoped namespace with start and end lines of the types', () => {
+        const unit = DeclarationParser.parse([
+            'namespace My.App',
+            '{',
+            '    public class Foo',
+            '    {',
+            '        private class Bar',
+            '        {',
+            '        }',
+            '    }',
+            '}',
+        ].join('\n'));
+        const namespace = unit.namespaces[0];
+        const foo = namespace.types[0];
+        const bar = foo.types[0];
+
+        assert.strictEqual(namespace.isFileScoped, false);
+        assert.strictEqual(namespace.startLine, 0);
+        assert.strictEqual(namespace.endLine, 8);
+        assert.deepStrictEqual([foo.name, foo.startLine, foo.endLine, foo.depth], ['Foo', 2, 7, 1]);
+        assert.deepStrictEqual([bar.name, bar.startLine, bar.endLine, bar.depth], ['Bar', 4, 6, 2]);
+        assert.deepStrictEqual(bar.containingTypes, ['Foo']);
+    });
+
+    test('parse reads type headers', () => {
+        const unit = DeclarationParser.parse([
+            '/// <summary>Repository</summary>',
+            '[Serializable]',
+            '[Obsolete("Use another one")]',
+            'public sealed partial class Repository<T>',
+            '    : Base<T, int>, IRepository',
+            '    where T : class, new()',
+            '{',
+            '}',
+        ].join('\n'));
+        const type = unit.types[0];
+
+        assert.strictEqual(type.kind, 'class');
+        assert.strictEqual(type.name, 'Repository');
+        assert.strictEqual(type.fullStart, 0);
+        assert.strictEqual(type.startLine, 1);
+        assert.strictEqual(type.endLine, 7);
+        assert.deepStrictEqual(type.attributes.map(a => a.text), ['Serializable', 'Obsolete("Use another one")']);
+        assert.deepStrictEqual(type.modifiers, ['public', 'sealed', 'partial']);
+        assert.strictEqual(type.typeParameters, 'T');
+        assert.deepStrictEqual(type.baseTypes, ['Base<T, int>', 'IRepository']);
+        assert.deepStrictEqual(type.constraintClauses, ['where T : class, new()']);
+    });
+
+    test('parse reads records and structs', () => {
+        const unit = DeclarationParser.parse([
+            'public record Person(string Name, [property: JsonPropertyName("age")] int Age = 18) : Entity(Name);',
+            'public readonly record struct Point(int X, int Y);',
+            'public record class Dto { }',
+            'internal struct Size { }',
+            'public interface IFoo { }',
+            'public enum Kind { A, B = 2 }',
+        ].join('\n'));
+
+        assert.deepStrictEqual(unit.types.map(t => [t.kind, t.name]), [
+            ['record', 'Person'],
+            ['record struct', 'Point'],
+            ['record', 'Dto'],
+            ['struct', 'Size'],
+            ['interface', 'IFoo'],
+            ['enum', 'Kind'],
+        ]);
+
+        const person = unit.types[0];
+        assert.deepStrictEqual(person.parameters?.map(p => [p.type, p.name, p.defaultValue]), [['string', 'Name', undefined], ['int', 'Age', '18']]);
+        assert.deepStrictEqual(person.parameters?.[1].attributes.map(a => a.text), ['property: JsonPropertyName("age")']);
+        assert.deepStrictEqual(person.baseTypes, ['Entity(Name)']);
+        assert.strictEqual(person.openBrace, undefined);
+    });
+
+    test('parse reads fields, properties and events', () => {
+        const unit = DeclarationParser.parse([
+            'class Foo',
+            '{',
+            '    private readonly ILogger<Foo> _logger;',
+            '    private int _a = Math.Max(1, 2), _b;',
+            '    public const string Name = "{ Name }";',
+            '    [Required]',
+            '    public List<string>? Names { get; init; } = new();',
+            '    public int Count { get; private set; }',
+            '    public string Text => $"{_a}";',
+            '    public event EventHandler? Changed;',
+            '}',
+        ].join('\n'));
+        const members = unit.types[0].members;
+
+        assert.deepStrictEqual(members.map(m => [m.kind, m.type, m.name, m.initializer]), [
+            ['field', 'ILogger<Foo>', '_logger', undefined],
+            ['field', 'int', '_a', 'Math.Max(1, 2)'],
+            ['field', 'int', '_b', undefined],
+            ['field', 'string', 'Name', '"{ Name }"'],
+            ['property', 'List<string>?', 'Names', 'new()'],
+            ['property', 'int', 'Count', undefined],
+            ['property', 'string', 'Text', undefined],
+            ['event', 'EventHandler?', 'Changed', undefined],
+        ]);
+        assert.deepStrictEqual(members[4].attributes.map(a => a.text), ['Required']);
+        assert.strictEqual(members[4].startLine, 5);
+        assert.deepStrictEqual(members[4].accessors.map(a => a.kind), ['get', 'init']);
+        assert.deepStrictEqual(members[5].accessors.map(a => [a.kind, a.modifiers]), [['get', []], ['set', ['private']]]);
+        assert.strictEqual(members[6].body?.kind, 'expression');
+    });
+
+    test('parse reads constructors and methods', () => {
+        const unit = DeclarationParser.parse([
+            'class Foo : Base',
+            '{',
+            '    public Foo(ILogger<Foo> logger,',
+            '               int a = 5) : base(a)',
+            '    {',
+            '        _logger = logger;',
+            '    }',
+            '',
+            '    public async Task<(int A, string B)> RunAsync<T>(T value, CancellationToken ct = default) where T : struct',
+            '        => await Task.FromResult((1, "}"));',
+            '',
+            '    void IDisposable.Dispose() { }',
+            '    public int this[int i] => i;',
+            '    public static Foo operator +(Foo a, Foo b) => a;',
+            '    ~Foo() { }',
+            '}',
+        ].join('\n'));
+        const members = unit.types[0].members;
+
+        assert.deepStrictEqual(members.map(m => [m.kind, m.name]), [
+            ['constructor', 'Foo'],
+            ['method', 'RunAsync'],
+            ['method', 'Dispose'],
+            ['indexer', 'this'],
+            ['operator', 'operator +'],
+            ['destructor', 'Foo'],
+        ]);
+
+        const [ctor, method, dispose] = members;
+        assert.deepStrictEqual(ctor.parameters.map(p => [p.type, p.name, p.defaultValue]), [['ILogger<Foo>', 'logger', undefined], ['int', 'a', '5']]);
+        assert.strictEqual(ctor.constructorInitializer, 'base(a)');
+        assert.strictEqual(ctor.body?.kind, 'block');
+        assert.deepStrictEqual([ctor.startLine, ctor.endLine], [2, 6]);
+        assert.strictEqual(method.type, 'Task<(int A, string B)>');
+        assert.strictEqual(method.typeParameters, 'T');
+        assert.deepStrictEqual(method.modifiers, ['public', 'async']);
+        assert.strictEqual(method.body?.kind, 'expression');
+        assert.deepStrictEqual([method.startLine, method.endLine], [8, 9]);
+        assert.strictEqual(dispose.explicitInterface, 'IDisposable');
+    });
+
+    test('parse ignores declarations within comments and strings', () => {
+        const unit = DeclarationParser.parse([
+            '// class Commented { }',
+            '/* class Block { } */',
+            'class Foo',
+            '{',
+            '    private string _text = "class Bar { }";',
+            '    private char _brace = \'}\';',
+            '    public int X { get; set; }',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(unit.types.map(t => t.name), ['Foo']);
+        assert.deepStrictEqual(unit.types[0].members.map(m => m.name), ['_text', '_brace', 'X']);
+        assert.strictEqual(unit.types[0].endLine, 7);
+    });
+
+    test('parse reads the verbatim strings starting with escaped quotes', () => {
+        const unit = DeclarationParser.parse([
+            'class Q',
+            '{',
+            '    public int M() { var s = @"""}"; return 1; }',
+            '    private string _quoted = @"""quoted"" x";',
+            '    public int Z { get; set; }',
+            '}',
+        ].join('\n'));
+
+        assert.deepStrictEqual(unit.types[0].members.map(m => m.name), ['M', '_quoted', 'Z']);
+        assert.strictEqual(unit.types[0].endLine, 5);
+    });
+
+    test('parse skips top level statements', () => {
+        const unit = DeclarationParser.parse([
+            'using System;',
+            'var builder = WebApplication.CreateBuilder(args);',
+            'if (builder is not null) { Console.WriteLine("{"); }',
+            'record Settings(string Name);',
+        ].join('\n'));
+
+        assert.strictEqual(unit.usings.length, 1);
+        assert.deepStrictEqual(unit.types.map(t => t.name), ['Settings']);
+    });
+
+    test('parse does not fail on incomplete code', () => {
+        const unit = DeclarationParser.parse([
+            'namespace My.App',
+            '{',
+            '    public class Foo',
+            '    {',
+            '        public int X { get; set; }',
+            '        public void Run(',
+        ].join('\n'));
+        const type = unit.namespaces[0].types[0];
+
+        assert.strictEqual(type.name, 'Foo');
+        assert.strictEqual(type.closeBrace, undefined);
+        assert.strictEqual(type.members[0].name, 'X');
+    });
+});
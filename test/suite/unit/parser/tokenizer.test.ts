@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+
+import Tokenizer, { TokenKind } from '../../../../src/parser/tokenizer';
+
+suite('Tokenizer', () => {
+    const texts = (source: string) => Tokenizer.tokenize(source).tokens.map(t => t.text);
+
+    test('tokenize splits identifiers and punctuations', () => {
+        assert.deepStrictEqual(texts('public int X { get; }'), ['public', 'int', 'X', '{', 'get', ';', '}']);
+    });
+
+    test('tokenize keeps multi-char operators but not closing generic brackets', () => {
+        assert.deepStrictEqual(texts('List<List<int>> x => y == z;'), ['List', '<', 'List', '<', 'int', '>', '>', 'x', '=>', 'y', '==', 'z', ';']);
+    });
+
+    test('tokenize skips comments and returns them apart', () => {
+        const result = Tokenizer.tokenize('/// <summary>Doc</summary>\nclass A { } // class B { }\n/* class C { } */');
+
+        assert.deepStrictEqual(result.tokens.map(t => t.text), ['class', 'A', '{', '}']);
+        assert.strictEqual(result.comments.length, 3);
+        assert.strictEqual(result.comments[0].isDocumentation, true);
+        assert.strictEqual(result.comments[1].isDocumentation, false);
+    });
+
+    test('tokenize skips preprocessor directives', () => {
+        assert.deepStrictEqual(texts('#region Fields\nint x;\n#endregion'), ['int', 'x', ';']);
+    });
+
+    const stringFixtures: Array<string> = [
+        '"a \\" { b"',
+        '@"a "" { b"',
+        '$"{value} {{ }} {(x ? "}" : "{")}"',
+        '$@"{path}\\"""',
+        '@"""}"',
+        '@"""quoted"" x"',
+        '"""raw " "" { string"""',
+        '$$"""{{value}} { """',
+    ];
+
+    stringFixtures.forEach((literal) => {
+        test(`tokenize reads ${literal} as a single string literal`, () => {
+            const tokens = Tokenizer.tokenize(`x = ${literal};`).tokens;
+
+            assert.strictEqual(tokens.length, 4);
+            assert.strictEqual(tokens[2].kind, TokenKind.StringLiteral);
+            assert.strictEqual(tokens[2].text, literal.trim());
+        });
+    });
+
+    test('tokenize reads char literals', () => {
+        const tokens = Tokenizer.tokenize('c = \'{\'; d = \'\\\'\';').tokens;
+
+        assert.deepStrictEqual(tokens.filter(t => t.kind === TokenKind.CharLiteral).map(t => t.text), ['\'{\'', '\'\\\'\'']);
+    });
+
+    test('tokenize reads verbatim identifiers and numbers', () => {
+        const tokens = Tokenizer.tokenize('@class = 1_000.5m;').tokens;
+
+        assert.strictEqual(tokens[0].kind, TokenKind.Identifier);
+        assert.strictEqual(tokens[0].text, '@class');
+        assert.strictEqual(tokens[2].kind, TokenKind.NumericLiteral);
+        assert.strictEqual(tokens[2].text, '1_000.5m');
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+
+import { getSdkImplicitUsings } from '../../../../src/project/implicitUsings';
+
+suite('ImplicitUsings', () => {
+    test('getSdkImplicitUsings of the base SDK', () => {
+        assert.deepStrictEqual(getSdkImplicitUsings('Microsoft.NET.Sdk'), [
+            'System',
+            'System.Collections.Generic',
+            'System.IO',
+            'System.Linq',
+            'System.Net.Http',
+            'System.Threading',
+            'System.Threading.Tasks',
+        ]);
+    });
+
+    test('getSdkImplicitUsings ignores the case and the version of the SDK', () => {
+        const usings = getSdkImplicitUsings('microsoft.net.sdk.web/8.0.100');
+
+        assert.ok(usings.includes('System.Linq'));
+        assert.ok(usings.includes('Microsoft.AspNetCore.Builder'));
+    });
+
+    test('getSdkImplicitUsings of an unknown SDK is empty', () => {
+        assert.deepStrictEqual(getSdkImplicitUsings('MSBuild.Sdk.Extras'), []);
+    });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+
+import { getDefaultLanguageVersion, isHashCodeSupported, isThrowIfNullSupported, parseLanguageVersion, parseTargetFramework } from '../../../../src/project/targetFramework';
+
+suite('TargetFramework', () => {
+    const parsedFrameworks = [
+        { moniker: 'net472', expected: { family: 'netframework', major: 4, minor: 7 } },
+        { moniker: 'net48', expected: { family: 'netframework', major: 4, minor: 8 } },
+        { moniker: 'netstandard2.0', expected: { family: 'netstandard', major: 2, minor: 0 } },
+        { moniker: 'netcoreapp3.1', expected: { family: 'netcore', major: 3, minor: 1 } },
+        { moniker: 'net8.0-windows', expected: { family: 'netcore', major: 8, minor: 0 } },
+        { moniker: 'NET6.0', expected: { family: 'netcore', major: 6, minor: 0 } },
+        { moniker: 'uap10.0', expected: undefined },
+    ];
+
+    parsedFrameworks.forEach(({ moniker, expected }) => {
+        test(`parseTargetFramework of ${moniker}`, () => {
+            assert.deepStrictEqual(parseTargetFramework(moniker), expected);
+        });
+    });
+
+    const hashCodeFrameworks = [
+        { moniker: undefined, expected: false },
+        { moniker: 'net48', expected: false },
+        { moniker: 'netstandard2.0', expected: false },
+        { moniker: 'netstandard2.1', expected: true },
+        { moniker: 'netcoreapp2.0', expected: false },
+        { moniker: 'netcoreapp2.1', expected: true },
+        { moniker: 'net5.0', expected: true },
+    ];
+
+    hashCodeFrameworks.forEach(({ moniker, expected }) => {
+        test(`isHashCodeSupported for ${moniker} should be ${expected}`, () => {
+            assert.strictEqual(isHashCodeSupported(moniker), expected);
+        });
+    });
+
+    const throwIfNullFrameworks = [
+        { moniker: undefined, expected: false },
+        { moniker: 'net48', expected: false },
+        { moniker: 'netstandard2.1', expected: false },
+        { moniker: 'net5.0', expected: false },
+        { moniker: 'net6.0', expected: true },
+        { moniker: 'net8.0-windows', expected: true },
+    ];
+
+    throwIfNullFrameworks.forEach(({ moniker, expected }) => {
+        test(`isThrowIfNullSupported for ${moniker} should be ${expected}`, () => {
+            assert.strictEqual(isThrowIfNullSupported(moniker), expected);
+        });
+    });
+
+    const languageVersions = [
+        { moniker: 'net48', expected: 7.3 },
+        { moniker: 'netstandard2.0', expected: 7.3 },
+        { moniker: 'netstandard2.1', expected: 8 },
+        { moniker: 'netcoreapp3.1', expected: 8 },
+        { moniker: 'net5.0', expected: 9 },
+        { moniker: 'net6.0', expected: 10 },
+        { moniker: 'net8.0', expected: 12 },
+        { moniker: 'uap10.0', expected: undefined },
+    ];
+
+    languageVersions.forEach(({ moniker, expected }) => {
+        test(`getDefaultLanguageVersion for ${moniker} should be ${expected}`, () => {
+            assert.strictEqual(getDefaultLanguageVersion(moniker), expected);
+        });
+    });
+
+    test('parseLanguageVersion handles the keywords and the numbers', () => {
+        assert.strictEqual(parseLanguageVersion('10.0'), 10);
+        assert.strictEqual(parseLanguageVersion('7.3'), 7.3);
+        assert.strictEqual(parseLanguageVersion('latest'), Number.POSITIVE_INFINITY);
+        assert.strictEqual(parseLanguageVersion('LatestMinor', 'net6.0'), Number.POSITIVE_INFINITY);
+        assert.strictEqual(parseLanguageVersion('Preview'), Number.POSITIVE_INFINITY);
+        assert.strictEqual(parseLanguageVersion('default', 'net6.0'), 10);
+        assert.strictEqual(parseLanguageVersion('default'), undefined);
+        assert.strictEqual(parseLanguageVersion('ISO-2'), 2);
+        assert.strictEqual(parseLanguageVersion('unknown'), undefined);
+    });
+});
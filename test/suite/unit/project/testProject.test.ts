@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { detectMockingLibrary, detectTestFramework, detectTestFrameworks, isTestProject, getTestFilePath, getTestProjectNames } from '../../../../src/project/testProject';
+import { TemplateType } from '../../../../src/template/templateType';
+
+suite('TestProject', () => {
+    test('getTestProjectNames follows the naming conventions', () => {
+        assert.deepStrictEqual(getTestProjectNames('Shop.Core', {}), ['Shop.Core.Tests', 'Shop.Core.UnitTests', 'Shop.Core.Test']);
+    });
+
+    test('getTestProjectNames puts the configured test project first', () => {
+        assert.deepStrictEqual(getTestProjectNames('Shop', { Shop: 'Shop.UnitTests' }), ['Shop.UnitTests', 'Shop.Tests', 'Shop.Test']);
+        assert.deepStrictEqual(getTestProjectNames('Shop', { Other: 'Other.Specs' }), ['Shop.Tests', 'Shop.UnitTests', 'Shop.Test']);
+    });
+
+    test('getTestFilePath mirrors the folders of the class', () => {
+        const actual = getTestFilePath(
+            path.join('repo', 'src', 'Shop', 'Services', 'Orders', 'OrderService.cs'),
+            path.join('repo', 'src', 'Shop', 'Shop.csproj'),
+            path.join('repo', 'tests', 'Shop.Tests', 'Shop.Tests.csproj'),
+            'OrderService',
+        );
+
+        assert.strictEqual(actual, path.join('repo', 'tests', 'Shop.Tests', 'Services', 'Orders', 'OrderServiceTests'));
+    });
+
+    test('getTestFilePath puts the tests of the root classes at the root of the test project', () => {
+        const actual = getTestFilePath(
+            path.join('repo', 'Shop', 'Cart.cs'),
+            path.join('repo', 'Shop', 'Shop.csproj'),
+            path.join('repo', 'Shop.Tests', 'Shop.Tests.csproj'),
+            'Cart',
+        );
+
+        assert.strictEqual(actual, path.join('repo', 'Shop.Tests', 'CartTests'));
+    });
+
+    test('detectTestFramework recognizes the test framework packages', () => {
+        assert.strictEqual(detectTestFramework(['Microsoft.NET.Test.Sdk', 'xunit', 'xunit.runner.visualstudio']), TemplateType.XUnit);
+        assert.strictEqual(detectTestFramework(['NUnit', 'NUnit3TestAdapter']), TemplateType.NUnit);
+        assert.strictEqual(detectTestFramework(['MSTest.TestAdapter', 'MSTest.TestFramework']), TemplateType.MsTest);
+        assert.strictEqual(detectTestFramework(['Microsoft.NET.Test.Sdk']), undefined);
+    });
+
+    test('detectMockingLibrary recognizes the mocking packages', () => {
+        assert.strictEqual(detectMockingLibrary(['xunit', 'Moq']), 'Moq');
+        assert.strictEqual(detectMockingLibrary(['NUnit', 'NSubstitute', 'NSubstitute.Analyzers.CSharp']), 'NSubstitute');
+        assert.strictEqual(detectMockingLibrary(['xunit']), undefined);
+    });
+
+    test('detectTestFrameworks recognizes every referenced test framework', () => {
+        assert.deepStrictEqual(detectTestFrameworks(['xunit', 'NUnit']), [TemplateType.XUnit, TemplateType.NUnit]);
+        assert.deepStrictEqual(detectTestFrameworks(['Newtonsoft.Json']), []);
+    });
+
+    test('isTestProject recognizes the test SDK and the test frameworks', () => {
+        assert.strictEqual(isTestProject(['Microsoft.NET.Test.Sdk']), true);
+        assert.strictEqual(isTestProject(['MSTest.Sdk']), true);
+        assert.strictEqual(isTestProject(['Serilog', 'Moq']), false);
+    });
+});
@@ -375,6 +375,49 @@ suite('Template', () => {
         assert.strictEqual(allWhereClauses, true);
         assert.strictEqual(all, true);
     });
+
+    test(`${TemplateType[TemplateType.XUnit]} builds the test stubs of the tested class`, () => {
+        const testedClass = {
+            name: 'Cart',
+            namespace: 'Shop',
+            isStatic: false,
+            constructorParameters: [],
+            methods: [{ name: 'Clear', returnType: 'void', isStatic: false, parameters: [] }],
+        };
+        const templateContent =
+            `\${namespaces}namespace \${namespace}
+{
+    public class \${classname}
+    {
+\${tests}
+    }
+}`;
+        const configuration = TemplateConfiguration.create(TemplateType.XUnit, '\n', false, true, true, false, [], undefined, 4, true, testedClass).value();
+        const template = new Template(TemplateType.XUnit, templateContent, configuration);
+
+        assert.strictEqual(template.build('CartTests', 'Shop.Tests'), [
+            'using Xunit;',
+            '',
+            'namespace Shop.Tests;',
+            '',
+            'public class CartTests',
+            '{',
+            '    [Fact]',
+            '    public void Clear_StateUnderTest_ExpectedBehavior()',
+            '    {',
+            '        // Arrange',
+            '        var sut = new Cart();',
+            '',
+            '        // Act',
+            '        sut.Clear();',
+            '',
+            '        // Assert',
+            '    }',
+            '}',
+            '',
+        ].join('\n'));
+        assert.deepStrictEqual(template.findCursorInTemplate('CartTests', 'Shop.Tests'), [15, 18]);
+    });
 });
 
 function mergeImports(arg1: Array<string>, arg2 = new Array<string>()): string {